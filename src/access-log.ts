@@ -0,0 +1,74 @@
+// src/access-log.ts
+
+/** One request through a route's local reverse proxy */
+export interface AccessLogEntry {
+	/** When the response finished (epoch ms) */
+	time: number;
+	publicPort: number;
+	/** Path of the matched route, or null if no route matched */
+	route: string | null;
+	method: string;
+	/** Request path, without the query string */
+	path: string;
+	status: number;
+	bytesIn: number;
+	bytesOut: number;
+	durationMs: number;
+	client: string;
+	upgrade?: boolean;
+}
+
+export type AccessLogListener = (entry: AccessLogEntry) => void;
+
+export const DEFAULT_ACCESS_LOG_SIZE = 1000;
+
+// Ring buffer: once full, `next` points at the oldest entry
+let capacity = DEFAULT_ACCESS_LOG_SIZE;
+let entries: AccessLogEntry[] = [];
+let next = 0;
+const listeners = new Set<AccessLogListener>();
+
+export function recordAccess(entry: AccessLogEntry): void {
+	if (capacity <= 0) return;
+	if (entries.length < capacity) {
+		entries.push(entry);
+	} else {
+		entries[next] = entry;
+		next = (next + 1) % capacity;
+	}
+	for (const listener of listeners) {
+		try {
+			listener(entry);
+		} catch {
+			// A broken follower must not break request handling
+		}
+	}
+}
+
+/** The most recent entries, oldest first (all of them without `limit`) */
+export function getAccessLog(limit?: number): AccessLogEntry[] {
+	const ordered = [...entries.slice(next), ...entries.slice(0, next)];
+	return limit === undefined ? ordered : ordered.slice(Math.max(0, ordered.length - limit));
+}
+
+/** Follow new entries as they are recorded; returns an unsubscribe function */
+export function onAccess(listener: AccessLogListener): () => void {
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+}
+
+/** Empty the log, optionally resizing it (0 turns it off) */
+export function resetAccessLog(size: number = DEFAULT_ACCESS_LOG_SIZE): void {
+	capacity = Math.max(0, Math.floor(size));
+	entries = [];
+	next = 0;
+}
+
+/** Render an entry as a single log line */
+export function formatAccessEntry(entry: AccessLogEntry): string {
+	const route = entry.route ?? "-";
+	const kind = entry.upgrade ? " (upgrade)" : "";
+	return `${new Date(entry.time).toISOString()} ${entry.client} ${entry.method} :${entry.publicPort}${entry.path} ${entry.status} ${entry.bytesIn}/${entry.bytesOut}B ${Math.round(entry.durationMs)}ms route=${route}${kind}`;
+}
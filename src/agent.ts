@@ -0,0 +1,71 @@
+// src/agent.ts
+
+import { DEFAULT_PUBLIC_PORT, type FunnelError, funnelError, isValidMountPath } from "./errors.js";
+import type { FunnelAgentRule, FunnelExposure } from "./types.js";
+
+/** Lease owner for exposures made through the A2A management tools */
+export const AGENT_OWNER = "a2a";
+
+/** Longest lease an agent may take or extend to, unless configured otherwise */
+export const DEFAULT_AGENT_MAX_TTL_SECONDS = 3600;
+
+/** A route an agent asks to publish, with its path already normalized */
+export interface AgentRouteRequest {
+	port: number;
+	path: string;
+	publicPort: number;
+	exposure: FunnelExposure;
+}
+
+/** Whether `path` is `prefix` itself or lies below it */
+function isUnderPath(path: string, prefix: string): boolean {
+	return prefix === "/" || path === prefix || path.startsWith(`${prefix}/`);
+}
+
+/**
+ * Whether an allowlist rule covers the route. A rule without a path
+ * allows any path, one without a public port or exposure allows any.
+ */
+export function isAgentAllowed(rules: FunnelAgentRule[], request: AgentRouteRequest): boolean {
+	return rules.some(
+		(rule) =>
+			rule.port === request.port &&
+			isUnderPath(request.path, rule.path ?? "/") &&
+			(rule.publicPort ?? request.publicPort) === request.publicPort &&
+			(rule.exposure ?? request.exposure) === request.exposure,
+	);
+}
+
+/** Check the route an agent asked for against the allowlist */
+export function checkAgentRoute(
+	rules: FunnelAgentRule[],
+	request: AgentRouteRequest,
+): FunnelError | null {
+	// "/hooks/../admin" would pass a "/hooks" rule but mount elsewhere
+	if (!isValidMountPath(request.path)) {
+		return funnelError("invalid-path", `Invalid path: ${request.path}`);
+	}
+	if (isAgentAllowed(rules, request)) return null;
+	const where = request.publicPort === DEFAULT_PUBLIC_PORT ? "" : ` on :${request.publicPort}`;
+	return funnelError(
+		"agent-not-permitted",
+		`Agents may not expose port ${request.port} on ${request.path}${where} (${request.exposure})`,
+	);
+}
+
+/**
+ * Agents must say how long a route stays up: a positive number of seconds
+ * no longer than `maxTtlSeconds`.
+ */
+export function checkAgentTtl(ttlSeconds: unknown, maxTtlSeconds: number): FunnelError | null {
+	if (typeof ttlSeconds !== "number" || !(ttlSeconds > 0)) {
+		return funnelError("invalid-ttl", `ttlSeconds must be a positive number, got ${ttlSeconds}`);
+	}
+	if (ttlSeconds > maxTtlSeconds) {
+		return funnelError(
+			"invalid-ttl",
+			`ttlSeconds ${ttlSeconds} is longer than the allowed ${maxTtlSeconds}`,
+		);
+	}
+	return null;
+}
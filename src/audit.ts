@@ -0,0 +1,189 @@
+// src/audit.ts
+
+import { appendFile, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { FunnelErrorCode } from "./errors.js";
+import type { FunnelAuditConfig } from "./types.js";
+
+/** `restore` is a persisted exposure brought back after a restart */
+export type AuditAction = "expose" | "restore" | "unexpose" | "extend" | "expire";
+
+/** `denied` changes were refused by policy, `failed` ones were attempted */
+export type AuditOutcome = "ok" | "denied" | "failed";
+
+/** One change to the exposed routes */
+export interface AuditEntry {
+	/** When the change was made (epoch ms) */
+	time: number;
+	/**
+	 * Who asked for it: "cli", "config" (auto-expose), a plugin name, "a2a"
+	 * or "a2a:<agent>", "health" (failed health check), or "api" for callers
+	 * that gave no owner
+	 */
+	actor: string;
+	action: AuditAction;
+	/** Local port (0 for directory and text routes) */
+	port: number;
+	/** Mount path, or "*" for every path of the port */
+	path: string;
+	/** Public port, once known */
+	publicPort?: number;
+	publicUrl?: string;
+	/** Directory served, or "text", instead of a local port */
+	target?: string;
+	/** Lease lifetime asked for, when the change sets one */
+	ttlSeconds?: number;
+	outcome: AuditOutcome;
+	error?: FunnelErrorCode;
+}
+
+/** Filters for `getAuditLog`; entries must match all of them */
+export interface AuditQuery {
+	/** Only the most recent `limit` matches */
+	limit?: number;
+	/** Only entries at or after this time (epoch ms) */
+	since?: number;
+	actor?: string;
+	port?: number;
+	action?: AuditAction;
+}
+
+export const DEFAULT_AUDIT_RETENTION_DAYS = 90;
+export const DEFAULT_AUDIT_MAX_ENTRIES = 10000;
+
+const DAY_MS = 86400000;
+
+let entries: AuditEntry[] = [];
+let file: string | null = null;
+let retentionDays = DEFAULT_AUDIT_RETENTION_DAYS;
+let maxEntries = DEFAULT_AUDIT_MAX_ENTRIES;
+let writing: Promise<void> = Promise.resolve();
+
+function isAuditEntry(value: unknown): value is AuditEntry {
+	const entry = value as AuditEntry | null;
+	return (
+		typeof entry === "object" &&
+		entry !== null &&
+		typeof entry.time === "number" &&
+		typeof entry.actor === "string" &&
+		typeof entry.action === "string" &&
+		typeof entry.port === "number" &&
+		typeof entry.path === "string" &&
+		typeof entry.outcome === "string"
+	);
+}
+
+/** Read a JSONL audit file, skipping lines that do not parse */
+async function readAuditFile(path: string): Promise<AuditEntry[]> {
+	let text: string;
+	try {
+		text = await readFile(path, "utf-8");
+	} catch {
+		return [];
+	}
+	const parsed: AuditEntry[] = [];
+	for (const line of text.split("\n")) {
+		if (!line.trim()) continue;
+		try {
+			const entry: unknown = JSON.parse(line);
+			if (isAuditEntry(entry)) parsed.push(entry);
+		} catch {
+			// A torn last line (crash mid-append) must not lose the rest
+		}
+	}
+	return parsed;
+}
+
+function toLines(list: AuditEntry[]): string {
+	return list.map((entry) => `${JSON.stringify(entry)}\n`).join("");
+}
+
+/** Drop entries past the retention window or the size cap; true if any were dropped */
+function prune(now: number): boolean {
+	const before = entries.length;
+	if (retentionDays > 0) {
+		const cutoff = now - retentionDays * DAY_MS;
+		const first = entries.findIndex((entry) => entry.time >= cutoff);
+		entries = first === -1 ? [] : entries.slice(first);
+	}
+	if (entries.length > maxEntries) entries = entries.slice(entries.length - maxEntries);
+	return entries.length !== before;
+}
+
+/** Queue a write so appends and rewrites land in order */
+function queueWrite(write: (path: string) => Promise<void>): Promise<void> {
+	const path = file;
+	if (!path) return Promise.resolve();
+	const queued = writing.then(async () => {
+		await mkdir(dirname(path), { recursive: true });
+		await write(path);
+	});
+	writing = queued.catch(() => {});
+	return queued;
+}
+
+/** Replace the file with the entries kept in memory */
+function rewrite(): Promise<void> {
+	const body = toLines(entries);
+	return queueWrite(async (path) => {
+		const tmp = `${path}.tmp`;
+		await writeFile(tmp, body, "utf-8");
+		await rename(tmp, path);
+	});
+}
+
+/**
+ * Load the audit trail from `path` (JSONL, one entry per line) and keep
+ * appending to it. With a null path entries are kept in memory only.
+ */
+export async function openAuditLog(
+	path: string | null,
+	options: FunnelAuditConfig = {},
+): Promise<void> {
+	await writing;
+	file = path;
+	retentionDays = options.retentionDays ?? DEFAULT_AUDIT_RETENTION_DAYS;
+	maxEntries = options.maxEntries ?? DEFAULT_AUDIT_MAX_ENTRIES;
+	entries = path ? await readAuditFile(path) : [];
+	if (prune(Date.now())) await rewrite();
+}
+
+/** Add an entry; resolves once it has been written to the file */
+export function recordAudit(entry: AuditEntry): Promise<void> {
+	entries.push(entry);
+	if (prune(entry.time)) return rewrite();
+	const line = toLines([entry]);
+	return queueWrite((path) => appendFile(path, line, "utf-8"));
+}
+
+/** Matching entries, oldest first */
+export function getAuditLog(query: AuditQuery = {}): AuditEntry[] {
+	const matches = entries.filter(
+		(entry) =>
+			(query.since === undefined || entry.time >= query.since) &&
+			(query.actor === undefined || entry.actor === query.actor) &&
+			(query.port === undefined || entry.port === query.port) &&
+			(query.action === undefined || entry.action === query.action),
+	);
+	return query.limit === undefined
+		? matches
+		: matches.slice(Math.max(0, matches.length - query.limit));
+}
+
+/** Wait for pending writes, then forget the file and its entries */
+export async function closeAuditLog(): Promise<void> {
+	await writing;
+	file = null;
+	entries = [];
+	retentionDays = DEFAULT_AUDIT_RETENTION_DAYS;
+	maxEntries = DEFAULT_AUDIT_MAX_ENTRIES;
+}
+
+/** Render an entry as a single log line */
+export function formatAuditEntry(entry: AuditEntry): string {
+	const target = entry.target ?? String(entry.port);
+	const publicPort = entry.publicPort !== undefined ? ` (:${entry.publicPort})` : "";
+	const ttl = entry.ttlSeconds !== undefined ? ` ttl=${entry.ttlSeconds}s` : "";
+	const outcome = entry.error ? `${entry.outcome} [${entry.error}]` : entry.outcome;
+	return `${new Date(entry.time).toISOString()} ${entry.actor} ${entry.action} ${target} ${entry.path}${publicPort}${ttl} ${outcome}`;
+}
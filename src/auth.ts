@@ -0,0 +1,125 @@
+// src/auth.ts
+
+import type { IncomingMessage } from "node:http";
+import type { ProxyDenial, ProxyGate } from "./proxy.js";
+import { findToken, safeEqual, sha256, signPath, type TokenStore } from "./tokens.js";
+import type { FunnelAuth } from "./types.js";
+
+/** Query parameters carrying a signed URL's token id, expiry and signature */
+export const SIGNED_URL_PARAMS = {
+	id: "wopr_token",
+	expires: "wopr_expires",
+	signature: "wopr_sig",
+} as const;
+
+const DEFAULT_REALM = "wopr";
+
+/**
+ * Append a signature to `url` (the public URL of `pathname`). The signature
+ * covers the path only, so any query string added later is not signed.
+ */
+export function buildSignedUrl(
+	url: string,
+	pathname: string,
+	id: string,
+	expiresAt: number,
+	secret: string,
+): string {
+	const params = new URLSearchParams({
+		[SIGNED_URL_PARAMS.id]: id,
+		[SIGNED_URL_PARAMS.expires]: String(expiresAt),
+		[SIGNED_URL_PARAMS.signature]: signPath(secret, id, expiresAt, pathname),
+	});
+	return `${url}?${params}`;
+}
+
+/** Whether the request carries a static or issued bearer token for `route` */
+export function checkBearer(
+	auth: Extract<FunnelAuth, { type: "bearer" }>,
+	route: string,
+	store: TokenStore,
+	req: IncomingMessage,
+): boolean {
+	const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? "");
+	if (!match) return false;
+	const presented = match[1];
+
+	if (auth.tokens?.some((token) => safeEqual(token, presented))) return true;
+
+	const separator = presented.indexOf(".");
+	if (separator < 0) return false;
+	const issued = findToken(store, presented.slice(0, separator));
+	return (
+		issued?.kind === "bearer" &&
+		issued.route === route &&
+		issued.hash !== undefined &&
+		safeEqual(issued.hash, sha256(presented.slice(separator + 1)))
+	);
+}
+
+/** Whether the request carries HTTP basic credentials for one of `auth.users` */
+export function checkBasic(
+	auth: Extract<FunnelAuth, { type: "basic" }>,
+	req: IncomingMessage,
+): boolean {
+	const match = /^Basic\s+(\S+)$/i.exec(req.headers.authorization ?? "");
+	if (!match) return false;
+	const decoded = Buffer.from(match[1], "base64").toString("utf-8");
+	const separator = decoded.indexOf(":");
+	if (separator < 0) return false;
+
+	const user = decoded.slice(0, separator);
+	const expected = Object.hasOwn(auth.users, user) ? auth.users[user] : undefined;
+	return expected !== undefined && safeEqual(expected, decoded.slice(separator + 1));
+}
+
+/** Whether the request URL carries a valid, unexpired signature for `route` */
+export function checkSigned(
+	auth: Extract<FunnelAuth, { type: "signed" }>,
+	route: string,
+	store: TokenStore,
+	req: IncomingMessage,
+	now: number = Date.now(),
+): boolean {
+	const url = new URL(req.url ?? "/", "http://localhost");
+	const id = url.searchParams.get(SIGNED_URL_PARAMS.id);
+	const expiresAt = Number(url.searchParams.get(SIGNED_URL_PARAMS.expires));
+	const signature = url.searchParams.get(SIGNED_URL_PARAMS.signature);
+	if (!id || !signature || !Number.isFinite(expiresAt) || expiresAt <= now) return false;
+
+	const issued = findToken(store, id, now);
+	if (issued?.kind !== "signed" || issued.route !== route) return false;
+	const expected = signPath(auth.secret ?? store.secret, id, expiresAt, url.pathname);
+	return safeEqual(expected, signature);
+}
+
+function deny(auth: FunnelAuth): ProxyDenial {
+	if (auth.type === "signed") {
+		return { status: 403, body: "Invalid or expired signed URL" };
+	}
+	const scheme = auth.type === "basic" ? "Basic" : "Bearer";
+	const realm = (auth.type === "basic" && auth.realm) || DEFAULT_REALM;
+	return {
+		status: 401,
+		headers: { "www-authenticate": `${scheme} realm="${realm}"` },
+		body: "Authentication required",
+	};
+}
+
+/**
+ * Gate for the local reverse proxy enforcing `auth` on a route. The token
+ * store is read on every request, so revoked tokens stop working at once.
+ */
+export function createAuthGate(
+	auth: FunnelAuth,
+	route: string,
+	getStore: () => TokenStore,
+): ProxyGate {
+	return (req) => {
+		let allowed: boolean;
+		if (auth.type === "basic") allowed = checkBasic(auth, req);
+		else if (auth.type === "bearer") allowed = checkBearer(auth, route, getStore(), req);
+		else allowed = checkSigned(auth, route, getStore(), req);
+		return allowed ? null : deny(auth);
+	};
+}
@@ -0,0 +1,41 @@
+// src/directory.ts
+
+import { realpath, stat } from "node:fs/promises";
+import { isAbsolute, relative, resolve, sep } from "node:path";
+import { type FunnelError, funnelError } from "./errors.js";
+
+/** Whether `target` is `root` itself or inside it (both already resolved) */
+export function isInsideRoot(target: string, root: string): boolean {
+	const rel = relative(root, target);
+	return rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel);
+}
+
+/**
+ * Resolve a directory to publish and check that it exists and lies inside
+ * one of `roots`. Symlinks are followed first, so a link inside a root
+ * cannot point elsewhere. Roots that hold `privateDir` (where the plugin
+ * keeps its secrets) are skipped. Resolves to the real path, or the error.
+ */
+export async function resolveStaticDirectory(
+	dir: string,
+	roots: readonly string[],
+	privateDir?: string,
+): Promise<string | FunnelError> {
+	let real: string;
+	try {
+		real = await realpath(resolve(dir));
+		if (!(await stat(real)).isDirectory()) {
+			return funnelError("directory-not-found", `Not a directory: ${dir}`);
+		}
+	} catch {
+		return funnelError("directory-not-found", `Directory not found: ${dir}`);
+	}
+
+	const realPrivate = privateDir ? await realpath(resolve(privateDir)).catch(() => null) : null;
+	for (const root of roots) {
+		const realRoot = await realpath(resolve(root)).catch(() => null);
+		if (!realRoot || (realPrivate && isInsideRoot(realPrivate, realRoot))) continue;
+		if (isInsideRoot(real, realRoot)) return real;
+	}
+	return funnelError("directory-not-allowed", `${dir} is outside the allowed directory roots`);
+}
@@ -0,0 +1,189 @@
+// src/errors.ts
+
+import type { FunnelLease } from "./types.js";
+
+/** Machine-readable failure codes returned by the funnel extension */
+export type FunnelErrorCode =
+	| "tailscale-not-installed"
+	| "backend-not-running"
+	| "no-hostname"
+	| "funnel-not-permitted"
+	| "listener-exists"
+	| "invalid-port"
+	| "invalid-public-port"
+	| "invalid-exposure"
+	| "invalid-path"
+	| "exposure-conflict"
+	| "invalid-protocol"
+	| "public-port-in-use"
+	| "directory-not-found"
+	| "invalid-auth"
+	| "auth-not-enabled"
+	| "token-not-found"
+	| "invalid-verify"
+	| "invalid-access-rule"
+	| "invalid-capture"
+	| "capture-not-found"
+	| "replay-failed"
+	| "invalid-health-check"
+	| "invalid-fallback"
+	| "agent-not-permitted"
+	| "invalid-ttl"
+	| "directory-not-allowed"
+	| "no-free-public-port"
+	| "not-exposed"
+	| "owned-by-other"
+	| "proxy-failed"
+	| "spawn-failed"
+	| "funnel-failed"
+	| "funnel-not-configured"
+	| "target-unreachable";
+
+export interface FunnelError {
+	code: FunnelErrorCode;
+	/** What went wrong, for logs and CLI output */
+	message: string;
+	/** What the operator can do about it */
+	hint: string;
+}
+
+export type ExposeResult =
+	| { ok: true; url: string; lease: FunnelLease }
+	| { ok: false; error: FunnelError };
+
+/** A new bearer `token` (shown once) or signed `url`, and the id to revoke it by */
+export type TokenResult =
+	| { ok: true; id: string; expiresAt: number | null; token?: string; url?: string }
+	| { ok: false; error: FunnelError };
+
+/** What the local port answered to a replayed request */
+export type ReplayResult =
+	| {
+			ok: true;
+			status: number;
+			headers: Record<string, string | string[]>;
+			/** Response body as text, cut off after 64 KiB */
+			body: string;
+	  }
+	| { ok: false; error: FunnelError };
+
+/** `released` counts leases given up, `stopped` the routes torn down as a result */
+export type UnexposeResult =
+	| { ok: true; stopped: number; released: number }
+	| { ok: false; error: FunnelError };
+
+const HINTS: Record<FunnelErrorCode, string> = {
+	"tailscale-not-installed": "Install Tailscale from https://tailscale.com/download",
+	"backend-not-running": "Start tailscaled and run 'tailscale up'",
+	"no-hostname": "Enable MagicDNS and HTTPS certificates for your tailnet",
+	"funnel-not-permitted":
+		"Allow the 'funnel' node attribute for this node in the tailnet policy file (https://tailscale.com/kb/1223/funnel#setup)",
+	"listener-exists":
+		"Another serve or funnel config already uses this port/path; run 'tailscale serve reset' or unexpose it first",
+	"invalid-port": "Use a port number between 1 and 65535",
+	"invalid-public-port": "Funnel only listens on public ports 443, 8443 and 10000",
+	"invalid-exposure": 'Use "public" (Funnel) or "tailnet" (tailnet-only serve)',
+	"invalid-path": 'Use a path without empty, "." or ".." segments, e.g. "/hooks/github"',
+	"exposure-conflict":
+		"Funnel is switched on per public port, so public and tailnet-only routes cannot share one; use another public port",
+	"invalid-protocol":
+		"Use http, https-insecure, tcp or tls-terminated-tcp; TCP routes have no path and cannot use proxy rewrites",
+	"public-port-in-use":
+		"A TCP route takes a whole public port; use another public port or unexpose the routes on it",
+	"directory-not-found": "Check that the directory exists and WOPR can read it",
+	"directory-not-allowed":
+		"Publish directories under one of the configured staticRoots (default: public/ in the plugin data directory); roots holding the plugin data directory are refused",
+	"invalid-auth":
+		'Use { type: "bearer" }, { type: "basic", users } or { type: "signed" } on an http route',
+	"auth-not-enabled":
+		'Tokens are only issued for routes exposed with auth { type: "bearer" } or { type: "signed" }',
+	"token-not-found": "Check 'wopr funnel token list' for the ids of issued tokens",
+	"invalid-verify":
+		"Use verify { preset: github, stripe, slack or generic-hmac, secret } on an http route",
+	"invalid-access-rule":
+		"Use IP addresses or CIDRs (10.0.0.0/8, 2001:db8::/32) in ipAllow/ipDeny and a positive rateLimit.requestsPerMinute on an http route",
+	"invalid-capture":
+		"Use capture: true or { maxRequests, maxBodyBytes } with positive whole numbers on an http route",
+	"capture-not-found":
+		"Captures are kept in memory for the most recent requests only; check 'wopr funnel inspect' for current ids",
+	"replay-failed":
+		"Make sure the route is still exposed and its local service is listening; truncated bodies cannot be replayed",
+	"invalid-health-check":
+		'Use healthCheck { path, expectStatus, intervalSeconds, timeoutMs, unhealthyThreshold, onUnhealthy: "none" | "unexpose" | "maintenance" } on a port route; paths and maintenance pages need an http route',
+	"invalid-fallback":
+		'Use fallback { type: "maintenance", body, contentType, retryAfterSeconds } or { type: "port", port } on an http route, with a port other than the route\'s own',
+	"agent-not-permitted":
+		"Add the port (and path) to agent.allow in the plugin config to let A2A agents publish it",
+	"invalid-ttl":
+		"Give a positive ttlSeconds; agents are also held to agent.maxTtlSeconds (default: 3600)",
+	"no-free-public-port":
+		"This path is mounted on all three public ports; unexpose one or use a different path",
+	"not-exposed": "Check 'wopr funnel status' for the ports that are currently exposed",
+	"owned-by-other":
+		"Another plugin holds a lease on this route; it is removed once that plugin releases it (or use 'wopr funnel unexpose')",
+	"proxy-failed": "Check that the configured proxy port is free",
+	"spawn-failed": "Check that the tailscale CLI is on PATH for the WOPR daemon",
+	"funnel-failed": "Check 'tailscale funnel status' and the tailscaled logs",
+	"funnel-not-configured":
+		"Verify Funnel is enabled for this node and its HTTPS certificate has been issued",
+	"target-unreachable": "Make sure the local service is listening on the exposed port",
+};
+
+export function funnelError(code: FunnelErrorCode, message: string): FunnelError {
+	return { code, message, hint: HINTS[code] };
+}
+
+export function isValidPort(port: number): boolean {
+	return Number.isInteger(port) && port >= 1 && port <= 65535;
+}
+
+/**
+ * Whether a normalized mount path has no empty, "." or ".." segments
+ * (percent-encoded dots included), so it names the route Tailscale mounts
+ */
+export function isValidMountPath(path: string): boolean {
+	if (path === "/") return true;
+	return path
+		.slice(1)
+		.split("/")
+		.every((segment) => {
+			const dots = segment.replace(/%2e/gi, ".");
+			return segment !== "" && dots !== "." && dots !== "..";
+		});
+}
+
+/** Public HTTPS ports Tailscale Funnel can listen on, in order of preference */
+export const FUNNEL_PUBLIC_PORTS: readonly number[] = [443, 8443, 10000];
+
+export const DEFAULT_PUBLIC_PORT = 443;
+
+export function isFunnelPublicPort(port: number): boolean {
+	return FUNNEL_PUBLIC_PORTS.includes(port);
+}
+
+/**
+ * Map tailscale CLI output (usually stderr of a failed funnel command) to
+ * an error code. Returns null when the output is not recognised.
+ */
+export function classifyTailscaleError(output: string): FunnelErrorCode | null {
+	const text = output.toLowerCase();
+	// Also "foreground already exists under this port" from a second foreground session
+	if (text.includes("already exists") || text.includes("already in use")) {
+		return "listener-exists";
+	}
+	if (
+		text.includes("funnel not available") ||
+		text.includes("funnel is not enabled") ||
+		text.includes("not allowed to use funnel") ||
+		text.includes('"funnel" node attribute')
+	) {
+		return "funnel-not-permitted";
+	}
+	if (text.includes("enoent")) {
+		return "tailscale-not-installed";
+	}
+	if (text.includes("is tailscale running") || text.includes("tailscaled")) {
+		return "backend-not-running";
+	}
+	return null;
+}
@@ -0,0 +1,189 @@
+// src/health.ts
+
+import { request } from "node:http";
+import { connect } from "node:net";
+import { isValidPort } from "./errors.js";
+import type {
+	FunnelFallback,
+	FunnelHealth,
+	FunnelHealthCheck,
+	FunnelUnhealthyAction,
+} from "./types.js";
+
+export const DEFAULT_HEALTH_INTERVAL_SECONDS = 30;
+export const DEFAULT_HEALTH_TIMEOUT_MS = 5000;
+export const DEFAULT_UNHEALTHY_THRESHOLD = 3;
+
+const UNHEALTHY_ACTIONS: readonly FunnelUnhealthyAction[] = [
+	"none",
+	"unexpose",
+	"maintenance",
+	"fallback",
+];
+
+/** Outcome of a single check; `error` says why it failed */
+export type HealthProbeResult = { ok: true } | { ok: false; error: string };
+
+export interface HealthMonitorOptions {
+	/** Local port to check */
+	port: number;
+	check: FunnelHealthCheck;
+	/** Called once the route has failed `unhealthyThreshold` checks in a row */
+	onUnhealthy?: (health: FunnelHealth) => void;
+	/** Called on the first passing check after the route was unhealthy */
+	onRecovered?: (health: FunnelHealth, downtimeMs: number) => void;
+}
+
+export interface HealthMonitor {
+	/** Snapshot of the latest results */
+	readonly health: FunnelHealth;
+	/** Run a check now; the next one follows an interval after it */
+	check(): Promise<FunnelHealth>;
+	/** Stop checking; results still in flight are dropped */
+	stop(): void;
+}
+
+function isPositive(value: number | undefined): boolean {
+	return value === undefined || (typeof value === "number" && value > 0);
+}
+
+/** Whether health check settings are well-formed (the route's protocol is checked by the caller) */
+export function isValidHealthCheck(check: FunnelHealthCheck): boolean {
+	if (typeof check !== "object" || check === null) return false;
+	const { path, expectStatus, unhealthyThreshold, onUnhealthy } = check;
+	return (
+		(path === undefined || (typeof path === "string" && path.startsWith("/"))) &&
+		(expectStatus === undefined ||
+			(Number.isInteger(expectStatus) && expectStatus >= 100 && expectStatus <= 599)) &&
+		isPositive(check.intervalSeconds) &&
+		isPositive(check.timeoutMs) &&
+		(unhealthyThreshold === undefined ||
+			(Number.isInteger(unhealthyThreshold) && unhealthyThreshold > 0)) &&
+		(onUnhealthy === undefined || UNHEALTHY_ACTIONS.includes(onUnhealthy))
+	);
+}
+
+/** Whether fallback settings are well-formed (the route they belong to is checked by the caller) */
+export function isValidFallback(fallback: FunnelFallback): boolean {
+	if (typeof fallback !== "object" || fallback === null) return false;
+	if (fallback.type === "port") return isValidPort(fallback.port);
+	if (fallback.type !== "maintenance") return false;
+	const { body, contentType, retryAfterSeconds } = fallback;
+	return (
+		(body === undefined || typeof body === "string") &&
+		(contentType === undefined || typeof contentType === "string") &&
+		(retryAfterSeconds === undefined ||
+			(Number.isInteger(retryAfterSeconds) && retryAfterSeconds >= 0))
+	);
+}
+
+/**
+ * Check a local port once. With `path`, an HTTP GET must answer with
+ * `expectStatus` (default: any 2xx or 3xx); otherwise a TCP connect is enough.
+ */
+export function probeHealth(port: number, check: FunnelHealthCheck): Promise<HealthProbeResult> {
+	const timeoutMs = check.timeoutMs ?? DEFAULT_HEALTH_TIMEOUT_MS;
+	const timedOut = `timed out after ${timeoutMs}ms`;
+	const { path, expectStatus } = check;
+
+	if (path) {
+		return new Promise((resolve) => {
+			const req = request(
+				{ host: "127.0.0.1", port, path, method: "GET", timeout: timeoutMs },
+				(res) => {
+					res.resume();
+					const status = res.statusCode ?? 0;
+					const passed =
+						expectStatus !== undefined ? status === expectStatus : status >= 200 && status < 400;
+					if (passed) resolve({ ok: true });
+					else if (expectStatus !== undefined) {
+						resolve({ ok: false, error: `expected HTTP ${expectStatus}, got ${status}` });
+					} else resolve({ ok: false, error: `HTTP ${status}` });
+				},
+			);
+			req.on("timeout", () => req.destroy(new Error(timedOut)));
+			req.on("error", (err) => resolve({ ok: false, error: err.message }));
+			req.end();
+		});
+	}
+
+	return new Promise((resolve) => {
+		const socket = connect({ host: "127.0.0.1", port, timeout: timeoutMs });
+		socket.once("connect", () => {
+			socket.end();
+			resolve({ ok: true });
+		});
+		socket.once("timeout", () => {
+			socket.destroy();
+			resolve({ ok: false, error: timedOut });
+		});
+		socket.once("error", (err) => resolve({ ok: false, error: err.message }));
+	});
+}
+
+/**
+ * Check a local port now and then every `intervalSeconds`. The route turns
+ * unhealthy after `unhealthyThreshold` consecutive failures and healthy
+ * again on the next check that passes.
+ */
+export function monitorHealth(options: HealthMonitorOptions): HealthMonitor {
+	const { port, check } = options;
+	const intervalMs = (check.intervalSeconds ?? DEFAULT_HEALTH_INTERVAL_SECONDS) * 1000;
+	const threshold = check.unhealthyThreshold ?? DEFAULT_UNHEALTHY_THRESHOLD;
+
+	let health: FunnelHealth = { status: "unknown", consecutiveFailures: 0 };
+	let stopped = false;
+	let running: Promise<FunnelHealth> | null = null;
+	let timer: ReturnType<typeof setTimeout> | null = null;
+
+	function record(result: HealthProbeResult, now: number): void {
+		const previous = health;
+		if (result.ok) {
+			health = { status: "healthy", consecutiveFailures: 0, lastCheckedAt: now };
+			if (previous.status === "unhealthy") {
+				options.onRecovered?.(health, now - (previous.unhealthySince ?? now));
+			}
+			return;
+		}
+
+		const consecutiveFailures = previous.consecutiveFailures + 1;
+		const unhealthy = previous.status === "unhealthy" || consecutiveFailures >= threshold;
+		health = {
+			status: unhealthy ? "unhealthy" : previous.status,
+			consecutiveFailures,
+			lastCheckedAt: now,
+			lastError: result.error,
+			...(unhealthy ? { unhealthySince: previous.unhealthySince ?? now } : {}),
+		};
+		if (unhealthy && previous.status !== "unhealthy") options.onUnhealthy?.(health);
+	}
+
+	function runCheck(): Promise<FunnelHealth> {
+		if (running) return running;
+		if (timer) clearTimeout(timer);
+		timer = null;
+		running = probeHealth(port, check).then((result) => {
+			running = null;
+			if (stopped) return health;
+			record(result, Date.now());
+			// The callbacks may have stopped the monitor (e.g. by unexposing the route)
+			if (!stopped) timer = setTimeout(() => void runCheck(), intervalMs);
+			return health;
+		});
+		return running;
+	}
+
+	void runCheck();
+
+	return {
+		get health() {
+			return { ...health };
+		},
+		check: runCheck,
+		stop() {
+			stopped = true;
+			if (timer) clearTimeout(timer);
+			timer = null;
+		},
+	};
+}
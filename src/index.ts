@@ -5,24 +5,156 @@
  * Other plugins can use the funnel extension to get public URLs.
  */
 
-import { execSync, spawn, spawnSync } from "node:child_process";
+import { getHashes, randomUUID } from "node:crypto";
+import { join } from "node:path";
 import type { PluginManifest } from "@wopr-network/plugin-types";
-import { getStats, incrementStat, resetStats } from "./stats.js";
+import {
+	DEFAULT_ACCESS_LOG_SIZE,
+	formatAccessEntry,
+	getAccessLog,
+	onAccess,
+	recordAccess,
+	resetAccessLog,
+} from "./access-log.js";
+import {
+	AGENT_OWNER,
+	type AgentRouteRequest,
+	checkAgentRoute,
+	checkAgentTtl,
+	DEFAULT_AGENT_MAX_TTL_SECONDS,
+} from "./agent.js";
+import {
+	type AuditAction,
+	type AuditEntry,
+	type AuditQuery,
+	closeAuditLog,
+	formatAuditEntry,
+	getAuditLog,
+	openAuditLog,
+	recordAudit,
+} from "./audit.js";
+import { buildSignedUrl, createAuthGate } from "./auth.js";
+import { resolveStaticDirectory } from "./directory.js";
+import {
+	classifyTailscaleError,
+	DEFAULT_PUBLIC_PORT,
+	type ExposeResult,
+	FUNNEL_PUBLIC_PORTS,
+	type FunnelError,
+	type FunnelErrorCode,
+	funnelError,
+	isFunnelPublicPort,
+	isValidMountPath,
+	isValidPort,
+	type ReplayResult,
+	type TokenResult,
+	type UnexposeResult,
+} from "./errors.js";
+import {
+	DEFAULT_HEALTH_INTERVAL_SECONDS,
+	type HealthMonitor,
+	isValidFallback,
+	isValidHealthCheck,
+	monitorHealth,
+} from "./health.js";
+import {
+	clearCaptures,
+	DEFAULT_CAPTURE_BODY_BYTES,
+	DEFAULT_CAPTURE_REQUESTS,
+	findCapture,
+	isValidCapture,
+	listCaptures,
+	recordCapture,
+	replayRequest,
+	resetInspector,
+} from "./inspector.js";
+import {
+	DEFAULT_METRICS_PATH,
+	type MetricsServer,
+	renderMetrics,
+	startMetricsServer,
+} from "./metrics.js";
+import { loadExposures, type PersistedExposure, saveExposures } from "./persistence.js";
+import {
+	type BodyVerifier,
+	chainGates,
+	matchRoute,
+	type ProxyDenial,
+	type ProxyGate,
+	type ProxyRequestInfo,
+	type ProxyRoute,
+	type ReverseProxy,
+	startReverseProxy,
+} from "./proxy.js";
+import { probeLocalPort, waitForReady } from "./readiness.js";
+import { type Drift, parseServeStatus, reconcileRoutes, routeKey } from "./reconcile.js";
+import { type CronSchedule, matchesCron, parseCron, windowEnd } from "./schedule.js";
+import {
+	createRouteSecurity,
+	hasPolicy,
+	isValidPolicy,
+	type RouteSecurity,
+	type SecurityReport,
+} from "./security.js";
+import { getStats, incrementStat, recordRequest, recordStatusCheck, resetStats } from "./stats.js";
+import {
+	type ExitInfo,
+	type RestartPolicy,
+	type SupervisedProcess,
+	superviseProcess,
+} from "./supervisor.js";
+import { createTailscaleClient, type TailscaleClient } from "./tailscale.js";
+import {
+	createTokenStore,
+	issueBearerToken,
+	issueSignedToken,
+	loadTokenStore,
+	pruneExpiredTokens,
+	revokeToken,
+	saveTokenStore,
+	type TokenStore,
+} from "./tokens.js";
 import type {
+	CapturedRequest,
 	ConfigSchema,
+	CreateTokenOptions,
+	ExposeOptions,
+	ExposeReadyOptions,
+	ExposeStaticOptions,
+	FunnelAgentRule,
+	FunnelAuth,
+	FunnelCapture,
 	FunnelConfig,
+	FunnelExpose,
+	FunnelExposure,
 	FunnelExtension,
+	FunnelFallback,
+	FunnelHealth,
+	FunnelHealthCheck,
 	FunnelInfo,
+	FunnelLease,
+	FunnelProtocol,
+	FunnelProxyConfig,
+	FunnelRateLimit,
+	FunnelScheduledExpose,
 	FunnelStatus,
+	FunnelUnhealthyAction,
+	FunnelVerify,
 	HostnameChangeCallback,
+	UnexposeOptions,
+	WebhookPreset,
 	WOPRPlugin,
 	WOPRPluginContext,
 } from "./types.js";
+import { createWebhookVerifier, WEBHOOK_PRESETS } from "./webhooks.js";
 import {
+	buildAuditResponse,
 	buildFunnelRoutesResponse,
 	buildFunnelStatusResponse,
 	buildNodeStatusResponse,
+	buildSecurityResponse,
 	buildStatsResponse,
+	formatDuration,
 } from "./webmcp-tools.js";
 
 // ============================================================================
@@ -32,59 +164,223 @@ import {
 let ctx: WOPRPluginContext | null = null;
 let hostname: string | null = null;
 let available: boolean | null = null;
+let unavailableError: FunnelError | null = null;
+
+// Status queries go to the tailscaled LocalAPI, falling back to the CLI
+let tailscale: TailscaleClient = createTailscaleClient();
+
+// Active funnel routes keyed by public port and mount path (see routeKey).
+// Every route shares the node's public hostname; Funnel listens on up to
+// three public ports, and each path prefix on a port is a separate mount.
+// Tailnet-only routes are mounted with `tailscale serve` the same way.
+// TCP routes take a whole public port and are tracked under the root path.
+type ActiveFunnel = FunnelInfo & {
+	publicPort: number;
+	exposure: FunnelExposure;
+	protocol: FunnelProtocol;
+	process?: SupervisedProcess;
+	startedAt: number;
+	/** Route options (path, public port and proxy rewrites), used to re-expose it */
+	options: RouteOptions;
+	/** Leases keeping the route up, keyed by lease id */
+	leaseStates: Map<string, LeaseState>;
+};
+const funnels = new Map<string, ActiveFunnel>();
+
+// A claim on a route by one caller. The route is stopped once its last
+// lease is released or expires.
+interface LeaseState {
+	id: string;
+	owner?: string;
+	createdAt: number;
+	ephemeral: boolean;
+	expiresAt: number | null;
+	timer?: ReturnType<typeof setTimeout>;
+	/** Fires `funnel:lease-expiring` ahead of the expiry */
+	warningTimer?: ReturnType<typeof setTimeout>;
+	/** Restored for a plugin that has not claimed it since the restart */
+	unclaimed?: boolean;
+}
 
-// Tailscale Funnel only supports ONE active funnel at a time
-// Exposing a new port will replace the previous one
-let activeFunnel: (FunnelInfo & { pid?: number }) | null = null;
+// How leases taken without an owner are named in `owned-by-other` errors
+const ANONYMOUS_OWNER = "an anonymous caller";
+
+// The core emits no event when a plugin unloads. Leases restored for a
+// plugin are released after this window unless the plugin claims them, by
+// exposing the route again or announcing `plugin:afterInit`, so the routes
+// of plugins that are gone are not restored forever.
+const RECLAIM_WINDOW_MS = 5 * 60 * 1000;
+let reclaimTimer: ReturnType<typeof setTimeout> | null = null;
+// Plugins that announced `plugin:afterInit` since this plugin started
+const loadedOwners = new Set<string>();
+let unsubscribePluginEvents: (() => void) | null = null;
+
+// `funnel:lease-expiring` is emitted this long before a lease runs out
+const DEFAULT_EXPIRY_WARNING_MS = 5 * 60 * 1000;
+let expiryWarningMs = DEFAULT_EXPIRY_WARNING_MS;
+
+const FUNNEL_PROTOCOLS: readonly FunnelProtocol[] = [
+	"http",
+	"https-insecure",
+	"tcp",
+	"tls-terminated-tcp",
+];
+
+// Directory and text routes are served by tailscaled itself; they are
+// tracked with port 0 and the directory or text in their options
+type RouteOptions = ExposeOptions & {
+	directory?: string;
+	text?: string;
+	/** Retry a failed mount in the background: set for routes WOPR exposes itself */
+	background?: boolean;
+};
 
-// Hostname polling state
+// A port plus the options it is exposed with, and the outcome of exposing it
+type ExposeEntry = RouteOptions & { port: number };
+/** `force` releases every owner's leases; only the CLI and health checks use it */
+type StopOptions = UnexposeOptions & { force?: boolean };
+type EntryResult = { port: number; path: string } & (
+	| { ok: true; url: string; publicPort: number; leaseId?: string }
+	| { ok: false; error: FunnelError }
+);
+
+// Every mount WOPR makes is saved under the plugin dir: runtime exposures
+// are restored on init, and mounts a crash left behind that should not
+// come back (ephemeral or expired) are turned off. Entries wait in
+// restoredExposures until Tailscale is available.
+let exposuresFile: string | null = null;
+let restoredExposures: PersistedExposure[] = [];
+let saving: Promise<void> = Promise.resolve();
+
+// Bearer tokens and signed URLs issued for routes with auth, saved next to
+// the exposures. Without a plugin dir they only last until shutdown.
+const DEFAULT_SIGNED_URL_TTL_MS = 60 * 60 * 1000;
+let tokensFile: string | null = null;
+let tokenStore: TokenStore = createTokenStore();
+
+// Directories exposeDirectory() may publish (default: <plugin dir>/public).
+// Roots holding the plugin dir are refused: it keeps the secrets in
+// exposures.json, tokens.json and audit.jsonl.
+let staticRoots: string[] = [];
+let pluginDir: string | null = null;
+
+// Retry policy for `tailscale funnel --bg` commands that fail to mount a route
+let restartPolicy: RestartPolicy = {};
+
+// How long expose() waits for `tailscale funnel --bg` to apply a mount.
+// A failed mount is returned to the caller; only callers that asked for
+// `retry` (and routes WOPR brings back itself) are retried in the background,
+// and never for permanent failures (funnel not permitted, listener exists).
+const DEFAULT_STARTUP_GRACE_MS = 10000;
+let startupGraceMs = DEFAULT_STARTUP_GRACE_MS;
+const PERMANENT_FAILURES = new Set<FunnelErrorCode>([
+	"funnel-not-permitted",
+	"listener-exists",
+	"tailscale-not-installed",
+]);
+
+// Reconciler state: a freshly spawned funnel needs a moment to show up in
+// the serve config, and foreign routes are only reported once
+const RECONCILE_GRACE_MS = 15000;
+let adoptForeignFunnels = false;
+const reportedForeign = new Set<string>();
+
+// Local reverse proxies keyed by public port, started on demand by routes
+// that need them. A proxy only sees the path, so each public port gets its own.
+let proxyConfig: FunnelProxyConfig = {};
+const proxies = new Map<number, ReverseProxy>();
+const proxiesStarting = new Map<number, Promise<ReverseProxy>>();
+
+// IP rules and rate-limit buckets per route key. They outlive proxyRoute()
+// calls, so callers joining a route do not reset its limits or counters.
+const routeSecurity = new Map<string, RouteSecurity>();
+
+// Health monitors per route key, for routes with a health check
+const healthMonitors = new Map<string, HealthMonitor>();
+// Routes pulled after failing their health check are unexposed as this actor
+const HEALTH_ACTOR = "health";
+
+// What the A2A management tools may publish (config.agent)
+let agentRules: FunnelAgentRule[] = [];
+let agentMaxTtlSeconds = DEFAULT_AGENT_MAX_TTL_SECONDS;
+
+// Optional OpenMetrics endpoint (config.metrics)
+let metricsServer: MetricsServer | null = null;
+
+// Backend-state watcher: polls tailscaled for BackendState transitions and
+// hostname changes. The extension is only registered while Tailscale is usable.
 let pollTimer: ReturnType<typeof setInterval> | null = null;
+let backendState: string | null = null;
+let extensionRegistered = false;
+let configuredExposures: ExposeEntry[] = [];
+
+// Configured exposures that follow a cron schedule (config.schedules),
+// checked at the start of every minute and held by the owner "schedule"
+const SCHEDULE_OWNER = "schedule";
+const MINUTE_MS = 60000;
+let scheduledExposures: { entry: ExposeEntry; cron: CronSchedule }[] = [];
+let scheduleTimer: ReturnType<typeof setTimeout> | null = null;
 const hostnameChangeCallbacks: HostnameChangeCallback[] = [];
 
 // ============================================================================
-// Tailscale CLI Helpers
+// Tailscale Helpers
 // ============================================================================
 
-function exec(cmd: string): string | null {
+/** Read from tailscaled, counting the read and how long it took */
+async function timedStatusCheck(read: () => Promise<string | null>): Promise<string | null> {
+	const started = performance.now();
 	try {
-		return execSync(cmd, { encoding: "utf-8", timeout: 10000 }).trim();
-	} catch {
-		return null;
+		return await read();
+	} finally {
+		recordStatusCheck(performance.now() - started);
 	}
 }
 
-function getTailscaleStatusJson(): string | null {
-	incrementStat("statusChecks");
-	return exec("tailscale status --json");
+async function getTailscaleStatusJson(): Promise<string | null> {
+	return timedStatusCheck(() => tailscale.getStatusJson());
+}
+
+async function getServeStatusJson(): Promise<string | null> {
+	return timedStatusCheck(() => tailscale.getServeStatusJson());
+}
+
+function markUnavailable(error: FunnelError): false {
+	// The watcher re-checks on every poll; only log when the reason changes
+	if (unavailableError?.message !== error.message) ctx?.log.warn(error.message);
+	unavailableError = error;
+	available = false;
+	return false;
 }
 
 async function checkTailscaleAvailable(): Promise<boolean> {
 	if (available !== null) return available;
 
-	// Check if tailscale CLI exists (cross-platform: 'where' on Windows, 'which' elsewhere)
-	const isWindows = process.platform === "win32";
-	const whichCmd = isWindows ? "where tailscale" : "which tailscale";
-	const which = exec(whichCmd);
-	if (!which) {
-		ctx?.log.warn("Tailscale CLI not found. Install from https://tailscale.com/download");
-		available = false;
-		return false;
+	// The CLI is still needed to run funnels, even when status comes from the LocalAPI
+	if (!(await tailscale.hasCli())) {
+		return markUnavailable(
+			funnelError(
+				"tailscale-not-installed",
+				"Tailscale CLI not found. Install from https://tailscale.com/download",
+			),
+		);
 	}
 
 	// Check if tailscale is running and connected
-	const status = exec("tailscale status --json");
+	const status = await tailscale.getStatusJson();
 	if (!status) {
-		ctx?.log.warn("Tailscale not running or not connected");
-		available = false;
-		return false;
+		backendState = null;
+		return markUnavailable(
+			funnelError("backend-not-running", "Tailscale not running or not connected"),
+		);
 	}
 
 	try {
 		const parsed = JSON.parse(status);
+		backendState = parsed.BackendState ?? null;
 		if (parsed.BackendState !== "Running") {
-			ctx?.log.warn(`Tailscale backend state: ${parsed.BackendState}`);
-			available = false;
-			return false;
+			return markUnavailable(
+				funnelError("backend-not-running", `Tailscale backend state: ${parsed.BackendState}`),
+			);
 		}
 
 		// Extract hostname
@@ -93,11 +389,13 @@ async function checkTailscaleAvailable(): Promise<boolean> {
 			ctx?.log.info(`Tailscale connected: ${hostname}`);
 		}
 
+		unavailableError = null;
 		available = true;
 		return true;
 	} catch {
-		available = false;
-		return false;
+		return markUnavailable(
+			funnelError("backend-not-running", "Could not parse Tailscale status output"),
+		);
 	}
 }
 
@@ -108,21 +406,352 @@ async function getTailscaleHostname(): Promise<string | null> {
 }
 
 /**
- * Poll tailscale status for hostname changes. When a change is detected:
+ * Apply a hostname change:
  * 1. Update the cached hostname
- * 2. Update the active funnel's publicUrl if one is active
+ * 2. Update the publicUrl of every mounted route
  * 3. Emit `funnel:hostname-changed` via the event bus
  * 4. Notify registered callbacks
  */
-async function pollHostname(): Promise<void> {
-	const status = exec("tailscale status --json");
-	if (!status) return;
+async function applyHostnameChange(oldHostname: string, newHostname: string): Promise<void> {
+	hostname = newHostname;
+	incrementStat("hostnameChanges");
+	ctx?.log.info(`Tailscale hostname changed: ${oldHostname} -> ${newHostname}`);
+
+	// Update every mounted route's publicUrl
+	for (const funnel of funnels.values()) {
+		funnel.publicUrl = funnel.publicUrl.replace(oldHostname, newHostname);
+		if (funnel.active) ctx?.log.info(`Updated funnel URL: ${funnel.publicUrl}`);
+	}
 
-	try {
-		const parsed = JSON.parse(status);
-		if (parsed.BackendState !== "Running") return;
+	// Emit event via event bus
+	const primary = getPrimaryFunnel();
+	const payload = {
+		oldHostname,
+		newHostname,
+		activePort: primary?.port ?? null,
+		publicUrl: primary?.publicUrl ?? null,
+		routes: [...funnels.values()]
+			.filter((f) => f.active)
+			.map((f) => ({ port: f.port, path: f.path, publicUrl: f.publicUrl })),
+	};
+	await ctx?.events?.emitCustom("funnel:hostname-changed", payload);
+
+	// Notify registered callbacks
+	for (const cb of hostnameChangeCallbacks) {
+		try {
+			cb(oldHostname, newHostname);
+		} catch (err) {
+			ctx?.log.error(`Hostname change callback error: ${err}`);
+		}
+	}
+}
+
+/**
+ * Save the leases on every route WOPR mounted, so runtime exposures survive
+ * a WOPR restart and the rest can be cleaned up after a crash
+ */
+function persistExposures(): void {
+	const file = exposuresFile;
+	if (!file) return;
+
+	const exposures: PersistedExposure[] = [];
+	for (const route of funnels.values()) {
+		if (route.foreign) continue;
+		for (const lease of route.leaseStates.values()) {
+			exposures.push({
+				...route.options,
+				port: route.port,
+				owner: lease.owner,
+				createdAt: lease.createdAt,
+				...(lease.expiresAt !== null ? { expiresAt: lease.expiresAt } : {}),
+				...(lease.ephemeral ? { ephemeral: true } : {}),
+			});
+		}
+	}
+	// Not restored yet (Tailscale still down): keep them
+	for (const pending of restoredExposures) {
+		if (!findRoute(pending)) exposures.push(pending);
+	}
+
+	saving = saving
+		.then(() => saveExposures(file, exposures))
+		.catch((err) => {
+			ctx?.log.warn(`Failed to persist funnel exposures: ${err}`);
+		});
+}
+
+/** Save issued tokens (and the signing secret), dropping expired ones */
+function persistTokens(): void {
+	const file = tokensFile;
+	if (!file) return;
+	pruneExpiredTokens(tokenStore);
+	const store = tokenStore;
+	saving = saving
+		.then(() => saveTokenStore(file, store))
+		.catch((err) => {
+			ctx?.log.warn(`Failed to persist funnel tokens: ${err}`);
+		});
+}
+
+/**
+ * Re-acquire the leases persisted by a previous run, keeping their creation
+ * time and remaining TTL. Mounts of expired and ephemeral leases are turned
+ * off instead. Leases on a path now mounted for another port (e.g. by
+ * config) are skipped; leases that fail to restore are dropped. Plugin leases stay unclaimed until their plugin
+ * shows it is still loaded (see RECLAIM_WINDOW_MS).
+ */
+async function restoreExposures(): Promise<void> {
+	const pending = restoredExposures;
+	restoredExposures = [];
+	if (pending.length === 0) return;
+
+	for (const { createdAt, expiresAt, ...entry } of pending) {
+		if (entry.ephemeral || (expiresAt !== undefined && expiresAt <= Date.now())) {
+			await removeStaleMount(entry);
+			continue;
+		}
+		const mounted = findRoute(entry);
+		if (mounted && mounted.port !== entry.port) {
+			ctx?.log.warn(`Not restoring port ${entry.port} on ${mounted.publicUrl}: path is in use`);
+			continue;
+		}
+
+		const claimed =
+			!isPluginOwner(entry.owner) ||
+			loadedOwners.has(entry.owner) ||
+			[...(mounted?.leaseStates.values() ?? [])].some((held) => held.owner === entry.owner);
+		const ttlMs = expiresAt === undefined ? undefined : expiresAt - Date.now();
+		const [result] = await exposeEntries([{ ...entry, ttlMs }], "Restored", "restore");
+		const lease =
+			result.ok && result.leaseId
+				? funnels.get(routeKey(result.publicPort, result.path))?.leaseStates.get(result.leaseId)
+				: undefined;
+		if (lease) {
+			lease.createdAt = createdAt;
+			if (!claimed) lease.unclaimed = true;
+		}
+	}
+	persistExposures();
+	scheduleReclaim();
+}
+
+/**
+ * Turn off a mount a previous run left in the serve config (`--bg` mounts
+ * outlive a crash), unless this run has mounted the path again
+ */
+async function removeStaleMount(entry: ExposeEntry): Promise<void> {
+	const path = normalizePath(entry.path);
+	const publicPort = typeof entry.publicPort === "number" ? entry.publicPort : DEFAULT_PUBLIC_PORT;
+	const tracked = funnels.get(routeKey(publicPort, path));
+	if (tracked && !tracked.foreign) return;
+	if (tracked) {
+		await stopRoute(tracked);
+		return;
+	}
+
+	const route = {
+		path,
+		publicPort,
+		exposure: entry.exposure ?? "public",
+		protocol: entry.protocol ?? "http",
+	};
+	const result = await tailscale.run(funnelArgs(route, "off"));
+	if (result.ok) {
+		ctx?.log.info(`Removed funnel on ${path} (port ${entry.port}) left by the previous run`);
+	} else {
+		ctx?.log.debug?.(`No funnel left on ${path} by the previous run: ${result.stderr || ""}`);
+	}
+}
+
+/** Leases held for another plugin, rather than the operator or an anonymous caller */
+function isPluginOwner(owner: string | undefined): owner is string {
+	return owner !== undefined && owner !== "cli";
+}
+
+/** Release the restored leases still unclaimed once the reclaim window ends */
+function scheduleReclaim(): void {
+	if (reclaimTimer) return;
+	const unclaimed = [...funnels.values()].some((route) =>
+		[...route.leaseStates.values()].some((lease) => lease.unclaimed),
+	);
+	if (!unclaimed) return;
+	reclaimTimer = setTimeout(() => {
+		reclaimTimer = null;
+		releaseUnclaimedLeases().catch((err) => {
+			ctx?.log.error(`Failed to release unclaimed funnel leases: ${err}`);
+		});
+	}, RECLAIM_WINDOW_MS);
+}
+
+async function releaseUnclaimedLeases(): Promise<void> {
+	for (const route of [...funnels.values()]) {
+		for (const lease of [...route.leaseStates.values()]) {
+			if (!lease.unclaimed) continue;
+			ctx?.log.info(
+				`Releasing lease on ${route.path} (port ${route.port}): ${lease.owner} did not claim it after the restart`,
+			);
+			await auditedRelease(routeKey(route.publicPort, route.path), lease.id, "expire");
+		}
+	}
+}
+
+/** A plugin finished loading: the leases restored for it are its own again */
+function onPluginLoaded(payload: unknown): void {
+	const owner = (payload as { plugin?: unknown } | undefined)?.plugin;
+	if (typeof owner !== "string") return;
+	loadedOwners.add(owner);
+	for (const route of funnels.values()) {
+		for (const lease of route.leaseStates.values()) {
+			if (lease.owner === owner) lease.unclaimed = undefined;
+		}
+	}
+}
+
+function registerFunnelExtension(): void {
+	if (extensionRegistered || !ctx) return;
+	ctx.registerExtension("funnel", funnelExtension);
+	extensionRegistered = true;
+}
+
+function unregisterFunnelExtension(): void {
+	if (!extensionRegistered) return;
+	ctx?.unregisterExtension("funnel");
+	extensionRegistered = false;
+}
+
+/** Expose each entry in turn, logging failures instead of throwing */
+async function exposeEntries(
+	entries: ExposeEntry[],
+	label: string,
+	action: AuditAction = "expose",
+): Promise<EntryResult[]> {
+	const results: EntryResult[] = [];
+	for (const { port, ...options } of entries) {
+		const path = normalizePath(options.path);
+		const started = await startFunnel(port, { ...options, background: true });
+		const result = auditExposure(port, options, started, action);
+		if (result.ok) {
+			ctx?.log.info(`${label}: ${result.url}`);
+			results.push({
+				port,
+				path,
+				ok: true,
+				url: result.url,
+				publicPort: result.lease.publicPort,
+				leaseId: result.lease.id,
+			});
+		} else {
+			ctx?.log.warn(`${label} of port ${port} failed: ${result.error.message}`);
+			results.push({ port, path, ok: false, error: result.error });
+		}
+	}
+	return results;
+}
+
+/**
+ * tailscaled stopped running (or became unreachable): stop supervising the
+ * funnel processes, mark every route inactive, unregister the extension and
+ * emit `funnel:unavailable`. Routes stay tracked so they can be re-exposed.
+ */
+async function handleBackendDown(previousState: string | null): Promise<void> {
+	for (const [key, funnel] of funnels) {
+		if (funnel.foreign) {
+			funnels.delete(key);
+			continue;
+		}
+		funnel.process?.stop();
+		funnel.process = undefined;
+		funnel.active = false;
+	}
+	reportedForeign.clear();
+	unregisterFunnelExtension();
+	ctx?.log.warn(
+		`Tailscale became unavailable (${previousState} -> ${backendState ?? "unreachable"}); funnel extension unregistered`,
+	);
+	await ctx?.events?.emitCustom("funnel:unavailable", {
+		previousState,
+		backendState,
+		error: unavailableError,
+	});
+}
+
+/**
+ * tailscaled is running again (or for the first time since init): register
+ * the extension, re-expose the routes that were mounted before it went down
+ * plus any configured ports not yet exposed, and emit `funnel:available`.
+ */
+async function handleBackendUp(previousState: string | null): Promise<void> {
+	registerFunnelExtension();
+	ctx?.log.info(`Tailscale is available (${previousState ?? "unreachable"} -> ${backendState})`);
+
+	// Tracked routes are relaunched in place so their leases survive
+	const routes: EntryResult[] = [];
+	for (const route of [...funnels.values()]) {
+		const error = await relaunchFunnel(route, true);
+		if (error) {
+			ctx?.log.warn(`Re-expose of port ${route.port} failed: ${error.message}`);
+			routes.push({ port: route.port, path: route.path, ok: false, error });
+		} else {
+			ctx?.log.info(`Re-exposed: ${route.publicUrl}`);
+			routes.push({
+				port: route.port,
+				path: route.path,
+				ok: true,
+				url: route.publicUrl,
+				publicPort: route.publicPort,
+			});
+		}
+	}
+
+	const configured = configuredExposures.filter((entry) => !isEntryTracked(entry));
+	routes.push(...(await exposeEntries(configured, "Re-exposed")));
+	await restoreExposures();
+	await applySchedules();
+
+	await ctx?.events?.emitCustom("funnel:available", {
+		previousState,
+		backendState,
+		hostname,
+		routes,
+	});
+}
+
+/**
+ * Poll tailscaled and react to what changed since the last poll:
+ * - Running -> anything else: see handleBackendDown
+ * - anything else -> Running: see handleBackendUp
+ * - new hostname while Running: see applyHostnameChange
+ */
+async function watchBackendState(): Promise<void> {
+	const status = await tailscale.getStatusJson();
 
-		const newHostname = parsed.Self?.DNSName?.replace(/\.$/, "") || null;
+	let state: string | null = null;
+	let newHostname: string | null = null;
+	if (status) {
+		try {
+			const parsed = JSON.parse(status);
+			state = parsed.BackendState ?? null;
+			newHostname = parsed.Self?.DNSName?.replace(/\.$/, "") || null;
+		} catch {
+			// Ignore parse errors during polling
+			return;
+		}
+	}
+
+	const previousState = backendState;
+
+	if (available) {
+		if (state !== "Running") {
+			backendState = state;
+			markUnavailable(
+				funnelError(
+					"backend-not-running",
+					state ? `Tailscale backend state: ${state}` : "Tailscale not running or not connected",
+				),
+			);
+			await handleBackendDown(previousState);
+			return;
+		}
 		if (!newHostname || newHostname === hostname) return;
 
 		// First poll after startup: hostname is null, just initialize it
@@ -130,133 +759,1485 @@ async function pollHostname(): Promise<void> {
 			hostname = newHostname;
 			return;
 		}
+		await applyHostnameChange(hostname, newHostname);
+		return;
+	}
+
+	backendState = state;
+	if (state !== "Running") return;
+
+	// Run the full check again (CLI present, hostname) before recovering
+	const oldHostname = hostname;
+	available = null;
+	if (!(await checkTailscaleAvailable())) return;
+	if (oldHostname && hostname && oldHostname !== hostname) {
+		const newName = hostname;
+		hostname = oldHostname;
+		await applyHostnameChange(oldHostname, newName);
+	}
+	await handleBackendUp(previousState);
+}
+
+/**
+ * Normalize a mount path: leading slash, no trailing slash (except root).
+ */
+function normalizePath(path: string = "/"): string {
+	const trimmed = path.trim();
+	if (!trimmed || trimmed === "/") return "/";
+	const withSlash = trimmed.startsWith("/") ? trimmed : `/${trimmed}`;
+	return withSlash.replace(/\/+$/, "") || "/";
+}
+
+/**
+ * The port route mounted at the root path, or the first mounted port route.
+ * Used where callers only care about a single funnel (getPort, events).
+ */
+function getPrimaryFunnel(): ActiveFunnel | null {
+	const root = funnels.get(routeKey(DEFAULT_PUBLIC_PORT, "/"));
+	if (root?.active && !isStaticRoute(root)) return root;
+	for (const funnel of funnels.values()) {
+		if (funnel.active && !isStaticRoute(funnel)) return funnel;
+	}
+	return null;
+}
+
+/** Whether a route serves a directory or text body rather than a local port */
+function isStaticRoute(route: { directory?: string; text?: string }): boolean {
+	return route.directory !== undefined || route.text !== undefined;
+}
+
+/** What a route forwards to, for logs and status output */
+function describeTarget(route: FunnelInfo): string {
+	if (route.directory !== undefined) return route.directory;
+	if (route.text !== undefined) return "text";
+	return `localhost:${route.port}`;
+}
+
+/** The tracked route an entry lands on, when its public port is known */
+function findRoute(entry: ExposeOptions): ActiveFunnel | undefined {
+	if (entry.publicPort === "auto") return undefined;
+	return funnels.get(routeKey(entry.publicPort ?? DEFAULT_PUBLIC_PORT, normalizePath(entry.path)));
+}
+
+/** Whether an entry's port is already mounted where the entry asks for it */
+function isEntryTracked(entry: ExposeEntry): boolean {
+	if (entry.publicPort !== "auto") return findRoute(entry) !== undefined;
+	const path = normalizePath(entry.path);
+	return [...funnels.values()].some((f) => f.path === path && f.port === entry.port);
+}
+
+function isTcpProtocol(protocol: FunnelProtocol): boolean {
+	return protocol === "tcp" || protocol === "tls-terminated-tcp";
+}
+
+/**
+ * Why a new route cannot share `publicPort` with the routes already on it
+ * (other than the one on `mountPath`, which it would replace), or null.
+ * Funnel is enabled for a whole public port, so public and tailnet-only
+ * routes cannot share one, and a TCP route cannot share its port at all.
+ */
+function publicPortConflict(
+	publicPort: number,
+	mountPath: string,
+	exposure: FunnelExposure,
+	protocol: FunnelProtocol,
+): FunnelError | null {
+	const others = [...funnels.values()].filter(
+		(f) => f.publicPort === publicPort && f.path !== mountPath,
+	);
+	if (others.length === 0) return null;
+
+	if (isTcpProtocol(protocol) || others.some((f) => isTcpProtocol(f.protocol))) {
+		return funnelError("public-port-in-use", `Public port ${publicPort} is in use by other routes`);
+	}
+	if (others.some((f) => f.exposure !== exposure)) {
+		const other = exposure === "public" ? "tailnet-only" : "public";
+		return funnelError(
+			"exposure-conflict",
+			`Public port ${publicPort} already serves ${other} routes`,
+		);
+	}
+	return null;
+}
+
+/**
+ * The public port a new exposure goes on (default 443). "auto" prefers a
+ * public port where the same local port is already mounted on the path with
+ * the same exposure and protocol, so the call only adds a lease, then the
+ * first one where the path is free and no other route conflicts.
+ */
+function resolvePublicPort(
+	port: number,
+	mountPath: string,
+	requested: number | "auto" | undefined,
+	exposure: FunnelExposure,
+	protocol: FunnelProtocol,
+): number | FunnelError {
+	if (requested !== "auto") {
+		const publicPort = requested ?? DEFAULT_PUBLIC_PORT;
+		// `tailscale serve` can listen anywhere; Funnel only on its three ports
+		const valid = exposure === "tailnet" ? isValidPort(publicPort) : isFunnelPublicPort(publicPort);
+		if (!valid) {
+			return funnelError("invalid-public-port", `Invalid public port: ${publicPort}`);
+		}
+		return publicPortConflict(publicPort, mountPath, exposure, protocol) ?? publicPort;
+	}
+
+	const joined = FUNNEL_PUBLIC_PORTS.find((p) => {
+		const route = funnels.get(routeKey(p, mountPath));
+		return route?.port === port && route.exposure === exposure && route.protocol === protocol;
+	});
+	const free = FUNNEL_PUBLIC_PORTS.find(
+		(p) =>
+			!funnels.has(routeKey(p, mountPath)) &&
+			publicPortConflict(p, mountPath, exposure, protocol) === null,
+	);
+	return (
+		joined ??
+		free ??
+		funnelError("no-free-public-port", `${mountPath} is already mounted on every public port`)
+	);
+}
+
+/**
+ * `tailscale funnel` (public) or `tailscale serve` (tailnet-only) arguments
+ * for a mount. HTTP routes are mounted on a path (443 is the CLI default);
+ * TCP routes get a `--tcp` or `--tls-terminated-tcp` listener of their own.
+ * Mounts are made with `--bg`: tailscaled refuses a second foreground
+ * session on a public port, so paths sharing one must be background config.
+ */
+function funnelArgs(
+	route: Pick<ActiveFunnel, "exposure" | "publicPort" | "path" | "protocol">,
+	target: string,
+): string[] {
+	const command = route.exposure === "tailnet" ? "serve" : "funnel";
+	const bg = target === "off" ? [] : ["--bg"];
+	if (isTcpProtocol(route.protocol)) {
+		return [command, ...bg, `--${route.protocol}=${route.publicPort}`, target];
+	}
+	const https = route.publicPort === DEFAULT_PUBLIC_PORT ? [] : [`--https=${route.publicPort}`];
+	return [command, ...bg, ...https, "--set-path", route.path, target];
+}
+
+function toExposeOptions<T extends ExposeOptions>(pathOrOptions?: string | T): T {
+	return (typeof pathOrOptions === "string" ? { path: pathOrOptions } : (pathOrOptions ?? {})) as T;
+}
+
+/** Whether a route asks for auth, verification or rewrites only the local reverse proxy can apply */
+function usesProxyFeatures(options: ExposeOptions): boolean {
+	return Boolean(
+		options.auth ||
+			options.verify ||
+			hasPolicy(options) ||
+			options.capture ||
+			options.stripPrefix ||
+			options.headers ||
+			options.hostHeader ||
+			options.fallback ||
+			options.healthCheck?.onUnhealthy === "maintenance",
+	);
+}
+
+function isValidAuth(auth: FunnelAuth): boolean {
+	if (auth.type === "basic") {
+		return (
+			typeof auth.users === "object" && auth.users !== null && Object.keys(auth.users).length > 0
+		);
+	}
+	return auth.type === "bearer" || auth.type === "signed";
+}
+
+function isValidVerify(verify: FunnelVerify): boolean {
+	return (
+		WEBHOOK_PRESETS.includes(verify.preset) &&
+		typeof verify.secret === "string" &&
+		verify.secret.length > 0 &&
+		(verify.toleranceSeconds === undefined || verify.toleranceSeconds > 0) &&
+		// createHmac throws on digests OpenSSL does not know
+		(verify.algorithm === undefined || getHashes().includes(verify.algorithm))
+	);
+}
+
+/**
+ * Settings that restrict who reaches a route; callers must match them to join
+ * it. Object keys are sorted, so the order a caller wrote them in does not matter.
+ */
+function routeGuards(options: ExposeOptions): string {
+	const { auth, verify, ipAllow, ipDeny, rateLimit } = options;
+	return JSON.stringify({ auth, verify, ipAllow, ipDeny, rateLimit }, (_key, value) =>
+		value && typeof value === "object" && !Array.isArray(value)
+			? Object.fromEntries(Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+			: value,
+	);
+}
+
+function securityFor(options: RouteOptions, key: string): RouteSecurity | undefined {
+	if (!hasPolicy(options)) return undefined;
+	let security = routeSecurity.get(key);
+	if (!security) {
+		security = createRouteSecurity(options, (reason, ip) => {
+			incrementStat(reason === "denied" ? "requestsDenied" : "requestsRateLimited");
+			ctx?.log.debug?.(`Blocked ${ip} on ${key} (${reason})`);
+		});
+		routeSecurity.set(key, security);
+	}
+	return security;
+}
+
+/** Blocked-traffic reports for routes with IP rules or a rate limit */
+function getSecurityReports(): ({ path: string; publicPort: number } & SecurityReport)[] {
+	return [...funnels].flatMap(([key, f]) => {
+		const security = routeSecurity.get(key);
+		return security ? [{ path: f.path, publicPort: f.publicPort, ...security.report() }] : [];
+	});
+}
+
+function captureSettings(capture: RouteOptions["capture"], key: string): ProxyRoute["capture"] {
+	if (!capture) return undefined;
+	const limits = capture === true ? {} : capture;
+	return {
+		maxBodyBytes: limits.maxBodyBytes ?? DEFAULT_CAPTURE_BODY_BYTES,
+		onCapture: (request) => {
+			recordCapture(key, request, limits.maxRequests ?? DEFAULT_CAPTURE_REQUESTS);
+		},
+	};
+}
+
+function webhookVerifier(verify: FunnelVerify, key: string): BodyVerifier {
+	return createWebhookVerifier(verify, (result) => {
+		if (result.ok) {
+			incrementStat("webhooksVerified");
+			return;
+		}
+		incrementStat("webhooksRejected");
+		ctx?.log.debug?.(`Rejected ${verify.preset} webhook on ${key}: ${result.reason}`);
+	});
+}
+
+/** A route's health check; routes with a fallback get a TCP connect check by default */
+function healthCheckFor(options: ExposeOptions): FunnelHealthCheck | undefined {
+	return options.healthCheck ?? (options.fallback ? {} : undefined);
+}
+
+/** What happens once a route turns unhealthy; routes with a fallback switch to it */
+function unhealthyAction(options: ExposeOptions): FunnelUnhealthyAction {
+	return options.healthCheck?.onUnhealthy ?? (options.fallback ? "fallback" : "none");
+}
+
+/** The 503 a route answers with while unhealthy, if it serves a maintenance page */
+function maintenanceResponse(options: RouteOptions): ProxyDenial | null {
+	const action = unhealthyAction(options);
+	const page = options.fallback?.type === "maintenance" ? options.fallback : undefined;
+	if (action !== "maintenance" && !(action === "fallback" && page)) return null;
+	const interval = healthCheckFor(options)?.intervalSeconds ?? DEFAULT_HEALTH_INTERVAL_SECONDS;
+	return {
+		status: 503,
+		headers: {
+			"retry-after": String(page?.retryAfterSeconds ?? Math.ceil(interval)),
+			...(page?.contentType ? { "content-type": page.contentType } : {}),
+		},
+		body: page?.body ?? "Service temporarily unavailable",
+	};
+}
+
+/** Answers with the maintenance page while the route is unhealthy, for routes that have one */
+function maintenanceGate(options: RouteOptions, key: string): ProxyGate | undefined {
+	const response = maintenanceResponse(options);
+	if (!response) return undefined;
+	return () => (healthMonitors.get(key)?.health.status === "unhealthy" ? response : null);
+}
+
+/** Whether an unhealthy route's traffic is going to its fallback */
+function isFallbackActive(route: ActiveFunnel): boolean {
+	return (
+		unhealthyAction(route.options) === "fallback" &&
+		healthMonitors.get(routeKey(route.publicPort, route.path))?.health.status === "unhealthy"
+	);
+}
+
+/** Local port the proxy forwards a route to: its fallback port while that is active */
+function servingPort(route: ActiveFunnel): number {
+	const fallback = route.options.fallback;
+	return fallback?.type === "port" && isFallbackActive(route) ? fallback.port : route.port;
+}
+
+/** How the local proxy serves a route: its rewrites plus IP, auth and webhook checks, if any */
+function proxyRoute(
+	options: RouteOptions,
+	path: string,
+	port: number,
+	publicPort: number,
+): ProxyRoute {
+	const { auth, verify } = options;
+	const key = routeKey(publicPort, path);
+	return {
+		...options,
+		path,
+		port,
+		// IP rules and rate limits run first, so blocked clients never reach auth;
+		// only clients that get through see the maintenance page
+		gate: chainGates(
+			securityFor(options, key)?.gate,
+			auth ? createAuthGate(auth, key, () => tokenStore) : undefined,
+			maintenanceGate(options, key),
+		),
+		verifyBody: verify ? webhookVerifier(verify, key) : undefined,
+		capture: captureSettings(options.capture, key),
+	};
+}
+
+/** Whether a route must be served through the local (plain HTTP) reverse proxy */
+function needsProxy(options: RouteOptions): boolean {
+	if ((options.protocol ?? "http") !== "http" || isStaticRoute(options)) return false;
+	return Boolean(proxyConfig.enabled || usesProxyFeatures(options));
+}
+
+async function ensureProxy(publicPort: number): Promise<ReverseProxy> {
+	const running = proxies.get(publicPort);
+	if (running) return running;
+
+	let starting = proxiesStarting.get(publicPort);
+	if (!starting) {
+		// The configured proxy port is used for the default public port only
+		const port = publicPort === DEFAULT_PUBLIC_PORT ? proxyConfig.port : undefined;
+		starting = startReverseProxy({
+			port,
+			onRequest: (info) => recordProxyRequest(publicPort, info),
+			onError: (err, route) => {
+				ctx?.log.error(`Local reverse proxy failed a request on ${route}: ${err}`);
+			},
+		})
+			.then((started) => {
+				proxies.set(publicPort, started);
+				ctx?.log.info(
+					`Local reverse proxy for public port ${publicPort} listening on 127.0.0.1:${started.port}`,
+				);
+				return started;
+			})
+			.finally(() => {
+				proxiesStarting.delete(publicPort);
+			});
+		proxiesStarting.set(publicPort, starting);
+	}
+	return starting;
+}
 
-		const oldHostname = hostname;
-		hostname = newHostname;
-		incrementStat("hostnameChanges");
-		ctx?.log.info(`Tailscale hostname changed: ${oldHostname} -> ${newHostname}`);
+/** Count a proxied request against its route and add it to the access log */
+function recordProxyRequest(publicPort: number, info: ProxyRequestInfo): void {
+	if (info.route !== null) recordRequest(routeKey(publicPort, info.route), info);
+	recordAccess({ time: Date.now(), publicPort, ...info });
+}
+
+async function stopProxies(): Promise<void> {
+	const closing = [...proxies.values()];
+	proxies.clear();
+	await Promise.all(closing.map((p) => p.close()));
+}
 
-		// Update active funnel publicUrl
-		if (activeFunnel?.active) {
-			const oldUrl = activeFunnel.publicUrl;
-			activeFunnel.publicUrl = oldUrl.replace(oldHostname, newHostname);
-			ctx?.log.info(`Updated funnel URL: ${activeFunnel.publicUrl}`);
+function buildPublicUrl(
+	publicPort: number,
+	mountPath: string,
+	protocol: FunnelProtocol = "http",
+): string {
+	if (protocol === "tcp") return `tcp://${hostname}:${publicPort}`;
+	if (protocol === "tls-terminated-tcp") return `tls://${hostname}:${publicPort}`;
+	// HTTP routes are served over HTTPS; the port is only spelled out when it is not 443
+	const port = publicPort === DEFAULT_PUBLIC_PORT ? "" : `:${publicPort}`;
+	return `https://${hostname}${port}${mountPath === "/" ? "" : mountPath}`;
+}
+
+/** Fire-and-forget event emission for callbacks that cannot await */
+function emitInBackground(event: string, payload: unknown): void {
+	Promise.resolve(ctx?.events?.emitCustom(event, payload)).catch((err) => {
+		ctx?.log.debug?.(`Failed to emit ${event}: ${err}`);
+	});
+}
+
+async function emitDrift(drift: Drift): Promise<void> {
+	await ctx?.events?.emitCustom("funnel:drift", drift);
+}
+
+/**
+ * Compare tracked routes with the live serve config from the Tailscale CLI:
+ * 1. Mount routes that have gone missing again (and mark them active if they return)
+ * 2. Report (or adopt, if configured) funnel routes WOPR did not create
+ * 3. Emit `funnel:drift` for every change
+ */
+async function reconcileFunnels(): Promise<void> {
+	if (!available) return;
+
+	const actual = parseServeStatus(await getServeStatusJson());
+	if (!actual) return;
+
+	const { missing, restored, foreign } = reconcileRoutes(
+		[...funnels.values()],
+		actual,
+		(route) => Date.now() - route.startedAt < RECONCILE_GRACE_MS,
+	);
+
+	for (const route of missing) {
+		route.active = false;
+		ctx?.log.warn(`Funnel on ${route.path} (port ${route.port}) is no longer in the serve config`);
+		await emitDrift({
+			kind: "missing",
+			path: route.path,
+			publicPort: route.publicPort,
+			port: route.port,
+			publicUrl: route.publicUrl,
+		});
+		if (!route.foreign) await remountFunnel(route);
+	}
+
+	for (const route of restored) {
+		route.active = true;
+		ctx?.log.info(`Funnel on ${route.path} (port ${route.port}) is back in the serve config`);
+		await emitDrift({
+			kind: "restored",
+			path: route.path,
+			publicPort: route.publicPort,
+			port: route.port,
+			publicUrl: route.publicUrl,
+		});
+	}
+
+	const foreignKeys = new Set(foreign.map((route) => routeKey(route.publicPort, route.path)));
+	for (const key of reportedForeign) {
+		if (!foreignKeys.has(key)) reportedForeign.delete(key);
+	}
+
+	for (const route of foreign) {
+		const key = routeKey(route.publicPort, route.path);
+		const where = `${route.path} on :${route.publicPort}`;
+		// Only routes that proxy to a local port can be adopted
+		if (adoptForeignFunnels && route.port !== null) {
+			funnels.set(key, {
+				port: route.port,
+				path: route.path,
+				publicPort: route.publicPort,
+				exposure: "public",
+				protocol: route.protocol,
+				publicUrl: buildPublicUrl(route.publicPort, route.path, route.protocol),
+				active: true,
+				foreign: true,
+				startedAt: Date.now(),
+				options: { path: route.path, publicPort: route.publicPort, protocol: route.protocol },
+				leaseStates: new Map(),
+			});
+			ctx?.log.info(`Adopted foreign funnel on ${where} -> ${route.target}`);
+		} else if (reportedForeign.has(key)) {
+			continue;
+		} else {
+			reportedForeign.add(key);
+			ctx?.log.warn(`Foreign funnel on ${where} -> ${route.target} (not managed by WOPR)`);
 		}
+		await emitDrift({
+			kind: "foreign",
+			path: route.path,
+			publicPort: route.publicPort,
+			port: route.port,
+			publicUrl: hostname ? buildPublicUrl(route.publicPort, route.path, route.protocol) : null,
+			target: route.target,
+		});
+	}
+}
+
+function failure(error: FunnelError): { ok: false; error: FunnelError } {
+	return { ok: false, error };
+}
+
+/** Classify why a funnel process exited, defaulting to a generic failure */
+function exitError(info: ExitInfo): FunnelError {
+	const reason = info.error?.message || info.stderr || `exit code ${info.code}`;
+	return funnelError(classifyTailscaleError(reason) ?? "funnel-failed", reason);
+}
+
+/** Owners other than `owner` holding a lease on the route */
+function otherOwners(route: ActiveFunnel, owner?: string): string[] {
+	const owners = new Set<string>();
+	for (const lease of route.leaseStates.values()) {
+		if (lease.owner !== owner) owners.add(lease.owner ?? ANONYMOUS_OWNER);
+	}
+	return [...owners];
+}
+
+/** Who a change is attributed to: the lease owner, or "api" for callers without one */
+function auditActor(owner?: string): string {
+	return owner ?? "api";
+}
+
+/** Add a change to the audit trail and announce it as `funnel:audit` */
+function auditChange(change: Omit<AuditEntry, "time">): void {
+	const entry: AuditEntry = { time: Date.now(), ...change };
+	recordAudit(entry).catch((err) => {
+		ctx?.log.warn(`Failed to write funnel audit log: ${err}`);
+	});
+	emitInBackground("funnel:audit", entry);
+}
+
+/** Audit fields that identify a tracked route */
+function routeAuditFields(
+	route: ActiveFunnel,
+): Pick<AuditEntry, "port" | "path" | "publicPort" | "publicUrl" | "target"> {
+	return {
+		port: route.port,
+		path: route.path,
+		publicPort: route.publicPort,
+		publicUrl: route.publicUrl,
+		...(isStaticRoute(route) ? { target: describeTarget(route) } : {}),
+	};
+}
+
+/** Record the outcome of an expose call and pass it on */
+function auditExposure(
+	port: number,
+	options: RouteOptions,
+	result: ExposeResult,
+	action: AuditAction = "expose",
+	actor: string = auditActor(options.owner),
+): ExposeResult {
+	const route = result.ok
+		? funnels.get(routeKey(result.lease.publicPort, result.lease.path))
+		: undefined;
+	const ttlMs = leaseTtlMs(options);
+	const requested = {
+		port,
+		path: normalizePath(options.path),
+		...(typeof options.publicPort === "number" ? { publicPort: options.publicPort } : {}),
+		...(isStaticRoute(options) ? { target: options.directory ?? "text" } : {}),
+	};
+	auditChange({
+		actor,
+		action,
+		...(route ? routeAuditFields(route) : requested),
+		...(ttlMs !== undefined ? { ttlSeconds: ttlMs / 1000 } : {}),
+		...(result.ok ? { outcome: "ok" } : { outcome: "failed", error: result.error.code }),
+	});
+	return result;
+}
+
+/** Release a lease on behalf of its owner and record it */
+async function auditedRelease(
+	key: string,
+	id: string,
+	action: "unexpose" | "expire",
+): Promise<UnexposeResult> {
+	const route = funnels.get(key);
+	const lease = route?.leaseStates.get(id);
+	const result = await releaseLease(key, id);
+	if (route && lease) {
+		auditChange({
+			actor: auditActor(lease.owner),
+			action,
+			...routeAuditFields(route),
+			outcome: "ok",
+		});
+	}
+	return result;
+}
 
-		// Emit event via event bus
-		const payload = {
-			oldHostname,
-			newHostname,
-			activePort: activeFunnel?.active ? activeFunnel.port : null,
-			publicUrl: activeFunnel?.active ? activeFunnel.publicUrl : null,
+function clearLeaseTimer(lease: LeaseState): void {
+	if (lease.timer) clearTimeout(lease.timer);
+	if (lease.warningTimer) clearTimeout(lease.warningTimer);
+	lease.timer = undefined;
+	lease.warningTimer = undefined;
+}
+
+/** Lease lifetime asked for, preferring `ttlSeconds` over `ttlMs` */
+function leaseTtlMs(options: ExposeOptions): number | undefined {
+	return options.ttlSeconds !== undefined ? options.ttlSeconds * 1000 : options.ttlMs;
+}
+
+function setLeaseTtl(route: ActiveFunnel, lease: LeaseState, ttlMs: number | undefined): void {
+	clearLeaseTimer(lease);
+	if (ttlMs === undefined) {
+		lease.expiresAt = null;
+		return;
+	}
+
+	lease.expiresAt = Date.now() + ttlMs;
+	lease.timer = setTimeout(() => {
+		lease.timer = undefined;
+		ctx?.log.info(`Lease on ${route.path} (port ${route.port}) expired`);
+		auditedRelease(routeKey(route.publicPort, route.path), lease.id, "expire")
+			.then(() => {
+				emitInBackground("funnel:lease-expired", {
+					port: route.port,
+					path: route.path,
+					publicPort: route.publicPort,
+					owner: lease.owner ?? null,
+					leaseId: lease.id,
+				});
+			})
+			.catch((err) => {
+				ctx?.log.error(`Failed to release expired lease on ${route.path}: ${err}`);
+			});
+	}, ttlMs);
+	lease.timer.unref?.();
+
+	if (expiryWarningMs > 0 && ttlMs > expiryWarningMs) {
+		lease.warningTimer = setTimeout(() => {
+			lease.warningTimer = undefined;
+			ctx?.log.info(
+				`Lease on ${route.path} (port ${route.port}) expires in ${formatDuration(expiryWarningMs)}`,
+			);
+			emitInBackground("funnel:lease-expiring", {
+				port: route.port,
+				path: route.path,
+				publicPort: route.publicPort,
+				owner: lease.owner ?? null,
+				leaseId: lease.id,
+				expiresAt: lease.expiresAt,
+				remainingMs: expiryWarningMs,
+			});
+		}, ttlMs - expiryWarningMs);
+		lease.warningTimer.unref?.();
+	}
+}
+
+function leaseHandle(route: ActiveFunnel, lease: LeaseState): FunnelLease {
+	const key = routeKey(route.publicPort, route.path);
+	return {
+		id: lease.id,
+		port: route.port,
+		path: route.path,
+		publicPort: route.publicPort,
+		owner: lease.owner,
+		get expiresAt() {
+			return lease.expiresAt;
+		},
+		release: () => auditedRelease(key, lease.id, "unexpose"),
+		renew: (ttlMs: number) => {
+			const renewed = renewLease(key, lease.id, ttlMs);
+			if (renewed) {
+				auditChange({
+					actor: auditActor(lease.owner),
+					action: "extend",
+					...routeAuditFields(route),
+					ttlSeconds: ttlMs / 1000,
+					outcome: "ok",
+				});
+			}
+			return renewed;
+		},
+	};
+}
+
+/**
+ * Add a lease to a route. Each owner holds at most one lease per route, so
+ * exposing again refreshes it (the latest TTL wins); callers without an
+ * owner each get their own.
+ */
+function acquireLease(route: ActiveFunnel, options: ExposeOptions): FunnelLease {
+	let lease = options.owner
+		? [...route.leaseStates.values()].find((held) => held.owner === options.owner)
+		: undefined;
+	if (lease) {
+		lease.unclaimed = undefined;
+	} else {
+		lease = {
+			id: randomUUID(),
+			owner: options.owner,
+			createdAt: Date.now(),
+			ephemeral: false,
+			expiresAt: null,
 		};
-		await ctx?.events?.emitCustom("funnel:hostname-changed", payload);
+		route.leaseStates.set(lease.id, lease);
+	}
+	lease.ephemeral = options.ephemeral === true;
+	setLeaseTtl(route, lease, leaseTtlMs(options));
+	return leaseHandle(route, lease);
+}
 
-		// Notify registered callbacks
-		for (const cb of hostnameChangeCallbacks) {
-			try {
-				cb(oldHostname, newHostname);
-			} catch (err) {
-				ctx?.log.error(`Hostname change callback error: ${err}`);
+/** Give up one lease, stopping the route if it was the last one */
+async function releaseLease(key: string, id: string): Promise<UnexposeResult> {
+	const route = funnels.get(key);
+	const lease = route?.leaseStates.get(id);
+	if (!route || !lease) return { ok: true, stopped: 0, released: 0 };
+
+	clearLeaseTimer(lease);
+	route.leaseStates.delete(id);
+	let stopped = 0;
+	if (route.leaseStates.size === 0) {
+		await stopRoute(route);
+		stopped = 1;
+	}
+	persistExposures();
+	return { ok: true, stopped, released: 1 };
+}
+
+function renewLease(key: string, id: string, ttlMs: number): boolean {
+	const route = funnels.get(key);
+	const lease = route?.leaseStates.get(id);
+	if (!route || !lease) return false;
+	setLeaseTtl(route, lease, ttlMs);
+	persistExposures();
+	return true;
+}
+
+/** Release every lease `owner` holds; resolves to how many were released */
+async function releaseOwner(owner: string): Promise<number> {
+	let released = 0;
+	for (const route of [...funnels.values()]) {
+		for (const lease of [...route.leaseStates.values()]) {
+			if (lease.owner !== owner) continue;
+			const key = routeKey(route.publicPort, route.path);
+			const result = await auditedRelease(key, lease.id, "unexpose");
+			if (result.ok) released += result.released;
+		}
+	}
+	return released;
+}
+
+/** The lease a schedule holds on the route for `entry`, if its window is open */
+function scheduleLease(entry: ExposeEntry): { key: string; lease: LeaseState } | null {
+	const path = normalizePath(entry.path);
+	for (const route of funnels.values()) {
+		if (route.port !== entry.port || route.path !== path) continue;
+		if (typeof entry.publicPort === "number" && route.publicPort !== entry.publicPort) continue;
+		for (const lease of route.leaseStates.values()) {
+			if (lease.owner === SCHEDULE_OWNER) {
+				return { key: routeKey(route.publicPort, route.path), lease };
 			}
 		}
-	} catch {
-		// Ignore parse errors during polling
 	}
+	return null;
+}
+
+/**
+ * Expose scheduled entries whose window has opened and release the ones
+ * whose window has closed. Leases run until the window closes, so routes
+ * go down on time between checks and `funnel status` shows how long is left.
+ */
+async function applySchedules(now: number = Date.now()): Promise<void> {
+	if (!available) return;
+	for (const { entry, cron } of scheduledExposures) {
+		const held = scheduleLease(entry);
+		if (matchesCron(cron, now)) {
+			if (held) continue;
+			const end = windowEnd(cron, now);
+			await exposeEntries([{ ...entry, ttlMs: end === null ? undefined : end - now }], "Scheduled");
+		} else if (held) {
+			await auditedRelease(held.key, held.lease.id, "expire");
+		}
+	}
+}
+
+/** Check the schedules again at the start of the next minute */
+function scheduleNextCheck(): void {
+	scheduleTimer = setTimeout(
+		() => {
+			applySchedules()
+				.catch((err) => {
+					ctx?.log.error(`Scheduled exposure check failed: ${err}`);
+				})
+				.finally(() => {
+					if (scheduleTimer) scheduleNextCheck();
+				});
+		},
+		MINUTE_MS - (Date.now() % MINUTE_MS),
+	);
+	scheduleTimer.unref?.();
+}
+
+/** Config schedules with a valid cron expression; the others are logged and skipped */
+function loadSchedules(schedules: FunnelScheduledExpose[]): void {
+	scheduledExposures = [];
+	for (const { schedule, ...entry } of schedules) {
+		const cron = typeof schedule === "string" ? parseCron(schedule) : null;
+		if (!cron || !entry.port) {
+			ctx?.log.warn(
+				`Ignoring schedule for port ${entry.port}: invalid cron expression "${schedule}"`,
+			);
+			continue;
+		}
+		scheduledExposures.push({
+			entry: { ...entry, owner: SCHEDULE_OWNER, ephemeral: true },
+			cron,
+		});
+	}
+}
+
+/**
+ * Where the funnel mount for a route points: the local port, or the local
+ * proxy. Proxied routes mount the proxy at the same path, so it sees the
+ * full public path and applies the route's rewrites before forwarding.
+ */
+async function mountTarget(route: ActiveFunnel): Promise<string> {
+	if (route.directory !== undefined) return route.directory;
+	if (route.text !== undefined) return `text:${route.text}`;
+	if (isTcpProtocol(route.protocol)) return `tcp://localhost:${route.port}`;
+	if (route.protocol === "https-insecure") return `https+insecure://localhost:${route.port}`;
+	// Mount at the same path on the target, so the local service sees the full
+	// request path whether or not the proxy sits in between
+	const suffix = route.path === "/" ? "" : route.path;
+	if (!route.proxied) return `http://127.0.0.1:${route.port}${suffix}`;
+	const localProxy = await ensureProxy(route.publicPort);
+	localProxy.setRoute(proxyRoute(route.options, route.path, servingPort(route), route.publicPort));
+	return `http://127.0.0.1:${localProxy.port}${suffix}`;
+}
+
+/**
+ * Mount a route with `tailscale funnel --bg` and wait (up to the startup
+ * grace period) for the result. A failed mount is returned, unless
+ * `background` is set and the failure is transient: then it is retried
+ * under the restart policy and the route counts as started.
+ */
+async function launchFunnel(
+	route: ActiveFunnel,
+	target: string,
+	background = route.options.retry === true,
+): Promise<FunnelError | null> {
+	const { port, path: mountPath } = route;
+	route.active = true;
+	route.startedAt = Date.now();
+	route.lastError = undefined;
+
+	// Resolved by the first failed mount, or null once it succeeds or the
+	// startup grace period passes without a result
+	let settleStartup: ((info: ExitInfo | null) => void) | null = null;
+	const startup = new Promise<ExitInfo | null>((resolve) => {
+		settleStartup = resolve;
+	});
+	const onFirstExit = (info: ExitInfo | null) => {
+		settleStartup?.(info);
+		settleStartup = null;
+	};
+
+	try {
+		route.process = superviseProcess({
+			...restartPolicy,
+			// Without background retry the first failure is the caller's to handle
+			...(background ? {} : { maxRestarts: 0 }),
+			command: "tailscale",
+			args: funnelArgs(route, target),
+			untilSuccess: true,
+			onSuccess: () => onFirstExit(null),
+			onRestart(info) {
+				// A permanent failure during startup is returned to the caller,
+				// which stops the supervisor; it is not a restart
+				const startingUp = settleStartup !== null;
+				onFirstExit(info);
+				if (startingUp && PERMANENT_FAILURES.has(exitError(info).code)) return;
+
+				route.restarts = (route.restarts ?? 0) + 1;
+				incrementStat("funnelRestarts");
+				const reason = info.error?.message || info.stderr || `exit code ${info.code}`;
+				ctx?.log.warn(
+					`Mounting funnel for port ${port} on ${mountPath} failed (${reason}); retry ${info.attempt} in ${info.delayMs}ms`,
+				);
+				emitInBackground("funnel:restarted", {
+					port,
+					path: mountPath,
+					publicUrl: route.publicUrl,
+					attempt: info.attempt,
+					delayMs: info.delayMs,
+					restarts: route.restarts,
+					exitCode: info.code,
+					signal: info.signal,
+					stderr: info.stderr,
+				});
+			},
+			onGiveUp(info) {
+				// Failing the first attempt is returned to the caller instead
+				if (settleStartup !== null) {
+					onFirstExit(info);
+					return;
+				}
+				route.active = false;
+				route.lastError = exitError(info);
+				ctx?.log.error(
+					`Funnel for port ${port} on ${mountPath} gave up restarting: ${route.lastError.message}`,
+				);
+				emitInBackground("funnel:failed", {
+					port,
+					path: mountPath,
+					publicUrl: route.publicUrl,
+					restarts: route.restarts,
+					exitCode: info.code,
+					stderr: info.stderr,
+					error: route.lastError,
+				});
+			},
+		});
+	} catch (err) {
+		route.active = false;
+		ctx?.log.error(`Failed to spawn funnel for port ${port}: ${err}`);
+		return funnelError("spawn-failed", `Failed to spawn funnel for port ${port}: ${err}`);
+	}
+
+	const graceTimer = setTimeout(() => onFirstExit(null), startupGraceMs);
+	const firstExit = startupGraceMs > 0 ? await startup : null;
+	clearTimeout(graceTimer);
+
+	if (firstExit) {
+		const error = exitError(firstExit);
+		if (!background || PERMANENT_FAILURES.has(error.code)) {
+			route.process?.stop();
+			route.process = undefined;
+			route.active = false;
+			ctx?.log.error(`Funnel for port ${port} on ${mountPath} failed: ${error.message}`);
+			return error;
+		}
+	}
+	return null;
 }
 
-async function startFunnel(port: number, path: string = "/"): Promise<string | null> {
+/**
+ * Mount a route again after it went missing from the serve config (e.g.
+ * tailscaled restarted or `serve reset` ran). It counts as a restart, and
+ * the mount is retried in the background under the restart policy.
+ */
+async function remountFunnel(route: ActiveFunnel): Promise<void> {
+	route.restarts = (route.restarts ?? 0) + 1;
+	incrementStat("funnelRestarts");
+	const error = await relaunchFunnel(route, true);
+	if (error) {
+		route.lastError = error;
+		ctx?.log.error(
+			`Re-mounting funnel on ${route.path} (port ${route.port}) failed: ${error.message}`,
+		);
+	} else {
+		ctx?.log.info(`Re-mounted funnel on ${route.path} (port ${route.port})`);
+	}
+}
+
+/** Start a tracked route's funnel again, keeping its leases */
+async function relaunchFunnel(
+	route: ActiveFunnel,
+	background = route.options.retry === true,
+): Promise<FunnelError | null> {
+	route.process?.stop();
+	route.process = undefined;
+	try {
+		return await launchFunnel(route, await mountTarget(route), background);
+	} catch (err) {
+		route.active = false;
+		return funnelError("proxy-failed", `Failed to start local reverse proxy: ${err}`);
+	}
+}
+
+async function startFunnel(port: number, options: RouteOptions = {}): Promise<ExposeResult> {
+	if (!isStaticRoute(options) && !isValidPort(port)) {
+		return failure(funnelError("invalid-port", `Invalid port number: ${port}`));
+	}
+
 	if (!(await checkTailscaleAvailable())) {
-		return null;
+		return failure(
+			unavailableError ?? funnelError("backend-not-running", "Tailscale is not available"),
+		);
 	}
 
 	if (!hostname) {
 		ctx?.log.error("No Tailscale hostname available");
-		return null;
+		return failure(funnelError("no-hostname", "No Tailscale hostname available"));
+	}
+
+	const exposure = options.exposure ?? "public";
+	if (exposure !== "public" && exposure !== "tailnet") {
+		return failure(funnelError("invalid-exposure", `Invalid exposure: ${exposure}`));
+	}
+
+	if (options.directory !== undefined) {
+		const directory = await resolveStaticDirectory(
+			options.directory,
+			staticRoots,
+			pluginDir ?? undefined,
+		);
+		if (typeof directory !== "string") return failure(directory);
+		options = { ...options, directory };
+	}
+
+	const protocol = options.protocol ?? "http";
+	if (!FUNNEL_PROTOCOLS.includes(protocol)) {
+		return failure(funnelError("invalid-protocol", `Invalid protocol: ${protocol}`));
+	}
+	if (options.healthCheck !== undefined && !isValidHealthCheckFor(options, protocol)) {
+		return failure(
+			funnelError("invalid-health-check", `Invalid health check for ${options.path ?? "/"}`),
+		);
+	}
+	if (options.fallback !== undefined && !isValidFallbackFor(port, options, protocol)) {
+		return failure(funnelError("invalid-fallback", `Invalid fallback for ${options.path ?? "/"}`));
+	}
+	if (protocol !== "http" && usesProxyFeatures(options)) {
+		return failure(
+			funnelError(
+				"invalid-protocol",
+				`Auth, webhook verification, IP rules, rate limits, capture and proxy rewrites need an http route, not ${protocol}`,
+			),
+		);
+	}
+	if (options.auth && !isValidAuth(options.auth)) {
+		return failure(funnelError("invalid-auth", `Invalid auth settings for ${options.path ?? "/"}`));
+	}
+	if (options.verify && !isValidVerify(options.verify)) {
+		return failure(
+			funnelError("invalid-verify", `Invalid webhook verification for ${options.path ?? "/"}`),
+		);
+	}
+	if (options.capture !== undefined && !isValidCapture(options.capture)) {
+		return failure(
+			funnelError("invalid-capture", `Invalid capture settings for ${options.path ?? "/"}`),
+		);
+	}
+	const ttlMs = leaseTtlMs(options);
+	if (ttlMs !== undefined && !(ttlMs > 0)) {
+		return failure(funnelError("invalid-ttl", `Invalid lease lifetime: ${ttlMs}ms`));
+	}
+	if (!isValidPolicy(options)) {
+		return failure(
+			funnelError(
+				"invalid-access-rule",
+				`Invalid IP rules or rate limit for ${options.path ?? "/"}`,
+			),
+		);
 	}
 
-	// Check if already exposed on this port
-	if (activeFunnel?.active && activeFunnel.port === port) {
-		ctx?.log.debug?.(`Port ${port} already exposed at ${activeFunnel.publicUrl}`);
-		return activeFunnel.publicUrl;
+	const mountPath = normalizePath(options.path);
+	if (!isValidMountPath(mountPath)) {
+		return failure(funnelError("invalid-path", `Invalid path: ${options.path}`));
+	}
+	if (isTcpProtocol(protocol) && mountPath !== "/") {
+		return failure(
+			funnelError("invalid-protocol", `${protocol} routes take a whole public port, not a path`),
+		);
 	}
 
-	// Tailscale only supports ONE funnel at a time - stop any existing funnel
-	if (activeFunnel?.active) {
-		ctx?.log.info(`Replacing existing funnel on port ${activeFunnel.port} with port ${port}`);
-		await stopFunnel(activeFunnel.port);
+	const publicPort = resolvePublicPort(port, mountPath, options.publicPort, exposure, protocol);
+	if (typeof publicPort !== "number") return failure(publicPort);
+	const key = routeKey(publicPort, mountPath);
+	const proxied = needsProxy(options);
+	const {
+		owner: _owner,
+		ephemeral: _ephemeral,
+		ttlMs: _ttlMs,
+		ttlSeconds: _ttlSeconds,
+		background,
+		...routeOptions
+	} = options;
+
+	// The same port on the same path (with the same exposure and protocol) only adds a lease
+	const existing = funnels.get(key);
+	if (
+		existing &&
+		existing.port === port &&
+		existing.exposure === exposure &&
+		existing.protocol === protocol &&
+		existing.directory === options.directory &&
+		existing.text === options.text &&
+		// A caller cannot join a route with different (or no) auth, verification
+		// or IP rules and weaken it
+		routeGuards(existing.options) === routeGuards(options) &&
+		Boolean(existing.proxied) === proxied
+	) {
+		// The latest caller's settings (e.g. proxy rewrites) apply from now on,
+		// and are what status and persistence report
+		existing.options = { ...routeOptions, path: mountPath, publicPort, exposure, protocol };
+		existing.capturing = options.capture ? true : undefined;
+		if (existing.active) {
+			// Proxy rewrites can change without touching the funnel mount
+			if (proxied) {
+				proxies
+					.get(publicPort)
+					?.setRoute(proxyRoute(existing.options, mountPath, servingPort(existing), publicPort));
+			}
+			ctx?.log.debug?.(`Port ${port} already exposed at ${existing.publicUrl}`);
+		} else {
+			const error = await relaunchFunnel(existing);
+			if (error) return failure(error);
+		}
+		const lease = acquireLease(existing, options);
+		persistExposures();
+		return { ok: true, url: existing.publicUrl, lease };
 	}
 
-	// Build public URL
-	// Funnel always uses HTTPS on port 443
-	const publicUrl = `https://${hostname}${path === "/" ? "" : path}`;
+	// A path can only point at one port - replace whatever is mounted there,
+	// unless another owner still holds it. Routes on other paths are left alone.
+	if (existing) {
+		const others = otherOwners(existing, options.owner);
+		if (others.length > 0) {
+			return failure(
+				funnelError(
+					"owned-by-other",
+					`${mountPath} is mounted for port ${existing.port} and held by ${others.join(", ")}`,
+				),
+			);
+		}
+		ctx?.log.info(`Replacing funnel on ${mountPath} (port ${existing.port}) with port ${port}`);
+		await stopRoute(existing);
+	}
 
+	const route: ActiveFunnel = {
+		port,
+		path: mountPath,
+		publicPort,
+		exposure,
+		protocol,
+		directory: options.directory,
+		text: options.text,
+		auth: options.auth?.type,
+		verify: options.verify?.preset,
+		restricted: hasPolicy(options) || undefined,
+		capturing: options.capture ? true : undefined,
+		publicUrl: buildPublicUrl(publicPort, mountPath, protocol),
+		active: true,
+		proxied,
+		restarts: 0,
+		startedAt: Date.now(),
+		options: { ...routeOptions, path: mountPath, publicPort, exposure, protocol },
+		leaseStates: new Map(),
+	};
+
+	let target: string;
 	try {
-		// Start funnel in background
-		// tailscale funnel <port> exposes on 443 by default
-		const funnelProcess = spawn("tailscale", ["funnel", String(port)], {
-			detached: true,
-			stdio: "ignore",
+		target = await mountTarget(route);
+	} catch (err) {
+		ctx?.log.error(`Failed to start local reverse proxy: ${err}`);
+		return failure(funnelError("proxy-failed", `Failed to start local reverse proxy: ${err}`));
+	}
+
+	funnels.set(key, route);
+	const error = await launchFunnel(route, target, background || options.retry === true);
+	if (error) {
+		if (funnels.get(key) === route) funnels.delete(key);
+		proxies.get(publicPort)?.removeRoute(mountPath);
+		return failure(error);
+	}
+
+	incrementStat("funnelsStarted");
+	const check = healthCheckFor(routeOptions);
+	if (check) watchHealth(route, check);
+	const lease = acquireLease(route, options);
+	persistExposures();
+	const label = exposure === "tailnet" ? "Tailnet serve" : "Funnel";
+	ctx?.log.info(`${label} started: ${route.publicUrl} -> ${describeTarget(route)}`);
+	return { ok: true, url: route.publicUrl, lease };
+}
+
+/** Static routes have no port to check; paths and maintenance pages need an http route */
+function isValidHealthCheckFor(options: RouteOptions, protocol: FunnelProtocol): boolean {
+	const check = options.healthCheck;
+	if (!check || !isValidHealthCheck(check) || isStaticRoute(options)) return false;
+	if (check.onUnhealthy === "fallback" && !options.fallback) return false;
+	return protocol === "http" || (check.path === undefined && check.onUnhealthy !== "maintenance");
+}
+
+/** Fallbacks are served by the proxy, so only http port routes can have one */
+function isValidFallbackFor(
+	port: number,
+	options: RouteOptions,
+	protocol: FunnelProtocol,
+): boolean {
+	const fallback = options.fallback;
+	if (!fallback || !isValidFallback(fallback) || isStaticRoute(options)) return false;
+	if (fallback.type === "port" && fallback.port === port) return false;
+	return protocol === "http" && unhealthyAction(options) === "fallback";
+}
+
+/** What a route does once unhealthy, for log lines */
+function describeUnhealthyAction(options: RouteOptions): string {
+	const action = unhealthyAction(options);
+	if (action === "unexpose") return "unexposing it";
+	if (action === "maintenance") return "serving the maintenance page";
+	if (action === "none") return "keeping it exposed";
+	const fallback = options.fallback;
+	return fallback?.type === "port"
+		? `sending traffic to port ${fallback.port}`
+		: "serving its maintenance page";
+}
+
+/** Check a route's local port on an interval and act on its health check's onUnhealthy */
+function watchHealth(route: ActiveFunnel, check: FunnelHealthCheck): void {
+	const key = routeKey(route.publicPort, route.path);
+	const action = unhealthyAction(route.options);
+	const where = `port ${route.port} on ${route.path}`;
+	// Point the proxy at whichever port servingPort() now picks
+	const retarget = () => {
+		if (route.options.fallback?.type !== "port") return;
+		proxies
+			.get(route.publicPort)
+			?.setRoute(proxyRoute(route.options, route.path, servingPort(route), route.publicPort));
+	};
+	healthMonitors.get(key)?.stop();
+	healthMonitors.set(
+		key,
+		monitorHealth({
+			port: route.port,
+			check,
+			onUnhealthy(health) {
+				ctx?.log.warn(
+					`Health check failed ${health.consecutiveFailures} times for ${where} (${health.lastError}); ${describeUnhealthyAction(route.options)}`,
+				);
+				emitInBackground("funnel:unhealthy", {
+					port: route.port,
+					path: route.path,
+					publicPort: route.publicPort,
+					publicUrl: route.publicUrl,
+					action,
+					consecutiveFailures: health.consecutiveFailures,
+					error: health.lastError,
+				});
+				retarget();
+				if (action !== "unexpose") return;
+				const options = { path: route.path, publicPort: route.publicPort, force: true };
+				stopFunnel(route.port, options, HEALTH_ACTOR).catch((err) => {
+					ctx?.log.error(`Failed to unexpose unhealthy ${where}: ${err}`);
+				});
+			},
+			onRecovered(_health, downtimeMs) {
+				retarget();
+				const back = action === "fallback" ? "; switched back from its fallback" : "";
+				ctx?.log.info(
+					`Health check passing again for ${where} after ${formatDuration(downtimeMs)}${back}`,
+				);
+				emitInBackground("funnel:recovered", {
+					port: route.port,
+					path: route.path,
+					publicPort: route.publicPort,
+					publicUrl: route.publicUrl,
+					downtimeMs,
+				});
+			},
+		}),
+	);
+}
+
+/** Tear a route down: stop its process, remove the mount and drop its leases */
+async function stopRoute(funnel: ActiveFunnel): Promise<void> {
+	for (const lease of funnel.leaseStates.values()) clearLeaseTimer(lease);
+	funnel.leaseStates.clear();
+
+	// Stop supervising first so the child's exit is not treated as a crash
+	funnel.process?.stop();
+
+	// Stop the mount with an args array (safer than shell string)
+	const args = funnelArgs(funnel, "off");
+	const result = await tailscale.run(args);
+	if (!result.ok) {
+		ctx?.log.warn(`tailscale ${args.join(" ")} may have failed: ${result.stderr || ""}`);
+	}
+
+	const key = routeKey(funnel.publicPort, funnel.path);
+	if (funnels.get(key) === funnel) {
+		funnels.delete(key);
+		routeSecurity.delete(key);
+		healthMonitors.get(key)?.stop();
+		healthMonitors.delete(key);
+		clearCaptures(key);
+		proxies.get(funnel.publicPort)?.removeRoute(funnel.path);
+	}
+	incrementStat("funnelsStopped");
+	ctx?.log.info(`Funnel stopped for port ${funnel.port} on ${funnel.publicUrl}`);
+}
+
+/**
+ * Release the leases `options.owner` holds on `port` (on every path, or only
+ * `options.path`). Routes left without leases are stopped; `force` stops
+ * them whoever holds them. Reports how many leases and routes went away.
+ */
+async function stopFunnel(
+	port: number,
+	options: StopOptions = {},
+	actor: string = auditActor(options.owner),
+): Promise<UnexposeResult> {
+	const mountPath = options.path === undefined ? undefined : normalizePath(options.path);
+	const refuse = (error: FunnelError) => {
+		auditChange({
+			actor,
+			action: "unexpose",
+			port,
+			path: mountPath ?? "*",
+			...(options.publicPort !== undefined ? { publicPort: options.publicPort } : {}),
+			outcome: "failed",
+			error: error.code,
 		});
+		return failure(error);
+	};
+
+	// Directory and text routes have port 0, so they are named by path
+	if (!isValidPort(port) && !(port === 0 && mountPath !== undefined)) {
+		return refuse(funnelError("invalid-port", `Invalid port number: ${port}`));
+	}
+
+	const targets = [...funnels.values()].filter(
+		(f) =>
+			f.port === port &&
+			(mountPath === undefined || f.path === mountPath) &&
+			(options.publicPort === undefined || f.publicPort === options.publicPort),
+	);
+	if (targets.length === 0) {
+		const where = mountPath ? ` on ${mountPath}` : "";
+		return refuse(funnelError("not-exposed", `Port ${port} is not exposed${where}`));
+	}
+
+	let stopped = 0;
+	let released = 0;
+	for (const funnel of targets) {
+		const before = released;
+		for (const lease of [...funnel.leaseStates.values()]) {
+			if (!options.force && lease.owner !== options.owner) continue;
+			clearLeaseTimer(lease);
+			funnel.leaseStates.delete(lease.id);
+			released++;
+		}
+		if (funnel.leaseStates.size === 0) {
+			await stopRoute(funnel);
+			stopped++;
+		}
+		if (released > before) {
+			auditChange({ actor, action: "unexpose", ...routeAuditFields(funnel), outcome: "ok" });
+		}
+	}
 
-		// Handle spawn errors (e.g., tailscale not found)
-		funnelProcess.on("error", (err) => {
-			ctx?.log.error(`Funnel process error for port ${port}: ${err.message}`);
-			if (activeFunnel?.port === port) {
-				activeFunnel = null;
-			}
-		});
+	if (stopped === 0 && released === 0) {
+		const owners = [...new Set(targets.flatMap((f) => otherOwners(f, options.owner)))];
+		return refuse(funnelError("owned-by-other", `Port ${port} is held by ${owners.join(", ")}`));
+	}
+	persistExposures();
+	return { ok: true, stopped, released };
+}
 
-		funnelProcess.unref();
+/**
+ * Whether a route is mounted at `mountPath` in the live serve config, with
+ * Funnel enabled for public routes
+ */
+async function isRouteConfigured(
+	publicPort: number,
+	mountPath: string,
+	exposure: FunnelExposure,
+): Promise<boolean> {
+	const routes = parseServeStatus(await getServeStatusJson());
+	return (
+		routes?.some(
+			(route) =>
+				route.funnel === (exposure === "public") &&
+				route.publicPort === publicPort &&
+				route.path === mountPath,
+		) ?? false
+	);
+}
 
-		// Store state - note: we can't verify funnel actually started since it's detached
-		// The error handler above will clear state if spawn fails
-		activeFunnel = {
-			port,
-			path,
-			publicUrl,
-			active: true,
-			pid: funnelProcess.pid,
-		};
-		incrementStat("funnelsStarted");
+/**
+ * Expose a port and only report success once the route is confirmed in the
+ * serve config and the local target answers. A route that never becomes
+ * ready has its lease released so no dead URL is left behind.
+ */
+async function exposeAndWait(port: number, options: ExposeReadyOptions): Promise<ExposeResult> {
+	const { timeoutMs, probePath, ...exposeOptions } = options;
+	const exposed = await startFunnel(port, exposeOptions);
+	if (!exposed.ok) return exposed;
+
+	const { path: mountPath, publicPort } = exposed.lease;
+	const key = routeKey(publicPort, mountPath);
+	const route = funnels.get(key);
+	const result = await waitForReady(
+		exposed.url,
+		{
+			isConfigured: () => isRouteConfigured(publicPort, mountPath, route?.exposure ?? "public"),
+			// Only plain HTTP targets can be probed with a GET
+			probe: () => probeLocalPort(port, route?.protocol === "http" ? probePath : undefined),
+			hasFailed: () => funnels.get(key)?.active !== true,
+		},
+		{ timeoutMs },
+	);
 
-		ctx?.log.info(`Funnel started: ${publicUrl} -> localhost:${port}`);
-		return publicUrl;
-	} catch (err) {
-		ctx?.log.error(`Failed to spawn funnel for port ${port}: ${err}`);
-		return null;
-	}
+	if (result.ready) return exposed;
+
+	// The funnel's own output usually says why better than the timeout does
+	const code = route?.lastError?.code ?? classifyTailscaleError(route?.process?.stderr ?? "");
+	const error = funnelError(code ?? result.reason, result.message);
+	ctx?.log.warn(`Funnel for port ${port} on ${mountPath} not ready: ${error.message}`);
+	await releaseLease(key, exposed.lease.id);
+	return failure(error);
 }
 
-async function stopFunnel(port: number): Promise<boolean> {
-	if (!activeFunnel || activeFunnel.port !== port) {
-		return false;
+/**
+ * Issue a bearer token for the route serving `path`, or a signed URL for
+ * `path` itself, depending on the route's auth type.
+ */
+async function createToken(path: string, options: CreateTokenOptions = {}): Promise<TokenResult> {
+	const publicPort = options.publicPort ?? DEFAULT_PUBLIC_PORT;
+	const pathname = normalizePath(path);
+	const candidates = [...funnels.values()].filter((f) => f.publicPort === publicPort);
+	const route = matchRoute(candidates, pathname);
+	if (!route) {
+		return failure(funnelError("not-exposed", `Nothing is exposed at ${pathname}`));
 	}
 
-	// Stop the funnel using spawnSync with args array (safer than shell string)
-	const result = spawnSync("tailscale", ["funnel", String(port), "off"], {
-		encoding: "utf-8",
-		timeout: 10000,
-	});
-	if (result.status !== 0) {
-		ctx?.log.warn(`tailscale funnel ${port} off may have failed: ${result.stderr || ""}`);
+	const auth = route.options.auth;
+	if (auth?.type !== "bearer" && auth?.type !== "signed") {
+		return failure(
+			funnelError("auth-not-enabled", `${route.path} does not use bearer or signed auth`),
+		);
+	}
+	if (options.ttlMs !== undefined && !(options.ttlMs > 0)) {
+		return failure(funnelError("invalid-auth", `Invalid token lifetime: ${options.ttlMs}ms`));
 	}
 
-	// Also try to kill the process if we have the PID
-	if (activeFunnel.pid) {
-		try {
-			process.kill(activeFunnel.pid, "SIGTERM");
-		} catch {
-			// Process may already be dead
-		}
+	const key = routeKey(route.publicPort, route.path);
+	if (auth.type === "bearer") {
+		const expiresAt = options.ttlMs === undefined ? undefined : Date.now() + options.ttlMs;
+		const { record, token } = issueBearerToken(tokenStore, key, {
+			...(expiresAt !== undefined ? { expiresAt } : {}),
+			...(options.label ? { label: options.label } : {}),
+		});
+		persistTokens();
+		return { ok: true, id: record.id, expiresAt: record.expiresAt ?? null, token };
 	}
 
-	activeFunnel = null;
-	incrementStat("funnelsStopped");
-	ctx?.log.info(`Funnel stopped for port ${port}`);
+	const expiresAt = Date.now() + (options.ttlMs ?? DEFAULT_SIGNED_URL_TTL_MS);
+	const record = issueSignedToken(tokenStore, key, expiresAt, options.label);
+	const secret = auth.secret ?? tokenStore.secret;
+	const url = buildSignedUrl(
+		buildPublicUrl(route.publicPort, pathname),
+		pathname,
+		record.id,
+		expiresAt,
+		secret,
+	);
+	persistTokens();
+	return { ok: true, id: record.id, expiresAt, url };
+}
+
+async function revokeAccessToken(id: string): Promise<boolean> {
+	if (!revokeToken(tokenStore, id)) return false;
+	persistTokens();
 	return true;
 }
 
+async function stopAllFunnels(): Promise<void> {
+	for (const funnel of [...funnels.values()]) {
+		await stopRoute(funnel);
+	}
+}
+
+/** Public view of a route, without the supervisor and lease internals */
+function toFunnelInfo(route: ActiveFunnel): FunnelInfo {
+	const {
+		process: _process,
+		startedAt: _startedAt,
+		options: _options,
+		leaseStates,
+		...info
+	} = route;
+	const leases = [...leaseStates.values()];
+	const health = healthMonitors.get(routeKey(route.publicPort, route.path))?.health;
+	const expiries = leases.map((lease) => lease.expiresAt);
+	const expiresAt =
+		expiries.length > 0 && expiries.every((expiry) => expiry !== null)
+			? Math.max(...(expiries as number[]))
+			: undefined;
+	return {
+		...info,
+		owners: [...new Set(leases.flatMap((lease) => (lease.owner ? [lease.owner] : [])))],
+		leases: leases.length,
+		ephemeral: leases.length > 0 && leases.every((lease) => lease.ephemeral),
+		...(expiresAt !== undefined ? { expiresAt } : {}),
+		...(health ? { health } : {}),
+		...(isFallbackActive(route) ? { fallbackActive: true } : {}),
+	};
+}
+
 // ============================================================================
 // Extension
 // ============================================================================
@@ -270,39 +2251,560 @@ const funnelExtension: FunnelExtension = {
 		return getTailscaleHostname();
 	},
 
-	async expose(port: number, path?: string) {
-		return startFunnel(port, path || "/");
+	async expose(port: number, options?: string | ExposeOptions) {
+		const exposeOptions = toExposeOptions(options);
+		return auditExposure(port, exposeOptions, await startFunnel(port, exposeOptions));
+	},
+
+	async exposeDirectory(dir: string, options?: string | ExposeStaticOptions) {
+		const exposeOptions = { ...toExposeOptions(options), directory: dir };
+		return auditExposure(0, exposeOptions, await startFunnel(0, exposeOptions));
+	},
+
+	async exposeText(body: string, options?: string | ExposeStaticOptions) {
+		const exposeOptions = { ...toExposeOptions(options), text: body };
+		return auditExposure(0, exposeOptions, await startFunnel(0, exposeOptions));
+	},
+
+	async exposeReady(port: number, options?: string | ExposeReadyOptions) {
+		const exposeOptions = toExposeOptions(options);
+		return auditExposure(port, exposeOptions, await exposeAndWait(port, exposeOptions));
 	},
 
-	async unexpose(port: number) {
-		return stopFunnel(port);
+	async unexpose(port: number, options?: string | UnexposeOptions) {
+		const { path, publicPort, owner } =
+			typeof options === "string" ? { path: options } : (options ?? {});
+		return stopFunnel(port, { path, publicPort, owner });
+	},
+
+	async releaseOwner(owner: string) {
+		return releaseOwner(owner);
+	},
+
+	async createToken(path: string, options?: CreateTokenOptions) {
+		return createToken(path, options);
+	},
+
+	async revokeToken(id: string) {
+		return revokeAccessToken(id);
 	},
 
 	getUrl(port: number) {
-		return activeFunnel?.port === port ? activeFunnel.publicUrl : null;
+		for (const funnel of funnels.values()) {
+			if (funnel.active && funnel.port === port) return funnel.publicUrl;
+		}
+		return null;
 	},
 
 	getStatus(): FunnelStatus {
 		return {
 			available: available ?? false,
 			hostname: hostname || undefined,
-			funnels: activeFunnel ? [activeFunnel] : [],
+			funnels: [...funnels.values()].map(toFunnelInfo),
+			error: unavailableError ?? undefined,
 		};
 	},
 
+	listCaptures(options: { path?: string; publicPort?: number } = {}) {
+		if (options.path === undefined) return listCaptures();
+		return listCaptures(
+			routeKey(options.publicPort ?? DEFAULT_PUBLIC_PORT, normalizePath(options.path)),
+		);
+	},
+
+	getCapture(id: string) {
+		return findCapture(id);
+	},
+
+	async replayCapture(id: string) {
+		const captured = findCapture(id);
+		if (!captured) {
+			return failure(funnelError("capture-not-found", `No captured request with id ${id}`));
+		}
+		const route = funnels.get(captured.route);
+		if (!route?.active) {
+			return failure(funnelError("not-exposed", `${captured.route} is no longer exposed`));
+		}
+		return replayRequest(
+			captured,
+			proxyRoute(route.options, route.path, servingPort(route), route.publicPort),
+		);
+	},
+
+	getMetrics() {
+		return renderMetrics({
+			available: available ?? false,
+			hostname: hostname || null,
+			funnels: [...funnels.values()].map(toFunnelInfo),
+			stats: getStats(),
+		});
+	},
+
 	onHostnameChange(callback: HostnameChangeCallback) {
 		hostnameChangeCallbacks.push(callback);
 	},
 
 	getPort(): number | null {
-		return activeFunnel?.active ? activeFunnel.port : null;
+		return getPrimaryFunnel()?.port ?? null;
 	},
 };
 
+// ============================================================================
+// Agent Tools
+// ============================================================================
+
+/** Arguments of funnel_expose, funnel_unexpose and funnel_extend_lease, as sent by the agent */
+interface AgentToolArgs {
+	port?: unknown;
+	path?: unknown;
+	publicPort?: unknown;
+	exposure?: unknown;
+	ttlSeconds?: unknown;
+	agent?: unknown;
+}
+
+function agentRouteRequest(args: AgentToolArgs): AgentRouteRequest {
+	return {
+		port: Number(args.port),
+		path: normalizePath(typeof args.path === "string" ? args.path : undefined),
+		publicPort: args.publicPort === undefined ? DEFAULT_PUBLIC_PORT : Number(args.publicPort),
+		exposure: (args.exposure ?? "public") as FunnelExposure,
+	};
+}
+
+/** "a2a", or "a2a:<agent>" when the agent gave its name */
+function agentActor(args: AgentToolArgs): string {
+	return typeof args.agent === "string" && args.agent
+		? `${AGENT_OWNER}:${args.agent}`
+		: AGENT_OWNER;
+}
+
+/** Record a change the agent was not allowed to make */
+function agentRefusal(
+	args: AgentToolArgs,
+	action: AuditAction,
+	request: AgentRouteRequest,
+	error: FunnelError,
+) {
+	auditChange({
+		actor: agentActor(args),
+		action,
+		port: request.port,
+		path: request.path,
+		publicPort: request.publicPort,
+		...(typeof args.ttlSeconds === "number" ? { ttlSeconds: args.ttlSeconds } : {}),
+		outcome: "denied",
+		error: error.code,
+	});
+	return failure(error);
+}
+
+function expiryTime(expiresAt: number | null): string | null {
+	return expiresAt === null ? null : new Date(expiresAt).toISOString();
+}
+
+/**
+ * funnel_expose: publish an allowlisted route for a limited time. Agent
+ * exposures are ephemeral and held by the "a2a" owner, so they never
+ * outlive a restart and the agent cannot release anyone else's lease.
+ */
+async function agentExpose(args: AgentToolArgs): Promise<Record<string, unknown>> {
+	const request = agentRouteRequest(args);
+	const refused =
+		checkAgentRoute(agentRules, request) ?? checkAgentTtl(args.ttlSeconds, agentMaxTtlSeconds);
+	if (refused) return agentRefusal(args, "expose", request, refused);
+
+	const options: ExposeOptions = {
+		path: request.path,
+		publicPort: request.publicPort,
+		exposure: request.exposure,
+		owner: AGENT_OWNER,
+		ephemeral: true,
+		ttlMs: (args.ttlSeconds as number) * 1000,
+	};
+	const result = auditExposure(
+		request.port,
+		options,
+		await startFunnel(request.port, options),
+		"expose",
+		agentActor(args),
+	);
+	if (!result.ok) return result;
+	return {
+		ok: true,
+		url: result.url,
+		leaseId: result.lease.id,
+		expiresAt: expiryTime(result.lease.expiresAt),
+	};
+}
+
+/** funnel_unexpose: give up the agents' lease on a route */
+async function agentUnexpose(args: AgentToolArgs): Promise<Record<string, unknown>> {
+	const request = agentRouteRequest(args);
+	return stopFunnel(
+		request.port,
+		{ path: request.path, publicPort: request.publicPort, owner: AGENT_OWNER },
+		agentActor(args),
+	);
+}
+
+/** funnel_extend_lease: push back when the agents' lease on a route expires */
+async function agentExtendLease(args: AgentToolArgs): Promise<Record<string, unknown>> {
+	const request = agentRouteRequest(args);
+	const key = routeKey(request.publicPort, request.path);
+	const route = funnels.get(key);
+	const lease = route
+		? [...route.leaseStates.values()].find((held) => held.owner === AGENT_OWNER)
+		: undefined;
+	if (!route || !lease || route.port !== request.port) {
+		const error = funnelError(
+			"not-exposed",
+			`No agent lease on port ${request.port} at ${request.path}`,
+		);
+		auditChange({
+			actor: agentActor(args),
+			action: "extend",
+			port: request.port,
+			path: request.path,
+			publicPort: request.publicPort,
+			outcome: "failed",
+			error: error.code,
+		});
+		return failure(error);
+	}
+
+	const routeRequest = { ...request, exposure: route.exposure };
+	const refused =
+		checkAgentRoute(agentRules, routeRequest) ?? checkAgentTtl(args.ttlSeconds, agentMaxTtlSeconds);
+	if (refused) return agentRefusal(args, "extend", routeRequest, refused);
+
+	const ttlSeconds = args.ttlSeconds as number;
+	renewLease(key, lease.id, ttlSeconds * 1000);
+	auditChange({
+		actor: agentActor(args),
+		action: "extend",
+		...routeAuditFields(route),
+		ttlSeconds,
+		outcome: "ok",
+	});
+	return { ok: true, leaseId: lease.id, expiresAt: expiryTime(lease.expiresAt) };
+}
+
+/** Arguments of the read-only funnel_audit tool */
+interface AuditToolArgs {
+	limit?: unknown;
+	actor?: unknown;
+	port?: unknown;
+	sinceSeconds?: unknown;
+}
+
+function auditToolQuery(args: AuditToolArgs): AuditQuery {
+	return {
+		limit: typeof args.limit === "number" && args.limit >= 0 ? args.limit : DEFAULT_LOG_LINES,
+		actor: typeof args.actor === "string" ? args.actor : undefined,
+		port: typeof args.port === "number" ? args.port : undefined,
+		since:
+			typeof args.sinceSeconds === "number" ? Date.now() - args.sinceSeconds * 1000 : undefined,
+	};
+}
+
+/** Input schema shared by the management tools; `required` varies per tool */
+const AGENT_ROUTE_PROPERTIES = {
+	port: { type: "number", description: "Local port serving the route" },
+	path: { type: "string", description: 'Mount path (default: "/")' },
+	publicPort: { type: "number", description: "Public port: 443, 8443 or 10000 (default: 443)" },
+	agent: { type: "string", description: "Name of the calling agent, for the audit record" },
+};
+
 // ============================================================================
 // Plugin
 // ============================================================================
 
+function logFunnelError(log: WOPRPluginContext["log"], summary: string, error: FunnelError): void {
+	log.error(`${summary}: ${error.message} [${error.code}]`);
+	log.info(`  Hint: ${error.hint}`);
+}
+
+/** Value of a `--name=value` CLI flag */
+function flagValue(flags: string[], name: string): string | undefined {
+	const prefix = `--${name}=`;
+	return flags.find((flag) => flag.startsWith(prefix))?.slice(prefix.length);
+}
+
+/**
+ * Parse a duration such as "90s", "30m", "12h" or "7d" (a bare number is
+ * seconds) into milliseconds. Returns null when it cannot be parsed.
+ */
+function parseDuration(text: string): number | null {
+	const match = /^(\d+(?:\.\d+)?)\s*([smhd]?)$/i.exec(text.trim());
+	if (!match) return null;
+	const unit = { "": 1000, s: 1000, m: 60000, h: 3600000, d: 86400000 }[
+		match[2].toLowerCase() as "" | "s" | "m" | "h" | "d"
+	];
+	const ms = Number.parseFloat(match[1]) * unit;
+	return ms > 0 ? ms : null;
+}
+
+/**
+ * Turn `--name value` into `--name=value` for the given flags, so the value
+ * is not taken for a port or path (`wopr funnel expose 8080 --for 30m`)
+ */
+function joinFlagValues(args: string[], names: string[]): string[] {
+	const joined: string[] = [];
+	for (let i = 0; i < args.length; i++) {
+		const name = args[i].slice(2);
+		const next = args[i + 1];
+		if (args[i].startsWith("--") && names.includes(name) && next && !next.startsWith("--")) {
+			joined.push(`--${name}=${next}`);
+			i++;
+		} else {
+			joined.push(args[i]);
+		}
+	}
+	return joined;
+}
+
+/** `--public-port=<443|8443|10000|auto>` */
+function publicPortFlag(flags: string[]): number | "auto" | undefined {
+	const value = flagValue(flags, "public-port");
+	if (value === undefined) return undefined;
+	return value === "auto" ? "auto" : Number(value);
+}
+
+/** `--auth=<bearer|signed>`; basic auth needs users, so it is config/API only */
+function authFlag(flags: string[]): FunnelAuth | undefined {
+	const type = flagValue(flags, "auth");
+	if (type === undefined) return undefined;
+	return { type } as FunnelAuth;
+}
+
+const LOGS_USAGE = "Usage: wopr funnel logs [--limit=<n>] [--follow [--timeout=<duration>]]";
+
+const DEFAULT_LOG_LINES = 50;
+// `logs --follow` stops after this long unless --timeout says otherwise
+const DEFAULT_FOLLOW_MS = 10 * 60 * 1000;
+
+// Stops `funnel logs --follow` sessions, so shutdown can end them
+const logFollowers = new Set<() => void>();
+
+/** `wopr funnel logs [--limit=N] [--follow]` */
+async function handleLogsCommand(log: WOPRPluginContext["log"], flags: string[]): Promise<void> {
+	const limitText = flagValue(flags, "limit");
+	const timeoutText = flagValue(flags, "timeout");
+	const limit = limitText === undefined ? DEFAULT_LOG_LINES : Number(limitText);
+	const followMs = timeoutText === undefined ? DEFAULT_FOLLOW_MS : parseDuration(timeoutText);
+	if (!Number.isInteger(limit) || limit < 0 || followMs === null) {
+		log.error(LOGS_USAGE);
+		return;
+	}
+
+	const follow = flags.includes("--follow");
+	const entries = getAccessLog(limit);
+	if (entries.length === 0 && !follow) {
+		log.info(
+			"No requests logged yet (only routes served through the local reverse proxy are logged)",
+		);
+	}
+	for (const entry of entries) log.info(formatAccessEntry(entry));
+	if (!follow) return;
+
+	log.info(`Following the access log for ${formatDuration(followMs)}`);
+	await new Promise<void>((resolve) => {
+		const unsubscribe = onAccess((entry) => log.info(formatAccessEntry(entry)));
+		const stop = () => {
+			unsubscribe();
+			clearTimeout(timer);
+			logFollowers.delete(stop);
+			resolve();
+		};
+		const timer = setTimeout(stop, followMs);
+		logFollowers.add(stop);
+	});
+}
+
+const AUDIT_USAGE =
+	"Usage: wopr funnel audit [--limit=<n>] [--since=<duration>] [--actor=<actor>] [--port=<port>]";
+
+/** `wopr funnel audit`: recent exposure changes, oldest first */
+function handleAuditCommand(log: WOPRPluginContext["log"], flags: string[]): void {
+	const limitText = flagValue(flags, "limit");
+	const sinceText = flagValue(flags, "since");
+	const portText = flagValue(flags, "port");
+	const limit = limitText === undefined ? DEFAULT_LOG_LINES : Number(limitText);
+	const sinceMs = sinceText === undefined ? undefined : parseDuration(sinceText);
+	const port = portText === undefined ? undefined : Number(portText);
+	if (
+		!Number.isInteger(limit) ||
+		limit < 0 ||
+		sinceMs === null ||
+		(port !== undefined && !Number.isInteger(port))
+	) {
+		log.error(AUDIT_USAGE);
+		return;
+	}
+
+	const query: AuditQuery = {
+		limit,
+		actor: flagValue(flags, "actor"),
+		port,
+		since: sinceMs === undefined ? undefined : Date.now() - sinceMs,
+	};
+	const entries = getAuditLog(query);
+	if (entries.length === 0) log.info("No exposure changes recorded");
+	for (const entry of entries) log.info(formatAuditEntry(entry));
+}
+
+const INSPECT_USAGE =
+	"Usage: wopr funnel inspect [<id> | replay <id> | clear] [--path=<path>] [--public-port=<port>]";
+
+function formatHeaderValue(value: string | string[]): string {
+	return Array.isArray(value) ? value.join(", ") : value;
+}
+
+/** `wopr funnel inspect [<id>|replay <id>|clear]` */
+async function handleInspectCommand(
+	log: WOPRPluginContext["log"],
+	action: string | undefined,
+	arg: string | undefined,
+	flags: string[],
+): Promise<void> {
+	const path = flagValue(flags, "path");
+	const publicPort = publicPortFlag(flags);
+	const filter = { path, publicPort: typeof publicPort === "number" ? publicPort : undefined };
+
+	if (action === "replay") {
+		if (!arg) {
+			log.error(INSPECT_USAGE);
+			return;
+		}
+		const result = await funnelExtension.replayCapture(arg);
+		if (!result.ok) {
+			logFunnelError(log, "Failed to replay request", result.error);
+			return;
+		}
+		log.info(`Replayed ${arg}: ${result.status}`);
+		for (const [name, value] of Object.entries(result.headers)) {
+			log.info(`  ${name}: ${formatHeaderValue(value)}`);
+		}
+		if (result.body) log.info(result.body);
+		return;
+	}
+
+	if (action === "clear") {
+		const key = path
+			? routeKey(filter.publicPort ?? DEFAULT_PUBLIC_PORT, normalizePath(path))
+			: undefined;
+		log.info(`Cleared ${clearCaptures(key)} captured requests`);
+		return;
+	}
+
+	if (action) {
+		const captured = funnelExtension.getCapture(action);
+		if (!captured) {
+			logFunnelError(
+				log,
+				"Failed to inspect request",
+				funnelError("capture-not-found", `No captured request with id ${action}`),
+			);
+			return;
+		}
+		log.info(
+			`${captured.id} ${captured.method} ${captured.url} -> ${captured.status} (${Math.round(captured.durationMs)}ms)`,
+		);
+		log.info(
+			`  Route: ${captured.route}, client: ${captured.client}, at ${new Date(captured.time).toISOString()}`,
+		);
+		log.info("  Headers:");
+		for (const [name, value] of Object.entries(captured.headers)) {
+			log.info(`    ${name}: ${formatHeaderValue(value)}`);
+		}
+		const notes = [
+			`${captured.bodyBytes} bytes`,
+			...(captured.truncated ? ["truncated"] : []),
+			...(captured.bodyEncoding === "base64" ? ["base64"] : []),
+		];
+		log.info(`  Body (${notes.join(", ")}):`);
+		if (captured.body) log.info(captured.body);
+		return;
+	}
+
+	const captures = funnelExtension.listCaptures(filter);
+	log.info(`Captured requests: ${captures.length}`);
+	for (const c of captures) {
+		log.info(
+			`  - ${c.id} ${new Date(c.time).toISOString()} ${c.method} ${c.url} ${c.status} ${c.bodyBytes}B ${Math.round(c.durationMs)}ms [${c.route}]`,
+		);
+	}
+	if (captures.length === 0 && ![...funnels.values()].some((f) => f.capturing)) {
+		log.info("  No route captures requests; expose one with --capture (or capture: true)");
+	}
+}
+
+const TOKEN_USAGE =
+	"Usage: wopr funnel token <create <path> [--public-port=<port>] [--ttl=<30m|12h|7d>] [--label=<text>] | revoke <id> | list>";
+
+/** `wopr funnel token create|revoke|list` */
+async function handleTokenCommand(
+	log: WOPRPluginContext["log"],
+	action: string | undefined,
+	arg: string | undefined,
+	flags: string[],
+): Promise<void> {
+	if (action === "create" && arg) {
+		const ttl = flagValue(flags, "ttl");
+		const ttlMs = ttl === undefined ? undefined : parseDuration(ttl);
+		if (ttlMs === null) {
+			log.error(`Invalid --ttl: ${ttl}`);
+			return;
+		}
+		const publicPort = publicPortFlag(flags);
+		const result = await funnelExtension.createToken(arg, {
+			publicPort: publicPort === "auto" ? undefined : publicPort,
+			ttlMs,
+			label: flagValue(flags, "label"),
+		});
+		if (!result.ok) {
+			logFunnelError(log, "Failed to create token", result.error);
+			return;
+		}
+		const expires = result.expiresAt ? new Date(result.expiresAt).toISOString() : "never";
+		if (result.token) {
+			log.info(`Token ${result.id} (expires ${expires}); it is not shown again:`);
+			log.info(`  ${result.token}`);
+		} else {
+			log.info(`Signed URL ${result.id} (expires ${expires}):`);
+			log.info(`  ${result.url}`);
+		}
+		return;
+	}
+
+	if (action === "revoke" && arg) {
+		if (await funnelExtension.revokeToken(arg)) {
+			log.info(`Revoked ${arg}`);
+		} else {
+			logFunnelError(
+				log,
+				"Failed to revoke token",
+				funnelError("token-not-found", `No token with id ${arg}`),
+			);
+		}
+		return;
+	}
+
+	if (action === "list") {
+		pruneExpiredTokens(tokenStore);
+		log.info(`Issued tokens: ${tokenStore.tokens.length}`);
+		for (const token of tokenStore.tokens) {
+			const expires = token.expiresAt ? new Date(token.expiresAt).toISOString() : "never";
+			const label = token.label ? ` "${token.label}"` : "";
+			log.info(`  - ${token.id} ${token.kind} for ${token.route}${label} (expires ${expires})`);
+		}
+		return;
+	}
+
+	log.error(TOKEN_USAGE);
+}
+
 const manifest: PluginManifest = {
 	name: "@wopr-network/wopr-plugin-tailscale-funnel",
 	version: "1.0.0",
@@ -314,6 +2816,7 @@ const manifest: PluginManifest = {
 	capabilities: ["utility"],
 	requires: {
 		bins: ["tailscale"],
+		storage: { persistent: true },
 		network: {
 			outbound: true,
 			inbound: true,
@@ -324,7 +2827,7 @@ const manifest: PluginManifest = {
 
 const configSchema: ConfigSchema = {
 	title: "Tailscale Funnel",
-	description: "Expose a local service to the internet via Tailscale Funnel (one port at a time)",
+	description: "Expose local services to the internet via Tailscale Funnel",
 	fields: [
 		{
 			name: "enabled",
@@ -336,16 +2839,106 @@ const configSchema: ConfigSchema = {
 		{
 			name: "expose",
 			type: "object",
-			label: "Auto-expose port",
-			description: "Port to automatically expose on startup (only one supported)",
+			label: "Auto-expose ports",
+			description:
+				"Port (or list of ports) to automatically expose on startup, each under its own path and optional public port (443, 8443, 10000), auth, webhook verification, health check and fallback",
 		},
 		{
 			name: "pollIntervalSeconds",
 			type: "number",
-			label: "Hostname poll interval",
-			description: "How often (in seconds) to check for hostname changes. 0 to disable.",
+			label: "Backend poll interval",
+			description:
+				"How often (in seconds) to check tailscaled for state and hostname changes. 0 to disable.",
 			default: 60,
 		},
+		{
+			name: "startupGraceMs",
+			type: "number",
+			label: "Startup check window",
+			description:
+				"How long (ms) expose waits for tailscale to apply a mount before reporting success",
+			default: 10000,
+		},
+		{
+			name: "accessLogSize",
+			type: "number",
+			label: "Access log size",
+			description:
+				"How many recent proxied requests 'wopr funnel logs' keeps in memory (0 turns the log off)",
+			default: DEFAULT_ACCESS_LOG_SIZE,
+		},
+		{
+			name: "agent",
+			type: "object",
+			label: "Agent permissions",
+			description:
+				"Routes A2A agents may expose with funnel_expose ({ allow: [{ port, path, publicPort, exposure }], maxTtlSeconds })",
+		},
+		{
+			name: "schedules",
+			type: "array",
+			label: "Scheduled exposures",
+			description:
+				'Ports exposed only while a cron expression matches, e.g. { "port": 8080, "path": "/status", "schedule": "* 9-16 * * 1-5" }',
+		},
+		{
+			name: "expiryWarningSeconds",
+			type: "number",
+			label: "Expiry warning",
+			description:
+				"Emit funnel:lease-expiring this many seconds before a time-boxed exposure ends (0 turns it off)",
+			default: 300,
+		},
+		{
+			name: "audit",
+			type: "object",
+			label: "Audit log",
+			description:
+				"How long exposure changes are kept in audit.jsonl ({ retentionDays, maxEntries }; default 90 days, 10000 entries)",
+		},
+		{
+			name: "metrics",
+			type: "object",
+			label: "Metrics endpoint",
+			description:
+				"Serve Prometheus/OpenMetrics metrics on a local port ({ enabled, port, host, path }; default 127.0.0.1:9464/metrics)",
+		},
+		{
+			name: "proxy",
+			type: "object",
+			label: "Local reverse proxy",
+			description:
+				"Serve routes through a built-in loopback proxy ({ enabled, port }) for prefix stripping and header rewrites",
+		},
+		{
+			name: "staticRoots",
+			type: "array",
+			label: "Static directory roots",
+			description:
+				"Directories exposeDirectory may publish from, including subdirectories (default: public/ in the plugin data directory). Roots holding the plugin data directory are refused",
+		},
+		{
+			name: "adoptForeignFunnels",
+			type: "boolean",
+			label: "Adopt foreign funnels",
+			description:
+				"Manage funnel routes found in the Tailscale serve config that WOPR did not create, instead of only reporting them",
+			default: false,
+		},
+		{
+			name: "restart",
+			type: "object",
+			label: "Funnel restart policy",
+			description:
+				"Backoff for retrying funnel mount commands that fail, including re-mounts of routes missing from the serve config ({ maxRestarts, initialDelayMs, maxDelayMs })",
+		},
+		{
+			name: "localApi",
+			type: "object",
+			label: "tailscaled LocalAPI",
+			description:
+				"Query tailscaled over its unix socket instead of the CLI ({ enabled, socketPath }); the CLI remains the fallback",
+		},
 	],
 };
 
@@ -359,65 +2952,156 @@ const plugin: WOPRPlugin = {
 		{
 			name: "funnel",
 			description: "Tailscale Funnel management",
-			usage: "wopr funnel <status|expose|unexpose> [port]",
-			async handler(cmdCtx, args) {
-				const [subcommand, portArg] = args;
+			usage:
+				"wopr funnel <status|expose|unexpose|token|logs|inspect|audit> [port] [path] [--public-port=<443|8443|10000|auto>] [--protocol=<http|https-insecure|tcp|tls-terminated-tcp>] [--auth=<bearer|signed>] [--capture] [--tailnet] [--wait] [--retry] [--ephemeral] [--for=<duration>]",
+			async handler(cmdCtx, rawArgs) {
+				const args = joinFlagValues(rawArgs, ["for"]);
+				const flags = args.filter((arg) => arg.startsWith("--"));
+				const [subcommand, portArg, pathArg] = args.filter((arg) => !arg.startsWith("--"));
 
 				if (subcommand === "status") {
 					const status = funnelExtension.getStatus();
 					if (!status.available) {
 						cmdCtx.log.info("Tailscale Funnel: not available");
-						cmdCtx.log.info("  Make sure Tailscale is installed and running");
+						if (status.error) {
+							cmdCtx.log.info(`  ${status.error.message} [${status.error.code}]`);
+							cmdCtx.log.info(`  Hint: ${status.error.hint}`);
+						} else {
+							cmdCtx.log.info("  Make sure Tailscale is installed and running");
+						}
 						return;
 					}
 					cmdCtx.log.info(`Tailscale Funnel: available`);
 					cmdCtx.log.info(`  Hostname: ${status.hostname}`);
-					cmdCtx.log.info(`  Active funnels: ${status.funnels.length}`);
+					const tailnetOnly = status.funnels.filter((f) => f.exposure === "tailnet").length;
+					cmdCtx.log.info(
+						`  Active funnels: ${status.funnels.length - tailnetOnly} public, ${tailnetOnly} tailnet-only`,
+					);
 					for (const f of status.funnels) {
-						cmdCtx.log.info(`    - ${f.publicUrl} -> localhost:${f.port}`);
+						const visibility = f.exposure === "tailnet" ? " (tailnet)" : " (public)";
+						const protocol = f.protocol && f.protocol !== "http" ? ` [${f.protocol}]` : "";
+						const auth = f.auth ? ` [auth: ${f.auth}]` : "";
+						const verify = f.verify ? ` [verify: ${f.verify}]` : "";
+						const restricted = f.restricted ? " [restricted]" : "";
+						const capturing = f.capturing ? " [capturing]" : "";
+						const via = f.proxied ? " (via proxy)" : "";
+						const owners = f.owners?.length ? ` [${f.owners.join(", ")}]` : "";
+						const restarts = f.restarts ? ` [${f.restarts} restarts]` : "";
+						const expires =
+							f.expiresAt !== undefined
+								? ` [expires in ${formatDuration(Math.max(0, f.expiresAt - Date.now()))}]`
+								: "";
+						const health =
+							f.health?.status !== "unhealthy"
+								? ""
+								: f.fallbackActive
+									? " [unhealthy, on fallback]"
+									: " [unhealthy]";
+						const state = f.active ? "" : " (inactive)";
+						cmdCtx.log.info(
+							`    - ${f.path} ${f.publicUrl} -> ${describeTarget(f)}${visibility}${protocol}${auth}${verify}${restricted}${capturing}${via}${owners}${restarts}${expires}${health}${state}`,
+						);
+						if (!f.active && f.lastError) {
+							cmdCtx.log.info(`      ${f.lastError.message} (hint: ${f.lastError.hint})`);
+						}
+						if (f.health?.status === "unhealthy" && f.health.lastError) {
+							cmdCtx.log.info(`      Health check: ${f.health.lastError}`);
+						}
 					}
 					return;
 				}
 
 				if (subcommand === "expose") {
 					if (!portArg) {
-						cmdCtx.log.error("Usage: wopr funnel expose <port>");
+						cmdCtx.log.error(
+							"Usage: wopr funnel expose <port> [path] [--public-port=<443|8443|10000|auto>] [--protocol=<http|https-insecure|tcp|tls-terminated-tcp>] [--auth=<bearer|signed>] [--capture] [--tailnet] [--wait] [--retry] [--ephemeral] [--for=<duration>]",
+						);
 						return;
 					}
-					const port = parseInt(portArg, 10);
-					if (Number.isNaN(port)) {
-						cmdCtx.log.error("Invalid port number");
+					const port = Number(portArg);
+					const wait = flags.includes("--wait");
+					const forText = flagValue(flags, "for");
+					const ttlMs = forText === undefined ? undefined : parseDuration(forText);
+					if (ttlMs === null) {
+						cmdCtx.log.error(`Invalid duration: ${forText} (use e.g. 90s, 30m, 12h or 7d)`);
 						return;
 					}
-					const url = await funnelExtension.expose(port);
-					if (url) {
-						cmdCtx.log.info(`Exposed: ${url} -> localhost:${port}`);
+					const options = {
+						path: pathArg,
+						publicPort: publicPortFlag(flags),
+						exposure: flags.includes("--tailnet") ? ("tailnet" as const) : undefined,
+						protocol: flagValue(flags, "protocol") as FunnelProtocol | undefined,
+						auth: authFlag(flags),
+						capture: flags.includes("--capture") || undefined,
+						retry: flags.includes("--retry") || undefined,
+						owner: "cli",
+						ephemeral: flags.includes("--ephemeral"),
+						ttlMs,
+					};
+					const result = wait
+						? await funnelExtension.exposeReady(port, options)
+						: await funnelExtension.expose(port, options);
+					if (result.ok) {
+						const label = wait ? "Exposed and reachable" : "Exposed";
+						const until = ttlMs === undefined ? "" : ` for ${formatDuration(ttlMs)}`;
+						cmdCtx.log.info(`${label}: ${result.url} -> localhost:${port}${until}`);
 					} else {
-						cmdCtx.log.error("Failed to expose port");
+						logFunnelError(cmdCtx.log, "Failed to expose port", result.error);
 					}
 					return;
 				}
 
 				if (subcommand === "unexpose") {
 					if (!portArg) {
-						cmdCtx.log.error("Usage: wopr funnel unexpose <port>");
-						return;
-					}
-					const port = parseInt(portArg, 10);
-					if (Number.isNaN(port)) {
-						cmdCtx.log.error("Invalid port number");
+						cmdCtx.log.error(
+							"Usage: wopr funnel unexpose <port> [path] | <path> [--public-port=<port>]",
+						);
 						return;
 					}
-					const success = await funnelExtension.unexpose(port);
-					if (success) {
-						cmdCtx.log.info(`Stopped funnel for port ${port}`);
+					// A bare path names a directory or text route (port 0)
+					const staticPath = portArg.startsWith("/") ? portArg : undefined;
+					const port = staticPath ? 0 : Number(portArg);
+					const path = staticPath ?? pathArg;
+					const publicPort = publicPortFlag(flags);
+					// The operator can remove routes whoever holds them
+					const result = await stopFunnel(port, {
+						path,
+						publicPort: publicPort === "auto" ? undefined : publicPort,
+						owner: "cli",
+						force: true,
+					});
+					if (result.ok) {
+						const target = staticPath ? "" : ` for port ${port}`;
+						cmdCtx.log.info(`Stopped funnel${target}${path ? ` on ${path}` : ""}`);
 					} else {
-						cmdCtx.log.error("Failed to stop funnel");
+						logFunnelError(cmdCtx.log, "Failed to stop funnel", result.error);
 					}
 					return;
 				}
 
-				cmdCtx.log.info("Usage: wopr funnel <status|expose|unexpose> [port]");
+				if (subcommand === "token") {
+					await handleTokenCommand(cmdCtx.log, portArg, pathArg, flags);
+					return;
+				}
+
+				if (subcommand === "logs") {
+					await handleLogsCommand(cmdCtx.log, flags);
+					return;
+				}
+
+				if (subcommand === "inspect") {
+					await handleInspectCommand(cmdCtx.log, portArg, pathArg, flags);
+					return;
+				}
+
+				if (subcommand === "audit") {
+					handleAuditCommand(cmdCtx.log, flags);
+					return;
+				}
+
+				cmdCtx.log.info(
+					"Usage: wopr funnel <status|expose|unexpose|token|logs|inspect|audit> [port] [path]",
+				);
 			},
 		},
 	],
@@ -432,18 +3116,25 @@ const plugin: WOPRPlugin = {
 			return;
 		}
 
-		// Check availability first
-		const isAvailable = await checkTailscaleAvailable();
-		if (!isAvailable) {
-			ctx.log.warn("Tailscale Funnel not available - install Tailscale and run 'tailscale up'");
-			// Don't register extension if Tailscale isn't available
-			return;
-		}
-
-		// Register extension only after confirming Tailscale is available
-		ctx.registerExtension("funnel", funnelExtension);
+		proxyConfig = config?.proxy ?? {};
+		adoptForeignFunnels = config?.adoptForeignFunnels === true;
+		restartPolicy = config?.restart ?? {};
+		pluginDir = typeof ctx.getPluginDir === "function" ? ctx.getPluginDir() : null;
+		staticRoots = config?.staticRoots ?? (pluginDir ? [join(pluginDir, "public")] : []);
+		startupGraceMs = config?.startupGraceMs ?? DEFAULT_STARTUP_GRACE_MS;
+		resetAccessLog(config?.accessLogSize);
+		agentRules = (config?.agent?.allow ?? []).map((rule) =>
+			rule.path === undefined ? rule : { ...rule, path: normalizePath(rule.path) },
+		);
+		agentMaxTtlSeconds = config?.agent?.maxTtlSeconds ?? DEFAULT_AGENT_MAX_TTL_SECONDS;
+		tailscale = createTailscaleClient({
+			localApi: config?.localApi?.enabled,
+			socketPath: config?.localApi?.socketPath,
+		});
 
-		// Register WebMCP A2A tools (read-only)
+		// Register WebMCP A2A tools. These stay registered while Tailscale is
+		// down so they can report why. Tools that change routes are only
+		// offered when config.agent allows some.
 		if (typeof ctx.registerA2AServer === "function") {
 			ctx.registerA2AServer({
 				name: "wopr-plugin-tailscale-funnel",
@@ -485,15 +3176,34 @@ const plugin: WOPRPlugin = {
 								{
 									type: "text" as const,
 									text: JSON.stringify(
-										buildNodeStatusResponse(getTailscaleStatusJson(), available ?? false, hostname),
+										buildNodeStatusResponse(
+											await getTailscaleStatusJson(),
+											available ?? false,
+											hostname,
+										),
 									),
 								},
 							],
 						}),
 					},
+					{
+						name: "funnel_security",
+						description:
+							"Get Tailscale Funnel security: IP rules, rate limits and blocked traffic per route.",
+						inputSchema: { type: "object" as const, properties: {} },
+						handler: async () => ({
+							content: [
+								{
+									type: "text" as const,
+									text: JSON.stringify(buildSecurityResponse(getSecurityReports(), getStats())),
+								},
+							],
+						}),
+					},
 					{
 						name: "funnel_stats",
-						description: "Get Tailscale Funnel plugin statistics: funnels started/stopped, uptime.",
+						description:
+							"Get Tailscale Funnel plugin statistics: funnels started/stopped, per-route traffic, uptime.",
 						inputSchema: { type: "object" as const, properties: {} },
 						handler: async () => ({
 							content: [
@@ -504,51 +3214,228 @@ const plugin: WOPRPlugin = {
 							],
 						}),
 					},
+					{
+						name: "funnel_audit",
+						description:
+							"Get recent Tailscale Funnel exposure changes: who exposed or released which route, and the outcome.",
+						inputSchema: {
+							type: "object" as const,
+							properties: {
+								limit: {
+									type: "number",
+									description: "Most recent entries to return (default: 50)",
+								},
+								actor: { type: "string", description: 'Only changes by this actor, e.g. "cli"' },
+								port: { type: "number", description: "Only changes to this local port" },
+								sinceSeconds: { type: "number", description: "Only changes in the last N seconds" },
+							},
+						},
+						handler: async (args: AuditToolArgs = {}) => ({
+							content: [
+								{
+									type: "text" as const,
+									text: JSON.stringify(buildAuditResponse(getAuditLog(auditToolQuery(args)))),
+								},
+							],
+						}),
+					},
+					...(agentRules.length === 0
+						? []
+						: [
+								{
+									name: "funnel_expose",
+									description:
+										"Expose an allowlisted local port through Tailscale Funnel for ttlSeconds; returns the public URL.",
+									inputSchema: {
+										type: "object" as const,
+										properties: {
+											...AGENT_ROUTE_PROPERTIES,
+											exposure: {
+												type: "string",
+												description: '"public" (internet) or "tailnet" (default: "public")',
+											},
+											ttlSeconds: {
+												type: "number",
+												description: `How long the route stays up (at most ${agentMaxTtlSeconds})`,
+											},
+										},
+										required: ["port", "ttlSeconds"],
+									},
+									handler: async (args: AgentToolArgs) => ({
+										content: [
+											{ type: "text" as const, text: JSON.stringify(await agentExpose(args)) },
+										],
+									}),
+								},
+								{
+									name: "funnel_unexpose",
+									description:
+										"Stop a route exposed with funnel_expose. Routes held by others stay up.",
+									inputSchema: {
+										type: "object" as const,
+										properties: AGENT_ROUTE_PROPERTIES,
+										required: ["port"],
+									},
+									handler: async (args: AgentToolArgs) => ({
+										content: [
+											{ type: "text" as const, text: JSON.stringify(await agentUnexpose(args)) },
+										],
+									}),
+								},
+								{
+									name: "funnel_extend_lease",
+									description:
+										"Keep a route exposed with funnel_expose up for another ttlSeconds from now.",
+									inputSchema: {
+										type: "object" as const,
+										properties: {
+											...AGENT_ROUTE_PROPERTIES,
+											ttlSeconds: {
+												type: "number",
+												description: `New lifetime from now (at most ${agentMaxTtlSeconds})`,
+											},
+										},
+										required: ["port", "ttlSeconds"],
+									},
+									handler: async (args: AgentToolArgs) => ({
+										content: [
+											{ type: "text" as const, text: JSON.stringify(await agentExtendLease(args)) },
+										],
+									}),
+								},
+							]),
 				],
 			});
 		}
 
-		// Auto-expose configured port (only one supported by Tailscale)
-		if (config?.expose) {
-			// Support both old array format (use first item) and new object format
-			const exposeConfig = Array.isArray(config.expose) ? config.expose[0] : config.expose;
-			if (exposeConfig?.port) {
-				const url = await startFunnel(exposeConfig.port, exposeConfig.path);
-				if (url) {
-					ctx.log.info(`Auto-exposed: ${url}`);
-				}
+		// Like the A2A tools, metrics are served while Tailscale is down
+		if (config?.metrics?.enabled) {
+			try {
+				metricsServer = await startMetricsServer(
+					() => funnelExtension.getMetrics(),
+					config.metrics,
+				);
+				ctx.log.info(
+					`Metrics available at http://${config.metrics.host ?? "127.0.0.1"}:${metricsServer.port}${config.metrics.path ?? DEFAULT_METRICS_PATH}`,
+				);
+			} catch (err) {
+				ctx.log.warn(`Metrics endpoint could not start: ${err}`);
 			}
 		}
 
-		// Start hostname polling
+		const exposeConfigs = Array.isArray(config?.expose) ? config.expose : [config?.expose];
+		// Configured routes come back from config, so they are never persisted
+		configuredExposures = exposeConfigs
+			.filter((entry): entry is FunnelExpose => Boolean(entry?.port))
+			.map((entry) => ({ ...entry, owner: "config", ephemeral: true }));
+		loadSchedules(Array.isArray(config?.schedules) ? config.schedules : []);
+		expiryWarningMs =
+			config?.expiryWarningSeconds === undefined
+				? DEFAULT_EXPIRY_WARNING_MS
+				: config.expiryWarningSeconds * 1000;
+
+		if (typeof ctx.getPluginDir === "function") {
+			exposuresFile = join(ctx.getPluginDir(), "exposures.json");
+			restoredExposures = await loadExposures(exposuresFile);
+			tokensFile = join(ctx.getPluginDir(), "tokens.json");
+			tokenStore = await loadTokenStore(tokensFile);
+		}
+		await openAuditLog(
+			typeof ctx.getPluginDir === "function" ? join(ctx.getPluginDir(), "audit.jsonl") : null,
+			config?.audit,
+		);
+
+		// Plugins that finish loading claim the leases restored for them
+		unsubscribePluginEvents =
+			ctx.events?.on?.("plugin:afterInit", (payload) => onPluginLoaded(payload)) ?? null;
+
+		// The extension is only registered while Tailscale is usable; the
+		// backend watcher registers it once tailscaled comes up
+		if (await checkTailscaleAvailable()) {
+			registerFunnelExtension();
+
+			// Pick up routes left over from a crash or created outside WOPR
+			await reconcileFunnels();
+
+			// Auto-expose configured ports, each mounted under its own path,
+			// then the runtime exposures from the previous run
+			await exposeEntries(configuredExposures, "Auto-exposed");
+			await restoreExposures();
+			await applySchedules();
+		} else {
+			ctx.log.warn(
+				"Tailscale Funnel not available - install Tailscale and run 'tailscale up'; waiting for it to come up",
+			);
+		}
+
+		// Watch for BackendState transitions and hostname changes
 		const pollSeconds = config?.pollIntervalSeconds ?? 60;
 		if (pollSeconds > 0) {
 			pollTimer = setInterval(() => {
-				pollHostname().catch((err) => {
-					ctx?.log.error(`Hostname poll error: ${err}`);
-				});
+				watchBackendState()
+					.then(() => reconcileFunnels())
+					.catch((err) => {
+						ctx?.log.error(`Backend state poll error: ${err}`);
+					});
 			}, pollSeconds * 1000);
-			ctx.log.debug?.(`Hostname polling every ${pollSeconds}s`);
+			ctx.log.debug?.(`Backend state polling every ${pollSeconds}s`);
 		}
+		if (scheduledExposures.length > 0) scheduleNextCheck();
 
 		ctx.log.info("Tailscale Funnel plugin initialized");
 	},
 
 	async shutdown() {
-		// Stop hostname polling
+		// Stop the backend watcher
 		if (pollTimer) {
 			clearInterval(pollTimer);
 			pollTimer = null;
 		}
-		hostnameChangeCallbacks.length = 0;
-
-		// Stop active funnel if any
-		if (activeFunnel) {
-			await stopFunnel(activeFunnel.port);
+		if (scheduleTimer) {
+			clearTimeout(scheduleTimer);
+			scheduleTimer = null;
 		}
+		hostnameChangeCallbacks.length = 0;
+		configuredExposures = [];
+		scheduledExposures = [];
+		expiryWarningMs = DEFAULT_EXPIRY_WARNING_MS;
+		backendState = null;
+
+		// Stop every mounted route, keeping the persisted exposures for next start
+		exposuresFile = null;
+		tokensFile = null;
+		await stopAllFunnels();
+		await saving;
+		await closeAuditLog();
+		restoredExposures = [];
+		tokenStore = createTokenStore();
+		await stopProxies();
+		await metricsServer?.close();
+		metricsServer = null;
+		proxyConfig = {};
+		adoptForeignFunnels = false;
+		reportedForeign.clear();
+		routeSecurity.clear();
+		resetInspector();
+		restartPolicy = {};
+		staticRoots = [];
+		pluginDir = null;
+		if (reclaimTimer) clearTimeout(reclaimTimer);
+		reclaimTimer = null;
+		loadedOwners.clear();
+		unsubscribePluginEvents?.();
+		unsubscribePluginEvents = null;
+		startupGraceMs = DEFAULT_STARTUP_GRACE_MS;
+		agentRules = [];
+		agentMaxTtlSeconds = DEFAULT_AGENT_MAX_TTL_SECONDS;
+		for (const stop of [...logFollowers]) stop();
+		resetAccessLog();
+		unavailableError = null;
+		tailscale = createTailscaleClient();
 
 		ctx?.unregisterConfigSchema("wopr-plugin-tailscale-funnel");
 		ctx?.unregisterExtension("funnel");
+		extensionRegistered = false;
 		ctx = null;
 		hostname = null;
 		available = null;
@@ -557,4 +3444,33 @@ const plugin: WOPRPlugin = {
 };
 
 export default plugin;
-export type { FunnelExtension, FunnelStatus, FunnelInfo, HostnameChangeCallback };
+export type {
+	CapturedRequest,
+	CreateTokenOptions,
+	ExposeOptions,
+	ExposeReadyOptions,
+	ExposeResult,
+	ExposeStaticOptions,
+	FunnelAuth,
+	FunnelCapture,
+	FunnelError,
+	FunnelErrorCode,
+	FunnelExposure,
+	FunnelExtension,
+	FunnelFallback,
+	FunnelHealth,
+	FunnelHealthCheck,
+	FunnelInfo,
+	FunnelLease,
+	FunnelProtocol,
+	FunnelRateLimit,
+	FunnelStatus,
+	FunnelUnhealthyAction,
+	FunnelVerify,
+	HostnameChangeCallback,
+	ReplayResult,
+	TokenResult,
+	UnexposeOptions,
+	UnexposeResult,
+	WebhookPreset,
+};
@@ -0,0 +1,214 @@
+// src/inspector.ts
+
+import { randomBytes } from "node:crypto";
+import { type IncomingHttpHeaders, request } from "node:http";
+import { SIGNED_URL_PARAMS } from "./auth.js";
+import { funnelError, type ReplayResult } from "./errors.js";
+import { buildUpstreamHeaders, type ProxyCapture, type ProxyRoute, rewritePath } from "./proxy.js";
+import type { CapturedRequest, FunnelCapture } from "./types.js";
+
+export const REDACTED = "[redacted]";
+
+export const DEFAULT_CAPTURE_REQUESTS = 50;
+export const DEFAULT_CAPTURE_BODY_BYTES = 64 * 1024;
+
+const REPLAY_TIMEOUT_MS = 30000;
+const MAX_REPLAY_RESPONSE_BYTES = 64 * 1024;
+
+// Headers that carry credentials or signatures, by name or by what they contain
+const SENSITIVE_HEADERS = new Set(["authorization", "proxy-authorization", "cookie", "set-cookie"]);
+const SENSITIVE_PATTERN = /auth|token|secret|signature|password|api-?key|session/i;
+const SENSITIVE_PARAMS = new Set<string>([
+	SIGNED_URL_PARAMS.id,
+	SIGNED_URL_PARAMS.signature,
+	"token",
+	"access_token",
+	"api_key",
+	"apikey",
+	"key",
+	"secret",
+	"signature",
+	"sig",
+]);
+
+// Captures per route key, oldest first
+let captures = new Map<string, CapturedRequest[]>();
+
+export function isSensitiveHeader(name: string): boolean {
+	return SENSITIVE_HEADERS.has(name.toLowerCase()) || SENSITIVE_PATTERN.test(name);
+}
+
+export function redactHeaders(headers: IncomingHttpHeaders): Record<string, string | string[]> {
+	const redacted: Record<string, string | string[]> = {};
+	for (const [name, value] of Object.entries(headers)) {
+		if (value === undefined) continue;
+		redacted[name] = isSensitiveHeader(name) ? REDACTED : value;
+	}
+	return redacted;
+}
+
+/** Redact token and signature query parameters, keeping the rest of the URL as sent */
+export function redactUrl(url: string): string {
+	const query = url.indexOf("?");
+	if (query === -1) return url;
+	const params = url
+		.slice(query + 1)
+		.split("&")
+		.map((param) => {
+			const name = param.split("=")[0] ?? "";
+			return SENSITIVE_PARAMS.has(decodeParamName(name)) ? `${name}=${REDACTED}` : param;
+		});
+	return `${url.slice(0, query)}?${params.join("&")}`;
+}
+
+/** Lower-cased parameter name; a malformed escape (e.g. "%zz") is compared as sent */
+function decodeParamName(name: string): string {
+	try {
+		return decodeURIComponent(name).toLowerCase();
+	} catch {
+		return name.toLowerCase();
+	}
+}
+
+function encodeBody(body: Buffer): { body: string; bodyEncoding: "utf8" | "base64" } {
+	try {
+		return { body: new TextDecoder("utf-8", { fatal: true }).decode(body), bodyEncoding: "utf8" };
+	} catch {
+		return { body: body.toString("base64"), bodyEncoding: "base64" };
+	}
+}
+
+export function isValidCapture(capture: boolean | FunnelCapture): boolean {
+	if (typeof capture === "boolean") return true;
+	const positive = (value: number | undefined) =>
+		value === undefined || (Number.isInteger(value) && value > 0);
+	return positive(capture.maxRequests) && positive(capture.maxBodyBytes);
+}
+
+/** Store a captured request for `route`, dropping the oldest beyond `maxRequests` */
+export function recordCapture(
+	route: string,
+	capture: ProxyCapture,
+	maxRequests: number = DEFAULT_CAPTURE_REQUESTS,
+): CapturedRequest {
+	const captured: CapturedRequest = {
+		id: `req_${randomBytes(6).toString("hex")}`,
+		route,
+		time: Date.now(),
+		method: capture.method,
+		url: redactUrl(capture.url),
+		headers: redactHeaders(capture.headers),
+		...encodeBody(capture.body),
+		bodyBytes: capture.bodyBytes,
+		truncated: capture.bodyBytes > capture.body.length,
+		status: capture.status,
+		durationMs: capture.durationMs,
+		client: capture.client,
+	};
+	const list = captures.get(route) ?? [];
+	list.push(captured);
+	if (list.length > maxRequests) list.splice(0, list.length - maxRequests);
+	captures.set(route, list);
+	return captured;
+}
+
+/** Captured requests, newest first (all routes, or one route key) */
+export function listCaptures(route?: string): CapturedRequest[] {
+	const lists = route === undefined ? [...captures.values()] : [captures.get(route) ?? []];
+	return lists.flat().sort((a, b) => b.time - a.time);
+}
+
+export function findCapture(id: string): CapturedRequest | null {
+	for (const list of captures.values()) {
+		const found = list.find((captured) => captured.id === id);
+		if (found) return found;
+	}
+	return null;
+}
+
+/** Drop the captures of one route key, or of every route; returns how many went */
+export function clearCaptures(route?: string): number {
+	if (route !== undefined) {
+		const dropped = captures.get(route)?.length ?? 0;
+		captures.delete(route);
+		return dropped;
+	}
+	const dropped = listCaptures().length;
+	captures = new Map();
+	return dropped;
+}
+
+/**
+ * Send a captured request to the route's local port again, with the route's
+ * rewrites applied. Redacted headers are left out, and the request is marked
+ * with `X-Wopr-Replay: <id>`.
+ */
+export function replayRequest(captured: CapturedRequest, route: ProxyRoute): Promise<ReplayResult> {
+	if (captured.truncated) {
+		return Promise.resolve({
+			ok: false,
+			error: funnelError(
+				"replay-failed",
+				`${captured.id} has a truncated body (${captured.bodyBytes} bytes); raise capture.maxBodyBytes to replay it`,
+			),
+		});
+	}
+
+	const sent: IncomingHttpHeaders = {};
+	for (const [name, value] of Object.entries(captured.headers)) {
+		if (value !== REDACTED) sent[name] = value;
+	}
+	const body = Buffer.from(captured.body, captured.bodyEncoding);
+	const headers = buildUpstreamHeaders(route, sent);
+	headers["content-length"] = String(body.length);
+	headers["x-wopr-replay"] = captured.id;
+
+	return new Promise((resolve) => {
+		const req = request(
+			{
+				host: "127.0.0.1",
+				port: route.port,
+				method: captured.method,
+				path: rewritePath(route, captured.url),
+				headers,
+				timeout: REPLAY_TIMEOUT_MS,
+			},
+			(res) => {
+				const chunks: Buffer[] = [];
+				let size = 0;
+				res.on("data", (chunk: Buffer) => {
+					if (size < MAX_REPLAY_RESPONSE_BYTES) chunks.push(chunk);
+					size += chunk.length;
+				});
+				res.on("error", (err) => req.emit("error", err));
+				res.on("end", () => {
+					const headers: Record<string, string | string[]> = {};
+					for (const [name, value] of Object.entries(res.headers)) {
+						if (value !== undefined) headers[name] = value;
+					}
+					resolve({
+						ok: true,
+						status: res.statusCode ?? 0,
+						headers,
+						body: Buffer.concat(chunks).subarray(0, MAX_REPLAY_RESPONSE_BYTES).toString("utf-8"),
+					});
+				});
+			},
+		);
+		req.on("timeout", () => req.destroy(new Error(`no response in ${REPLAY_TIMEOUT_MS}ms`)));
+		req.on("error", (err) => {
+			resolve({
+				ok: false,
+				error: funnelError(
+					"replay-failed",
+					`Replaying ${captured.id} to localhost:${route.port} failed: ${err.message}`,
+				),
+			});
+		});
+		req.end(body);
+	});
+}
+
+export function resetInspector(): void {
+	captures = new Map();
+}
@@ -0,0 +1,73 @@
+// src/localapi.ts
+
+import { request } from "node:http";
+
+/** Default tailscaled LocalAPI socket (named pipe on Windows) */
+export const DEFAULT_SOCKET_PATH =
+	process.platform === "win32"
+		? "\\\\.\\pipe\\ProtectedPrefix\\Administrators\\Tailscale\\tailscaled"
+		: "/var/run/tailscale/tailscaled.sock";
+
+/** LocalAPI requires this Host header; anything else is rejected */
+const LOCALAPI_HOST = "local-tailscaled.sock";
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+export interface LocalApiClient {
+	/** Equivalent of `tailscale status --json` */
+	getStatus(): Promise<string | null>;
+	/** Current serve config, including funnel (AllowFunnel) settings */
+	getServeConfig(): Promise<string | null>;
+}
+
+/**
+ * GET a LocalAPI endpoint over the tailscaled unix socket.
+ * Resolves to the response body, or null if the daemon is unreachable,
+ * answers with a non-2xx status or does not respond within the timeout.
+ */
+export function localApiGet(
+	socketPath: string,
+	path: string,
+	timeoutMs: number = DEFAULT_TIMEOUT_MS,
+): Promise<string | null> {
+	return new Promise((resolve) => {
+		const req = request(
+			{
+				socketPath,
+				path,
+				method: "GET",
+				headers: { Host: LOCALAPI_HOST },
+				timeout: timeoutMs,
+			},
+			(res) => {
+				let body = "";
+				res.setEncoding("utf-8");
+				res.on("data", (chunk: string) => {
+					body += chunk;
+				});
+				res.on("end", () => {
+					const ok = res.statusCode !== undefined && res.statusCode >= 200 && res.statusCode < 300;
+					resolve(ok ? body.trim() : null);
+				});
+				res.on("error", () => resolve(null));
+			},
+		);
+		req.on("timeout", () => req.destroy());
+		req.on("error", () => resolve(null));
+		req.end();
+	});
+}
+
+export function createLocalApiClient(
+	socketPath: string = DEFAULT_SOCKET_PATH,
+	timeoutMs: number = DEFAULT_TIMEOUT_MS,
+): LocalApiClient {
+	return {
+		getStatus() {
+			return localApiGet(socketPath, "/localapi/v0/status", timeoutMs);
+		},
+		getServeConfig() {
+			return localApiGet(socketPath, "/localapi/v0/serve-config", timeoutMs);
+		},
+	};
+}
@@ -0,0 +1,223 @@
+// src/metrics.ts
+
+import { createServer, type Server } from "node:http";
+import { type FunnelStats, STATUS_CHECK_BUCKETS_MS } from "./stats.js";
+import type { FunnelInfo } from "./types.js";
+
+export const OPENMETRICS_CONTENT_TYPE =
+	"application/openmetrics-text; version=1.0.0; charset=utf-8";
+
+export const DEFAULT_METRICS_PORT = 9464;
+export const DEFAULT_METRICS_PATH = "/metrics";
+
+/** Everything the exporter reports, read at scrape time */
+export interface MetricsSnapshot {
+	available: boolean;
+	hostname: string | null;
+	funnels: FunnelInfo[];
+	stats: Readonly<FunnelStats>;
+}
+
+export interface MetricsServer {
+	readonly port: number;
+	close(): Promise<void>;
+}
+
+export interface MetricsServerOptions {
+	/** Port to listen on (default: 9464) */
+	port?: number;
+	/** Interface to bind (default: 127.0.0.1) */
+	host?: string;
+	/** Path the metrics are served on (default: /metrics) */
+	path?: string;
+}
+
+type Labels = Record<string, string | number>;
+
+function escapeLabel(value: string): string {
+	return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels = {}): string {
+	const pairs = Object.entries(labels).map(
+		([name, value]) => `${name}="${escapeLabel(String(value))}"`,
+	);
+	return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+/** Accumulates metric families in OpenMetrics text format */
+function createWriter() {
+	const lines: string[] = [];
+	const writer = {
+		family(name: string, type: string, help: string, unit?: string) {
+			lines.push(`# TYPE ${name} ${type}`);
+			if (unit) lines.push(`# UNIT ${name} ${unit}`);
+			lines.push(`# HELP ${name} ${help}`);
+			return writer;
+		},
+		sample(name: string, value: number, labels?: Labels) {
+			lines.push(`${name}${formatLabels(labels)} ${Number.isFinite(value) ? value : "NaN"}`);
+			return writer;
+		},
+		text() {
+			return `${lines.join("\n")}\n# EOF\n`;
+		},
+	};
+	return writer;
+}
+
+function routeLabels(route: FunnelInfo): Labels {
+	return {
+		public_port: route.publicPort ?? 443,
+		path: route.path,
+		exposure: route.exposure ?? "public",
+		protocol: route.protocol ?? "http",
+	};
+}
+
+/**
+ * Render plugin health and traffic in OpenMetrics text format. Metric
+ * names are prefixed with `wopr_funnel_`; counters reset when WOPR restarts.
+ */
+export function renderMetrics(snapshot: MetricsSnapshot): string {
+	const { stats, funnels } = snapshot;
+	const out = createWriter();
+
+	out
+		.family("wopr_funnel_up", "gauge", "Whether Tailscale is available to the plugin")
+		.sample("wopr_funnel_up", snapshot.available ? 1 : 0);
+	if (snapshot.hostname) {
+		out
+			.family("wopr_funnel_node", "info", "Tailnet hostname of this node")
+			.sample("wopr_funnel_node_info", 1, { hostname: snapshot.hostname });
+	}
+	out
+		.family("wopr_funnel_start_time_seconds", "gauge", "When the plugin started (unix time)")
+		.sample("wopr_funnel_start_time_seconds", stats.startedAt / 1000);
+
+	out.family("wopr_funnel_active_routes", "gauge", "Active routes by exposure");
+	for (const exposure of ["public", "tailnet"]) {
+		const active = funnels.filter((f) => f.active && (f.exposure ?? "public") === exposure);
+		out.sample("wopr_funnel_active_routes", active.length, { exposure });
+	}
+
+	out.family("wopr_funnel_route_up", "gauge", "Whether each route's funnel is running");
+	for (const route of funnels) {
+		out.sample("wopr_funnel_route_up", route.active ? 1 : 0, routeLabels(route));
+	}
+	out.family("wopr_funnel_route_restarts", "gauge", "Restarts of each route's funnel process");
+	for (const route of funnels) {
+		out.sample("wopr_funnel_route_restarts", route.restarts ?? 0, routeLabels(route));
+	}
+
+	const counters: [string, number, string][] = [
+		["wopr_funnel_funnels_started", stats.funnelsStarted, "Funnel routes started"],
+		["wopr_funnel_funnels_stopped", stats.funnelsStopped, "Funnel routes stopped"],
+		["wopr_funnel_restarts", stats.funnelRestarts, "Funnel process restarts"],
+		["wopr_funnel_hostname_changes", stats.hostnameChanges, "Tailnet hostname changes"],
+		["wopr_funnel_status_checks", stats.statusChecks, "Status reads from tailscaled"],
+		["wopr_funnel_webhooks_verified", stats.webhooksVerified, "Webhooks with a valid signature"],
+		["wopr_funnel_webhooks_rejected", stats.webhooksRejected, "Webhooks rejected with 401"],
+		["wopr_funnel_requests_denied", stats.requestsDenied, "Requests denied by IP rules"],
+		["wopr_funnel_requests_rate_limited", stats.requestsRateLimited, "Requests rate-limited"],
+	];
+	for (const [name, value, help] of counters) {
+		out.family(name, "counter", help).sample(`${name}_total`, value);
+	}
+
+	const latency = stats.statusCheckLatency;
+	const histogram = "wopr_funnel_status_check_duration_seconds";
+	out.family(histogram, "histogram", "Time taken to read status from tailscaled", "seconds");
+	STATUS_CHECK_BUCKETS_MS.forEach((bound, i) => {
+		out.sample(`${histogram}_bucket`, latency.buckets[i] ?? 0, { le: bound / 1000 });
+	});
+	out
+		.sample(`${histogram}_bucket`, latency.count, { le: "+Inf" })
+		.sample(`${histogram}_sum`, latency.sumMs / 1000)
+		.sample(`${histogram}_count`, latency.count);
+
+	// Proxied traffic, keyed "<publicPort>:<path>" in stats
+	const traffic = Object.entries(stats.routes).map(([key, route]) => {
+		const split = key.indexOf(":");
+		return { labels: { public_port: key.slice(0, split), path: key.slice(split + 1) }, route };
+	});
+	out.family("wopr_funnel_route_requests", "counter", "Proxied requests by response status");
+	for (const { labels, route } of traffic) {
+		for (const [code, count] of Object.entries(route.statusCodes)) {
+			out.sample("wopr_funnel_route_requests_total", count, { ...labels, code });
+		}
+	}
+	out.family("wopr_funnel_route_received_bytes", "counter", "Proxied request body bytes", "bytes");
+	for (const { labels, route } of traffic) {
+		out.sample("wopr_funnel_route_received_bytes_total", route.bytesIn, labels);
+	}
+	out.family("wopr_funnel_route_sent_bytes", "counter", "Proxied response body bytes", "bytes");
+	for (const { labels, route } of traffic) {
+		out.sample("wopr_funnel_route_sent_bytes_total", route.bytesOut, labels);
+	}
+	out.family(
+		"wopr_funnel_route_latency_seconds",
+		"gauge",
+		"Proxied request latency percentiles over recent requests",
+		"seconds",
+	);
+	for (const { labels, route } of traffic) {
+		if (!route.latencyMs) continue;
+		for (const [quantile, ms] of [
+			["0.5", route.latencyMs.p50],
+			["0.9", route.latencyMs.p90],
+			["0.99", route.latencyMs.p99],
+		] as const) {
+			out.sample("wopr_funnel_route_latency_seconds", ms / 1000, { ...labels, quantile });
+		}
+	}
+
+	return out.text();
+}
+
+/**
+ * Serve `render()` on a local HTTP endpoint for Prometheus to scrape.
+ * Binds to loopback unless `host` says otherwise.
+ */
+export async function startMetricsServer(
+	render: () => string,
+	options: MetricsServerOptions = {},
+): Promise<MetricsServer> {
+	const path = options.path ?? DEFAULT_METRICS_PATH;
+	const server: Server = createServer((req, res) => {
+		if ((req.url ?? "/").split("?")[0] !== path) {
+			res.writeHead(404, { "content-type": "text/plain" });
+			res.end("Not found");
+			return;
+		}
+		if (req.method !== "GET" && req.method !== "HEAD") {
+			res.writeHead(405, { allow: "GET, HEAD" });
+			res.end();
+			return;
+		}
+		const body = render();
+		res.writeHead(200, { "content-type": OPENMETRICS_CONTENT_TYPE });
+		res.end(req.method === "HEAD" ? undefined : body);
+	});
+
+	await new Promise<void>((resolve, reject) => {
+		server.once("error", reject);
+		server.listen(options.port ?? DEFAULT_METRICS_PORT, options.host ?? "127.0.0.1", () => {
+			server.off("error", reject);
+			resolve();
+		});
+	});
+
+	const address = server.address();
+	const port = typeof address === "object" && address ? address.port : (options.port ?? 0);
+
+	return {
+		port,
+		close() {
+			return new Promise<void>((resolve) => {
+				server.closeAllConnections();
+				server.close(() => resolve());
+			});
+		},
+	};
+}
@@ -0,0 +1,67 @@
+// src/persistence.ts
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { FunnelExpose } from "./types.js";
+
+/**
+ * A lease on a route WOPR mounted. Runtime exposures are restored when WOPR
+ * restarts; ephemeral and expired ones are only recorded so a mount left
+ * behind by a crash can be turned off.
+ */
+export interface PersistedExposure extends FunnelExpose {
+	/** Directory served instead of a port (`port` is 0) */
+	directory?: string;
+	/** Text body served instead of a port (`port` is 0) */
+	text?: string;
+	/** Plugin (or "cli") that holds the lease */
+	owner?: string;
+	/** When the exposure was first requested (epoch ms) */
+	createdAt: number;
+	/** When the lease expires (epoch ms), if it has a TTL */
+	expiresAt?: number;
+	/** Not restored; its mount is turned off on the next start */
+	ephemeral?: boolean;
+}
+
+interface ExposureFile {
+	version: 1;
+	exposures: PersistedExposure[];
+}
+
+function isPersistedExposure(value: unknown): value is PersistedExposure {
+	const entry = value as PersistedExposure | null;
+	return (
+		typeof entry === "object" &&
+		entry !== null &&
+		Number.isInteger(entry.port) &&
+		(entry.path === undefined || typeof entry.path === "string") &&
+		typeof entry.createdAt === "number" &&
+		(entry.expiresAt === undefined || typeof entry.expiresAt === "number")
+	);
+}
+
+/**
+ * Read persisted exposures. A missing or unreadable file yields an empty
+ * list, and malformed entries are skipped, so a bad file never blocks init.
+ */
+export async function loadExposures(file: string): Promise<PersistedExposure[]> {
+	try {
+		const parsed = JSON.parse(await readFile(file, "utf-8")) as Partial<ExposureFile>;
+		return Array.isArray(parsed.exposures) ? parsed.exposures.filter(isPersistedExposure) : [];
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Write persisted exposures, replacing the file atomically. Route options
+ * carry auth credentials, so the file is only readable by its owner.
+ */
+export async function saveExposures(file: string, exposures: PersistedExposure[]): Promise<void> {
+	const body: ExposureFile = { version: 1, exposures };
+	const tmp = `${file}.tmp`;
+	await mkdir(dirname(file), { recursive: true });
+	await writeFile(tmp, `${JSON.stringify(body, null, 2)}\n`, { encoding: "utf-8", mode: 0o600 });
+	await rename(tmp, file);
+}
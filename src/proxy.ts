@@ -0,0 +1,490 @@
+// src/proxy.ts
+
+import {
+	createServer,
+	type IncomingHttpHeaders,
+	type IncomingMessage,
+	request,
+	type Server,
+	type ServerResponse,
+	STATUS_CODES,
+} from "node:http";
+import { connect, type Socket } from "node:net";
+import { clientIp } from "./security.js";
+
+/** Response sent instead of forwarding a request that a route's gate rejects */
+export interface ProxyDenial {
+	status: number;
+	headers?: Record<string, string>;
+	body: string;
+}
+
+/** Decide whether a request may reach the route's port; null lets it through */
+export type ProxyGate = (req: IncomingMessage) => ProxyDenial | null;
+
+/** Run gates in order; the first denial wins */
+export function chainGates(...gates: (ProxyGate | undefined)[]): ProxyGate | undefined {
+	const active = gates.filter((gate): gate is ProxyGate => gate !== undefined);
+	if (active.length <= 1) return active[0];
+	return (req) => {
+		for (const gate of active) {
+			const denial = gate(req);
+			if (denial) return denial;
+		}
+		return null;
+	};
+}
+
+/** Like ProxyGate, but also sees the raw request body (buffered by the proxy) */
+export type BodyVerifier = (req: IncomingMessage, body: Buffer) => ProxyDenial | null;
+
+/**
+ * A path-prefix route served by the local reverse proxy.
+ */
+export interface ProxyRoute {
+	/** Path prefix this route matches (normalized, e.g. "/api" or "/") */
+	path: string;
+	/** Local port traffic is forwarded to */
+	port: number;
+	/** Remove the route's path prefix before forwarding (default: false) */
+	stripPrefix?: boolean;
+	/** Extra headers injected into every forwarded request */
+	headers?: Record<string, string>;
+	/** Rewrite the Host header sent upstream (default: keep the public host) */
+	hostHeader?: string;
+	/** Checked before every request and upgrade, e.g. to enforce authentication */
+	gate?: ProxyGate;
+	/**
+	 * Checked against the buffered body before forwarding, e.g. to verify a
+	 * webhook signature. Upgrades are refused on routes that set it.
+	 */
+	verifyBody?: BodyVerifier;
+	/** Record every request on the route, with up to `maxBodyBytes` of its body */
+	capture?: { maxBodyBytes: number; onCapture: (request: ProxyCapture) => void };
+}
+
+/** A request on a capturing route, reported once it has been answered */
+export interface ProxyCapture {
+	method: string;
+	/** Path and query string as received */
+	url: string;
+	headers: IncomingHttpHeaders;
+	/** The first `maxBodyBytes` of the body */
+	body: Buffer;
+	/** Size of the whole body */
+	bodyBytes: number;
+	status: number;
+	durationMs: number;
+	client: string;
+}
+
+export interface ReverseProxy {
+	/** Port the proxy is listening on */
+	readonly port: number;
+	setRoute(route: ProxyRoute): void;
+	removeRoute(path: string): boolean;
+	getRoutes(): ProxyRoute[];
+	close(): Promise<void>;
+}
+
+/** One request (or WebSocket session) the proxy handled */
+export interface ProxyRequestInfo {
+	/** Path of the matched route, or null if no route matched */
+	route: string | null;
+	method: string;
+	/** Request path, without the query string (it may carry signed-URL tokens) */
+	path: string;
+	/** Response status; 101 for upgrades, 499 if the client went away first */
+	status: number;
+	/** Body bytes received and sent (for upgrades: bytes on the socket) */
+	bytesIn: number;
+	bytesOut: number;
+	/** Time to the last byte of the response (for upgrades: session length) */
+	durationMs: number;
+	/** Client address, as seen by the route's IP rules */
+	client: string;
+	upgrade?: boolean;
+}
+
+export interface ReverseProxyOptions {
+	/** Port to listen on (default: 0, an ephemeral port) */
+	port?: number;
+	/** Interface to bind (default: 127.0.0.1, never exposed directly) */
+	host?: string;
+	/** Called once every request or upgrade has been answered */
+	onRequest?: (info: ProxyRequestInfo) => void;
+	/** Called when a route's body verifier throws; the request is answered with 500 */
+	onError?: (error: unknown, route: string) => void;
+}
+
+const UPSTREAM_HOST = "127.0.0.1";
+
+// Bodies buffered for verifyBody are capped (GitHub's webhook payload limit)
+const MAX_VERIFIED_BODY_BYTES = 25 * 1024 * 1024;
+
+// Hop-by-hop headers must not be forwarded by a proxy (RFC 9110 §7.6.1)
+const HOP_BY_HOP = new Set([
+	"connection",
+	"keep-alive",
+	"proxy-authenticate",
+	"proxy-authorization",
+	"te",
+	"trailer",
+	"transfer-encoding",
+	"upgrade",
+]);
+
+/**
+ * Find the route with the longest path prefix matching `url`.
+ * A prefix only matches on a segment boundary: "/api" matches "/api",
+ * "/api/x" and "/api?q" but not "/apix".
+ */
+export function matchRoute<T extends { path: string }>(routes: Iterable<T>, url: string): T | null {
+	let best: T | null = null;
+	for (const route of routes) {
+		if (!pathMatches(route.path, url)) continue;
+		if (!best || route.path.length > best.path.length) best = route;
+	}
+	return best;
+}
+
+function pathMatches(prefix: string, url: string): boolean {
+	if (prefix === "/") return true;
+	if (!url.startsWith(prefix)) return false;
+	const next = url.charAt(prefix.length);
+	return next === "" || next === "/" || next === "?";
+}
+
+/**
+ * Path (with query string) to request upstream for `url` on `route`.
+ */
+export function rewritePath(route: ProxyRoute, url: string): string {
+	if (!route.stripPrefix || route.path === "/") return url;
+	const rest = url.slice(route.path.length);
+	return rest.startsWith("/") ? rest : `/${rest}`;
+}
+
+/**
+ * Headers to send upstream: hop-by-hop headers dropped, X-Forwarded-*
+ * added, route headers injected and Host optionally rewritten.
+ */
+export function buildUpstreamHeaders(
+	route: ProxyRoute,
+	incoming: IncomingHttpHeaders,
+	remoteAddress?: string,
+): IncomingHttpHeaders {
+	const headers: IncomingHttpHeaders = {};
+	for (const [name, value] of Object.entries(incoming)) {
+		if (!HOP_BY_HOP.has(name)) headers[name] = value;
+	}
+
+	if (incoming.host && !headers["x-forwarded-host"]) {
+		headers["x-forwarded-host"] = incoming.host;
+	}
+	if (remoteAddress && !headers["x-forwarded-for"]) {
+		headers["x-forwarded-for"] = remoteAddress;
+	}
+	if (route.stripPrefix && route.path !== "/") {
+		headers["x-forwarded-prefix"] = route.path;
+	}
+	for (const [name, value] of Object.entries(route.headers ?? {})) {
+		headers[name.toLowerCase()] = value;
+	}
+	if (route.hostHeader) {
+		headers.host = route.hostHeader;
+	}
+	return headers;
+}
+
+/** Count the body bytes written to a response, whichever path writes them */
+function countResponseBytes(res: ServerResponse): () => number {
+	let bytes = 0;
+	const count = (chunk: unknown) => {
+		if (typeof chunk === "string") bytes += Buffer.byteLength(chunk);
+		else if (chunk instanceof Uint8Array) bytes += chunk.length;
+	};
+	const write = res.write.bind(res) as (...args: unknown[]) => boolean;
+	const end = res.end.bind(res) as (...args: unknown[]) => ServerResponse;
+	res.write = ((chunk: unknown, ...rest: unknown[]) => {
+		count(chunk);
+		return write(chunk, ...rest);
+	}) as ServerResponse["write"];
+	res.end = ((chunk?: unknown, ...rest: unknown[]) => {
+		if (typeof chunk !== "function") count(chunk);
+		return end(chunk, ...rest);
+	}) as ServerResponse["end"];
+	return () => bytes;
+}
+
+/** Tee a request's body and report it once both the request and response are done */
+function captureRequest(
+	capture: NonNullable<ProxyRoute["capture"]>,
+	req: IncomingMessage,
+	res: ServerResponse,
+): void {
+	const started = performance.now();
+	const chunks: Buffer[] = [];
+	let bytes = 0;
+	req.on("data", (chunk: Buffer) => {
+		if (bytes < capture.maxBodyBytes) chunks.push(chunk.subarray(0, capture.maxBodyBytes - bytes));
+		bytes += chunk.length;
+	});
+
+	// A rejected request can still be uploading when its response is sent
+	let pending = 2;
+	const done = () => {
+		if (--pending > 0) return;
+		capture.onCapture({
+			method: req.method ?? "GET",
+			url: req.url ?? "/",
+			headers: { ...req.headers },
+			body: Buffer.concat(chunks),
+			bodyBytes: bytes,
+			status: res.writableFinished ? res.statusCode : 499,
+			durationMs: performance.now() - started,
+			client: clientIp(req),
+		});
+	};
+	req.once("close", done);
+	res.once("close", done);
+}
+
+function requestPath(url: string | undefined): string {
+	const path = url ?? "/";
+	const query = path.indexOf("?");
+	return query === -1 ? path : path.slice(0, query);
+}
+
+/** Read a request body, or resolve to null if it is larger than `limit` bytes */
+function readBody(req: IncomingMessage, limit: number): Promise<Buffer | null> {
+	return new Promise((resolve) => {
+		const chunks: Buffer[] = [];
+		let size = 0;
+		req.on("data", (chunk: Buffer) => {
+			size += chunk.length;
+			// Keep draining an oversized body so the response can still be sent
+			if (size <= limit) chunks.push(chunk);
+		});
+		req.on("end", () => resolve(size <= limit ? Buffer.concat(chunks) : null));
+		req.on("error", () => resolve(null));
+	});
+}
+
+function sendDenial(res: ServerResponse, denial: ProxyDenial): void {
+	res.writeHead(denial.status, { "content-type": "text/plain", ...denial.headers });
+	res.end(denial.body);
+}
+
+/** Forward a request upstream, streaming its body unless it was already buffered */
+function proxyRequest(
+	route: ProxyRoute,
+	req: IncomingMessage,
+	res: ServerResponse,
+	body?: Buffer,
+): void {
+	const headers = buildUpstreamHeaders(route, req.headers, req.socket.remoteAddress);
+	if (body) headers["content-length"] = String(body.length);
+	const upstream = request(
+		{
+			host: UPSTREAM_HOST,
+			port: route.port,
+			method: req.method,
+			path: rewritePath(route, req.url ?? "/"),
+			headers,
+		},
+		(upstreamRes) => {
+			res.writeHead(upstreamRes.statusCode ?? 502, upstreamRes.headers);
+			upstreamRes.pipe(res);
+		},
+	);
+
+	upstream.on("error", () => {
+		if (!res.headersSent) {
+			res.writeHead(502, { "content-type": "text/plain" });
+		}
+		res.end("Bad gateway");
+	});
+
+	if (body) upstream.end(body);
+	else req.pipe(upstream);
+}
+
+async function verifyAndProxy(
+	route: ProxyRoute,
+	verifyBody: BodyVerifier,
+	req: IncomingMessage,
+	res: ServerResponse,
+): Promise<void> {
+	const body = await readBody(req, MAX_VERIFIED_BODY_BYTES);
+	if (!body) {
+		sendDenial(res, { status: 413, body: "Request body too large to verify" });
+		return;
+	}
+	const denial = verifyBody(req, body);
+	if (denial) {
+		sendDenial(res, denial);
+		return;
+	}
+	proxyRequest(route, req, res, body);
+}
+
+function proxyUpgrade(
+	route: ProxyRoute,
+	req: IncomingMessage,
+	socket: Socket,
+	head: Buffer,
+	onError: () => void,
+): void {
+	const upstream = connect(route.port, UPSTREAM_HOST, () => {
+		// Replay the upgrade request verbatim (including Connection/Upgrade)
+		const headers = {
+			...buildUpstreamHeaders(route, req.headers, req.socket.remoteAddress),
+			connection: req.headers.connection,
+			upgrade: req.headers.upgrade,
+		};
+		let raw = `${req.method} ${rewritePath(route, req.url ?? "/")} HTTP/${req.httpVersion}\r\n`;
+		for (const [name, value] of Object.entries(headers)) {
+			if (value === undefined) continue;
+			for (const v of Array.isArray(value) ? value : [value]) {
+				raw += `${name}: ${v}\r\n`;
+			}
+		}
+		upstream.write(`${raw}\r\n`);
+		if (head.length > 0) upstream.write(head);
+		socket.pipe(upstream).pipe(socket);
+	});
+
+	upstream.on("error", () => {
+		onError();
+		socket.end("HTTP/1.1 502 Bad Gateway\r\nConnection: close\r\n\r\n");
+	});
+	socket.on("error", () => {
+		upstream.destroy();
+	});
+}
+
+/**
+ * Start the local HTTP/WebSocket reverse proxy. The funnel points at this
+ * single port and the proxy fans traffic out to local services by path.
+ */
+export async function startReverseProxy(options: ReverseProxyOptions = {}): Promise<ReverseProxy> {
+	const routes = new Map<string, ProxyRoute>();
+
+	const server: Server = createServer((req, res) => {
+		const route = matchRoute(routes.values(), req.url ?? "/");
+		if (options.onRequest) {
+			const onRequest = options.onRequest;
+			const started = performance.now();
+			const bytesOut = countResponseBytes(res);
+			let bytesIn = 0;
+			req.on("data", (chunk: Buffer) => {
+				bytesIn += chunk.length;
+			});
+			res.once("close", () => {
+				onRequest({
+					route: route?.path ?? null,
+					method: req.method ?? "GET",
+					path: requestPath(req.url),
+					status: res.writableFinished ? res.statusCode : 499,
+					bytesIn,
+					bytesOut: bytesOut(),
+					durationMs: performance.now() - started,
+					client: clientIp(req),
+				});
+			});
+		}
+		if (route?.capture) captureRequest(route.capture, req, res);
+		if (!route) {
+			res.writeHead(404, { "content-type": "text/plain" });
+			res.end("No funnel route for this path");
+			return;
+		}
+		const denial = route.gate?.(req);
+		if (denial) {
+			sendDenial(res, denial);
+			return;
+		}
+		if (route.verifyBody) {
+			verifyAndProxy(route, route.verifyBody, req, res).catch((err) => {
+				options.onError?.(err, route.path);
+				if (!res.headersSent) sendDenial(res, { status: 500, body: "Verification failed" });
+				else res.destroy();
+			});
+			return;
+		}
+		proxyRequest(route, req, res);
+	});
+
+	server.on("upgrade", (req: IncomingMessage, socket: Socket, head: Buffer) => {
+		const route = matchRoute(routes.values(), req.url ?? "/");
+		let status = 101;
+		if (options.onRequest) {
+			const onRequest = options.onRequest;
+			const started = performance.now();
+			socket.once("close", () => {
+				onRequest({
+					route: route?.path ?? null,
+					method: req.method ?? "GET",
+					path: requestPath(req.url),
+					status,
+					bytesIn: socket.bytesRead,
+					bytesOut: socket.bytesWritten,
+					durationMs: performance.now() - started,
+					client: clientIp(req),
+					upgrade: true,
+				});
+			});
+		}
+		if (!route) {
+			status = 404;
+			socket.end("HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n");
+			return;
+		}
+		const denial =
+			route.gate?.(req) ??
+			(route.verifyBody ? { status: 401, body: "Upgrades cannot be verified" } : null);
+		if (denial) {
+			status = denial.status;
+			let raw = `HTTP/1.1 ${denial.status} ${STATUS_CODES[denial.status] ?? ""}\r\n`;
+			for (const [name, value] of Object.entries(denial.headers ?? {})) {
+				raw += `${name}: ${value}\r\n`;
+			}
+			socket.end(`${raw}Connection: close\r\n\r\n`);
+			return;
+		}
+		proxyUpgrade(route, req, socket, head, () => {
+			status = 502;
+		});
+	});
+
+	await new Promise<void>((resolve, reject) => {
+		server.once("error", reject);
+		server.listen(options.port ?? 0, options.host ?? UPSTREAM_HOST, () => {
+			server.off("error", reject);
+			resolve();
+		});
+	});
+
+	const address = server.address();
+	const port = typeof address === "object" && address ? address.port : (options.port ?? 0);
+
+	return {
+		port,
+		setRoute(route: ProxyRoute) {
+			routes.set(route.path, route);
+		},
+		removeRoute(path: string) {
+			return routes.delete(path);
+		},
+		getRoutes() {
+			return [...routes.values()];
+		},
+		close() {
+			routes.clear();
+			return new Promise<void>((resolve) => {
+				server.closeAllConnections();
+				server.close(() => resolve());
+			});
+		},
+	};
+}
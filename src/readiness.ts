@@ -0,0 +1,121 @@
+// src/readiness.ts
+
+import { request } from "node:http";
+import { connect } from "node:net";
+
+/** Why an exposure never became ready */
+export type ReadinessFailure =
+	/** The route never appeared in the serve config (funnel not permitted, cert not issued) */
+	| "funnel-not-configured"
+	/** The local target port never answered the health probe */
+	| "target-unreachable"
+	/** The funnel process failed before the route was confirmed */
+	| "funnel-failed";
+
+export type ReadinessResult =
+	| { ready: true; url: string }
+	| { ready: false; reason: ReadinessFailure; message: string };
+
+export interface ReadinessChecks {
+	/** Whether the route is present in the live serve config */
+	isConfigured(): Promise<boolean>;
+	/** Whether the local target answers */
+	probe(): Promise<boolean>;
+	/** Whether the funnel has already failed for good */
+	hasFailed?(): boolean;
+}
+
+export interface WaitForReadyOptions {
+	/** Give up after this long (default: 30000ms) */
+	timeoutMs?: number;
+	/** Delay between checks (default: 1000ms) */
+	intervalMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_INTERVAL_MS = 1000;
+const PROBE_TIMEOUT_MS = 2000;
+
+/**
+ * Probe a local port. With `path`, an HTTP GET must answer with a
+ * non-5xx status; otherwise a TCP connect is enough.
+ */
+export function probeLocalPort(port: number, path?: string): Promise<boolean> {
+	if (path) {
+		return new Promise((resolve) => {
+			const req = request(
+				{ host: "127.0.0.1", port, path, method: "GET", timeout: PROBE_TIMEOUT_MS },
+				(res) => {
+					res.resume();
+					resolve(res.statusCode !== undefined && res.statusCode < 500);
+				},
+			);
+			req.on("timeout", () => req.destroy());
+			req.on("error", () => resolve(false));
+			req.end();
+		});
+	}
+
+	return new Promise((resolve) => {
+		const socket = connect({ host: "127.0.0.1", port, timeout: PROBE_TIMEOUT_MS });
+		socket.once("connect", () => {
+			socket.end();
+			resolve(true);
+		});
+		socket.once("timeout", () => {
+			socket.destroy();
+			resolve(false);
+		});
+		socket.once("error", () => resolve(false));
+	});
+}
+
+/**
+ * Poll until the route is confirmed in the serve config and the local
+ * target answers, or the timeout elapses. The failure reason reflects the
+ * last check that did not pass.
+ */
+export async function waitForReady(
+	url: string,
+	checks: ReadinessChecks,
+	options: WaitForReadyOptions = {},
+): Promise<ReadinessResult> {
+	const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+	const intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+	const deadline = Date.now() + timeoutMs;
+
+	let configured = false;
+	let reachable = false;
+
+	while (true) {
+		if (checks.hasFailed?.()) {
+			return {
+				ready: false,
+				reason: "funnel-failed",
+				message: "Funnel process exited and could not be restarted",
+			};
+		}
+
+		configured = configured || (await checks.isConfigured());
+		reachable = await checks.probe();
+		if (configured && reachable) {
+			return { ready: true, url };
+		}
+
+		if (Date.now() + intervalMs > deadline) break;
+		await new Promise((resolve) => setTimeout(resolve, intervalMs));
+	}
+
+	if (!configured) {
+		return {
+			ready: false,
+			reason: "funnel-not-configured",
+			message: `Route not present in the serve config after ${timeoutMs}ms (is Funnel allowed for this node?)`,
+		};
+	}
+	return {
+		ready: false,
+		reason: "target-unreachable",
+		message: `Local target did not answer within ${timeoutMs}ms`,
+	};
+}
@@ -0,0 +1,185 @@
+// src/reconcile.ts
+
+import { DEFAULT_PUBLIC_PORT, isFunnelPublicPort } from "./errors.js";
+import type { FunnelInfo, FunnelProtocol } from "./types.js";
+
+/**
+ * A route found in the live serve config reported by
+ * `tailscale funnel status --json`.
+ */
+export interface ServeRoute {
+	/** Public hostname the route is served on */
+	host: string;
+	/** Public port (443 unless an alternate funnel port is used) */
+	publicPort: number;
+	/** Mount path, e.g. "/" or "/api" ("/" for TCP listeners) */
+	path: string;
+	/** Handler target: proxy URL, directory, text or TCP forward address */
+	target: string;
+	protocol: FunnelProtocol;
+	/** Local port the handler proxies to, when it is a local proxy */
+	port: number | null;
+	/** Reachable from the public internet (vs. tailnet-only serve) */
+	funnel: boolean;
+}
+
+export type DriftKind = "missing" | "restored" | "foreign";
+
+export interface Drift {
+	kind: DriftKind;
+	path: string;
+	publicPort: number;
+	port: number | null;
+	publicUrl: string | null;
+	target?: string;
+}
+
+export interface ReconcileResult<T extends FunnelInfo = FunnelInfo> {
+	/** Tracked routes no longer present in the serve config */
+	missing: T[];
+	/** Tracked inactive routes that are present again */
+	restored: T[];
+	/** Funnel routes in the serve config that the plugin did not create */
+	foreign: ServeRoute[];
+}
+
+interface RawHandler {
+	Proxy?: string;
+	Path?: string;
+	Text?: string;
+}
+
+interface RawTcpHandler {
+	HTTPS?: boolean;
+	TCPForward?: string;
+	TerminateTLS?: string;
+}
+
+interface RawServeConfig {
+	TCP?: Record<string, RawTcpHandler>;
+	Web?: Record<string, { Handlers?: Record<string, RawHandler> }>;
+	AllowFunnel?: Record<string, boolean>;
+	Foreground?: Record<string, RawServeConfig>;
+}
+
+/**
+ * Extract the local port from a handler proxy target such as
+ * "http://127.0.0.1:3000" or "https+insecure://localhost:8443/x", or a TCP
+ * forward address such as "127.0.0.1:5432".
+ */
+export function parseTargetPort(target: string): number | null {
+	const match = /^(?:[a-z+]+:\/\/)?(?:localhost|127\.0\.0\.1|\[::1\]):(\d+)/i.exec(target);
+	return match ? Number.parseInt(match[1], 10) : null;
+}
+
+function collectRoutes(config: RawServeConfig, routes: ServeRoute[]): void {
+	for (const [hostPort, web] of Object.entries(config.Web ?? {})) {
+		const separator = hostPort.lastIndexOf(":");
+		const host = separator > 0 ? hostPort.slice(0, separator) : hostPort;
+		const publicPort = separator > 0 ? Number.parseInt(hostPort.slice(separator + 1), 10) : 443;
+		const funnel = config.AllowFunnel?.[hostPort] === true;
+
+		for (const [path, handler] of Object.entries(web.Handlers ?? {})) {
+			const target = handler.Proxy ?? handler.Path ?? (handler.Text !== undefined ? "text" : "");
+			routes.push({
+				host,
+				publicPort,
+				path,
+				target,
+				protocol: handler.Proxy?.startsWith("https+insecure:") ? "https-insecure" : "http",
+				port: handler.Proxy ? parseTargetPort(handler.Proxy) : null,
+				funnel,
+			});
+		}
+	}
+
+	// TCP listeners forward a whole port; HTTPS listeners are covered by Web above
+	for (const [port, handler] of Object.entries(config.TCP ?? {})) {
+		if (!handler.TCPForward) continue;
+		const publicPort = Number.parseInt(port, 10);
+		const hostPort = Object.keys(config.AllowFunnel ?? {}).find((key) =>
+			key.endsWith(`:${publicPort}`),
+		);
+		routes.push({
+			host: handler.TerminateTLS ?? hostPort?.replace(/:\d+$/, "") ?? "",
+			publicPort,
+			path: "/",
+			target: handler.TCPForward,
+			protocol: handler.TerminateTLS ? "tls-terminated-tcp" : "tcp",
+			port: parseTargetPort(handler.TCPForward),
+			funnel: hostPort !== undefined && config.AllowFunnel?.[hostPort] === true,
+		});
+	}
+
+	// Foreground sessions (`tailscale funnel` without --bg) keep their own config
+	for (const session of Object.values(config.Foreground ?? {})) {
+		collectRoutes(session, routes);
+	}
+}
+
+/**
+ * Parse `tailscale funnel status --json` output into a flat route list.
+ * Returns null when the output is missing or unparseable, so callers can
+ * tell "no routes" apart from "could not read the config".
+ */
+export function parseServeStatus(json: string | null): ServeRoute[] | null {
+	if (json === null) return null;
+	try {
+		const parsed = json.trim() ? (JSON.parse(json) as RawServeConfig | null) : {};
+		const routes: ServeRoute[] = [];
+		collectRoutes(parsed ?? {}, routes);
+		return routes;
+	} catch {
+		return null;
+	}
+}
+
+/** Identifies a route: the same path can be mounted on each public port */
+export function routeKey(publicPort: number, path: string): string {
+	return `${publicPort}:${path}`;
+}
+
+/**
+ * Compare the routes the plugin tracks with the live serve config.
+ * A route is identified by its public port and path, and only counts as
+ * present when its visibility matches (funnel for public routes, plain
+ * serve for tailnet-only ones). Only public funnel routes on the funnel
+ * ports (443, 8443, 10000) are reported as foreign.
+ *
+ * @param tracked - Routes the plugin believes it manages
+ * @param actual - Routes parsed from the serve config
+ * @param isSettling - Routes started too recently to be judged missing
+ */
+export function reconcileRoutes<T extends FunnelInfo>(
+	tracked: T[],
+	actual: ServeRoute[],
+	isSettling: (route: T) => boolean = () => false,
+): ReconcileResult<T> {
+	const live = new Map<string, ServeRoute>();
+	for (const route of actual) {
+		live.set(routeKey(route.publicPort, route.path), route);
+	}
+
+	const result: ReconcileResult<T> = { missing: [], restored: [], foreign: [] };
+	const trackedKeys = new Set<string>();
+
+	for (const route of tracked) {
+		const key = routeKey(route.publicPort ?? DEFAULT_PUBLIC_PORT, route.path);
+		trackedKeys.add(key);
+		const funnel = (route.exposure ?? "public") === "public";
+		const present = live.get(key)?.funnel === funnel;
+		if (route.active && !present && !isSettling(route)) {
+			result.missing.push(route);
+		} else if (!route.active && present) {
+			result.restored.push(route);
+		}
+	}
+
+	for (const [key, route] of live) {
+		if (route.funnel && isFunnelPublicPort(route.publicPort) && !trackedKeys.has(key)) {
+			result.foreign.push(route);
+		}
+	}
+
+	return result;
+}
@@ -0,0 +1,92 @@
+// src/schedule.ts
+
+/**
+ * A parsed five-field cron expression (minute hour day-of-month month
+ * day-of-week). A route with a schedule is exposed during every minute
+ * the expression matches, in the host's local time.
+ */
+export interface CronSchedule {
+	minutes: Set<number>;
+	hours: Set<number>;
+	daysOfMonth: Set<number>;
+	months: Set<number>;
+	/** 0 (Sunday) to 6; 7 is folded into 0 */
+	daysOfWeek: Set<number>;
+	/** Day-of-month and day-of-week were both restricted, so either may match */
+	eitherDay: boolean;
+}
+
+const MINUTE_MS = 60000;
+
+/** How far ahead `windowEnd` looks before treating a window as open-ended */
+const MAX_WINDOW_MINUTES = 31 * 24 * 60;
+
+/** Parse one field (`*`, `5`, `1-5`, `*\/15`, `9-17/2`, lists of these) */
+function parseField(field: string, min: number, max: number): Set<number> | null {
+	const values = new Set<number>();
+	for (const part of field.split(",")) {
+		const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+		if (!match) return null;
+		const step = match[4] === undefined ? 1 : Number(match[4]);
+		let from = min;
+		let to = max;
+		if (match[1] !== "*") {
+			from = Number(match[2]);
+			// A single value with a step runs to the end of the range, as in cron
+			to = match[3] !== undefined ? Number(match[3]) : match[4] !== undefined ? max : from;
+		}
+		if (step < 1 || from < min || to > max || from > to) return null;
+		for (let value = from; value <= to; value += step) values.add(value);
+	}
+	return values;
+}
+
+/** Parse a cron expression, or return null if it is not valid */
+export function parseCron(expression: string): CronSchedule | null {
+	const fields = expression.trim().split(/\s+/);
+	if (fields.length !== 5) return null;
+
+	const minutes = parseField(fields[0], 0, 59);
+	const hours = parseField(fields[1], 0, 23);
+	const daysOfMonth = parseField(fields[2], 1, 31);
+	const months = parseField(fields[3], 1, 12);
+	const daysOfWeek = parseField(fields[4], 0, 7);
+	if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeek) return null;
+
+	if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+	return {
+		minutes,
+		hours,
+		daysOfMonth,
+		months,
+		daysOfWeek,
+		eitherDay: fields[2] !== "*" && fields[4] !== "*",
+	};
+}
+
+/** Whether the minute containing `time` (epoch ms) falls inside the schedule */
+export function matchesCron(schedule: CronSchedule, time: number): boolean {
+	const date = new Date(time);
+	if (!schedule.minutes.has(date.getMinutes())) return false;
+	if (!schedule.hours.has(date.getHours())) return false;
+	if (!schedule.months.has(date.getMonth() + 1)) return false;
+
+	const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+	const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+	return schedule.eitherDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
+
+/**
+ * When the window containing `time` closes: the start of the first minute
+ * after it that does not match. Null if the schedule does not match at
+ * `time`, or still matches a month ahead.
+ */
+export function windowEnd(schedule: CronSchedule, time: number): number | null {
+	if (!matchesCron(schedule, time)) return null;
+	let minute = Math.floor(time / MINUTE_MS) * MINUTE_MS;
+	for (let i = 0; i < MAX_WINDOW_MINUTES; i++) {
+		minute += MINUTE_MS;
+		if (!matchesCron(schedule, minute)) return minute;
+	}
+	return null;
+}
@@ -0,0 +1,201 @@
+// src/security.ts
+
+import type { IncomingMessage } from "node:http";
+import { BlockList, isIP } from "node:net";
+import type { ProxyGate } from "./proxy.js";
+import type { FunnelRateLimit } from "./types.js";
+
+/** IP rules and rate limit enforced on one route */
+export interface SecurityPolicy {
+	ipAllow?: string[];
+	ipDeny?: string[];
+	rateLimit?: FunnelRateLimit;
+}
+
+export type BlockReason = "denied" | "rate-limited";
+
+/** Blocked traffic on one route since it was exposed */
+export interface SecurityReport extends SecurityPolicy {
+	denied: number;
+	rateLimited: number;
+	/** When the last request was blocked (epoch ms) */
+	lastBlockedAt: number | null;
+	/** Clients with the most blocked requests, most first */
+	topClients: { ip: string; blocked: number }[];
+}
+
+export interface RouteSecurity {
+	/** Answers 403 for filtered clients and 429 for clients over the rate limit */
+	gate: ProxyGate;
+	report(): SecurityReport;
+}
+
+// Bounds on per-client state, so a scan from many addresses cannot grow it forever
+const MAX_TRACKED_CLIENTS = 1000;
+const MAX_BUCKETS = 10000;
+const TOP_CLIENTS = 10;
+
+/** Strip the IPv4-mapped prefix (`::ffff:1.2.3.4`) Node reports on dual-stack sockets */
+function normalizeIp(ip: string): string {
+	const mapped = ip.startsWith("::ffff:") ? ip.slice(7) : ip;
+	return isIP(mapped) === 4 ? mapped : ip;
+}
+
+function isLoopback(ip: string): boolean {
+	return ip === "::1" || ip.startsWith("127.");
+}
+
+/**
+ * The client address of a proxied request. Funnel and serve connect from
+ * loopback and append the real client to X-Forwarded-For, so only the last
+ * entry is trusted; anything before it was sent by the client.
+ */
+export function clientIp(req: IncomingMessage): string {
+	const peer = normalizeIp(req.socket?.remoteAddress ?? "");
+	if (!isLoopback(peer)) return peer;
+	const header = req.headers["x-forwarded-for"];
+	const forwarded = (Array.isArray(header) ? header.join(",") : (header ?? ""))
+		.split(",")
+		.pop()
+		?.trim();
+	return forwarded && isIP(forwarded) ? normalizeIp(forwarded) : peer;
+}
+
+/** Parse `1.2.3.4`, `10.0.0.0/8` or `2001:db8::/32`; null if it is not a valid rule */
+export function parseCidr(rule: string): { address: string; prefix: number; family: 4 | 6 } | null {
+	const [address, prefixText, ...rest] = rule.trim().split("/");
+	const family = isIP(address ?? "");
+	if (rest.length > 0 || (family !== 4 && family !== 6)) return null;
+	const bits = family === 4 ? 32 : 128;
+	const prefix = prefixText === undefined ? bits : Number(prefixText);
+	if (!/^\d+$/.test(prefixText ?? String(bits)) || prefix > bits) return null;
+	return { address, prefix, family };
+}
+
+function buildBlockList(rules: string[]): BlockList {
+	const list = new BlockList();
+	for (const rule of rules) {
+		const cidr = parseCidr(rule);
+		if (cidr) list.addSubnet(cidr.address, cidr.prefix, cidr.family === 4 ? "ipv4" : "ipv6");
+	}
+	return list;
+}
+
+function matches(list: BlockList, ip: string): boolean {
+	const family = isIP(ip);
+	return family !== 0 && list.check(ip, family === 4 ? "ipv4" : "ipv6");
+}
+
+/** Whether the policy's rules and rate limit are well-formed */
+export function isValidPolicy(policy: SecurityPolicy): boolean {
+	const rules = [...(policy.ipAllow ?? []), ...(policy.ipDeny ?? [])];
+	if (!rules.every((rule) => typeof rule === "string" && parseCidr(rule) !== null)) return false;
+	const limit = policy.rateLimit;
+	return (
+		limit === undefined ||
+		(limit.requestsPerMinute > 0 && (limit.burst === undefined || limit.burst >= 1))
+	);
+}
+
+export function hasPolicy(policy: SecurityPolicy): boolean {
+	return Boolean(policy.ipAllow?.length || policy.ipDeny?.length || policy.rateLimit);
+}
+
+/**
+ * Per-client token buckets: each client may burst up to `burst` requests
+ * (default: one minute's worth), refilled at `requestsPerMinute`. Returns
+ * how many ms the client has to wait, or 0 if the request may go ahead.
+ */
+export function createRateLimiter(
+	limit: FunnelRateLimit,
+	now: () => number = Date.now,
+): (ip: string) => number {
+	const capacity = limit.burst ?? limit.requestsPerMinute;
+	const perMs = limit.requestsPerMinute / 60000;
+	const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+	return (ip) => {
+		const time = now();
+		if (buckets.size >= MAX_BUCKETS) {
+			// Buckets that have refilled are the same as no bucket at all
+			for (const [key, bucket] of buckets) {
+				if (bucket.tokens + (time - bucket.updatedAt) * perMs >= capacity) buckets.delete(key);
+			}
+		}
+
+		const bucket = buckets.get(ip) ?? { tokens: capacity, updatedAt: time };
+		bucket.tokens = Math.min(capacity, bucket.tokens + (time - bucket.updatedAt) * perMs);
+		bucket.updatedAt = time;
+		buckets.set(ip, bucket);
+
+		if (bucket.tokens >= 1) {
+			bucket.tokens -= 1;
+			return 0;
+		}
+		return Math.ceil((1 - bucket.tokens) / perMs);
+	};
+}
+
+/**
+ * IP filtering and rate limiting for a route. Deny rules win over allow
+ * rules; with an allow list, only matching clients get through. `onBlock`
+ * sees every blocked request.
+ */
+export function createRouteSecurity(
+	policy: SecurityPolicy,
+	onBlock: (reason: BlockReason, ip: string) => void = () => {},
+	now: () => number = Date.now,
+): RouteSecurity {
+	const allow = policy.ipAllow?.length ? buildBlockList(policy.ipAllow) : null;
+	const deny = policy.ipDeny?.length ? buildBlockList(policy.ipDeny) : null;
+	const limiter = policy.rateLimit ? createRateLimiter(policy.rateLimit, now) : null;
+	const clients = new Map<string, number>();
+	let denied = 0;
+	let rateLimited = 0;
+	let lastBlockedAt: number | null = null;
+
+	function block(reason: BlockReason, ip: string): void {
+		if (reason === "denied") denied++;
+		else rateLimited++;
+		lastBlockedAt = now();
+		// Re-insert so the oldest entry is the least recently blocked client
+		const count = (clients.get(ip) ?? 0) + 1;
+		clients.delete(ip);
+		clients.set(ip, count);
+		if (clients.size > MAX_TRACKED_CLIENTS) {
+			clients.delete(clients.keys().next().value as string);
+		}
+		onBlock(reason, ip);
+	}
+
+	return {
+		gate: (req) => {
+			const ip = clientIp(req);
+			if ((deny && matches(deny, ip)) || (allow && !matches(allow, ip))) {
+				block("denied", ip);
+				return { status: 403, body: "Forbidden" };
+			}
+			const waitMs = limiter?.(ip) ?? 0;
+			if (waitMs > 0) {
+				block("rate-limited", ip);
+				return {
+					status: 429,
+					headers: { "retry-after": String(Math.ceil(waitMs / 1000)) },
+					body: "Too Many Requests",
+				};
+			}
+			return null;
+		},
+
+		report: () => ({
+			...policy,
+			denied,
+			rateLimited,
+			lastBlockedAt,
+			topClients: [...clients]
+				.sort((a, b) => b[1] - a[1])
+				.slice(0, TOP_CLIENTS)
+				.map(([ip, blocked]) => ({ ip, blocked })),
+		}),
+	};
+}
@@ -1,35 +1,167 @@
 // src/stats.ts
 
+/** Traffic through the local reverse proxy on one route */
+export interface RouteTraffic {
+	requests: number;
+	/** Responses by status code ("200", "404", ...) */
+	statusCodes: Record<string, number>;
+	/** Request and response body bytes */
+	bytesIn: number;
+	bytesOut: number;
+	/** Over the most recent requests; null until there is one */
+	latencyMs: { p50: number; p90: number; p99: number } | null;
+	/** When the last request was answered (epoch ms) */
+	lastRequestAt: number | null;
+}
+
+/** Upper bounds (ms) of the status-check latency histogram buckets */
+export const STATUS_CHECK_BUCKETS_MS: readonly number[] = [
+	5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000,
+];
+
+/** Cumulative histogram: `buckets[i]` counts checks that took at most STATUS_CHECK_BUCKETS_MS[i] */
+export interface LatencyHistogram {
+	count: number;
+	sumMs: number;
+	buckets: number[];
+}
+
 export interface FunnelStats {
 	funnelsStarted: number;
 	funnelsStopped: number;
+	funnelRestarts: number;
 	hostnameChanges: number;
 	statusChecks: number;
+	/** Webhook requests whose signature checked out */
+	webhooksVerified: number;
+	/** Webhook requests answered with 401 before reaching the local port */
+	webhooksRejected: number;
+	/** Requests answered with 403 by a route's IP rules */
+	requestsDenied: number;
+	/** Requests answered with 429 by a route's rate limit */
+	requestsRateLimited: number;
+	/** How long tailscaled status and serve-config reads took */
+	statusCheckLatency: LatencyHistogram;
+	/** Proxied traffic keyed by route ("<publicPort>:<path>") */
+	routes: Record<string, RouteTraffic>;
 	startedAt: number;
 }
 
-let stats: FunnelStats = {
-	funnelsStarted: 0,
-	funnelsStopped: 0,
-	hostnameChanges: 0,
-	statusChecks: 0,
-	startedAt: Date.now(),
-};
+export type FunnelCounter = keyof Omit<FunnelStats, "statusCheckLatency" | "routes" | "startedAt">;
 
-export function getStats(): Readonly<FunnelStats> {
-	return { ...stats };
+/** A request as counted by recordRequest */
+export interface RequestSample {
+	status: number;
+	bytesIn: number;
+	bytesOut: number;
+	durationMs: number;
 }
 
-export function incrementStat(key: keyof Omit<FunnelStats, "startedAt">, amount = 1): void {
-	stats[key] += amount;
+// Percentiles are taken over this many recent requests per route
+const LATENCY_SAMPLES = 1024;
+
+interface RouteCounters extends Omit<RouteTraffic, "latencyMs"> {
+	latencies: number[];
+	nextLatency: number;
 }
 
-export function resetStats(): void {
-	stats = {
+function emptyStats(): Omit<FunnelStats, "routes"> {
+	return {
 		funnelsStarted: 0,
 		funnelsStopped: 0,
+		funnelRestarts: 0,
 		hostnameChanges: 0,
 		statusChecks: 0,
+		webhooksVerified: 0,
+		webhooksRejected: 0,
+		requestsDenied: 0,
+		requestsRateLimited: 0,
+		statusCheckLatency: {
+			count: 0,
+			sumMs: 0,
+			buckets: STATUS_CHECK_BUCKETS_MS.map(() => 0),
+		},
 		startedAt: Date.now(),
 	};
 }
+
+let stats = emptyStats();
+let routes = new Map<string, RouteCounters>();
+
+function percentile(sorted: number[], p: number): number {
+	const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+	return Math.round(sorted[Math.max(0, index)] * 10) / 10;
+}
+
+function routeTraffic(counters: RouteCounters): RouteTraffic {
+	const { latencies, nextLatency: _next, ...totals } = counters;
+	const sorted = [...latencies].sort((a, b) => a - b);
+	return {
+		...totals,
+		statusCodes: { ...totals.statusCodes },
+		latencyMs:
+			sorted.length > 0
+				? {
+						p50: percentile(sorted, 50),
+						p90: percentile(sorted, 90),
+						p99: percentile(sorted, 99),
+					}
+				: null,
+	};
+}
+
+export function getStats(): Readonly<FunnelStats> {
+	return {
+		...stats,
+		statusCheckLatency: {
+			...stats.statusCheckLatency,
+			buckets: [...stats.statusCheckLatency.buckets],
+		},
+		routes: Object.fromEntries([...routes].map(([key, counters]) => [key, routeTraffic(counters)])),
+	};
+}
+
+export function incrementStat(key: FunnelCounter, amount = 1): void {
+	stats[key] += amount;
+}
+
+/** Count a tailscaled status read and how long it took */
+export function recordStatusCheck(durationMs: number): void {
+	stats.statusChecks++;
+	const latency = stats.statusCheckLatency;
+	latency.count++;
+	latency.sumMs += durationMs;
+	STATUS_CHECK_BUCKETS_MS.forEach((bound, i) => {
+		if (durationMs <= bound) latency.buckets[i]++;
+	});
+}
+
+/** Count a proxied request against its route */
+export function recordRequest(route: string, sample: RequestSample): void {
+	let counters = routes.get(route);
+	if (!counters) {
+		counters = {
+			requests: 0,
+			statusCodes: {},
+			bytesIn: 0,
+			bytesOut: 0,
+			lastRequestAt: null,
+			latencies: [],
+			nextLatency: 0,
+		};
+		routes.set(route, counters);
+	}
+	counters.requests++;
+	counters.statusCodes[sample.status] = (counters.statusCodes[sample.status] ?? 0) + 1;
+	counters.bytesIn += sample.bytesIn;
+	counters.bytesOut += sample.bytesOut;
+	counters.lastRequestAt = Date.now();
+	// Ring buffer of recent latencies
+	counters.latencies[counters.nextLatency] = sample.durationMs;
+	counters.nextLatency = (counters.nextLatency + 1) % LATENCY_SAMPLES;
+}
+
+export function resetStats(): void {
+	stats = emptyStats();
+	routes = new Map();
+}
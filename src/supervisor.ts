@@ -0,0 +1,165 @@
+// src/supervisor.ts
+
+import { type ChildProcess, spawn } from "node:child_process";
+
+export interface RestartPolicy {
+	/** Give up after this many consecutive restarts (default: 5) */
+	maxRestarts?: number;
+	/** Delay before the first restart (default: 1000ms) */
+	initialDelayMs?: number;
+	/** Upper bound for the exponential backoff (default: 30000ms) */
+	maxDelayMs?: number;
+	/** A run this long resets the consecutive restart count (default: 60000ms) */
+	stableAfterMs?: number;
+}
+
+export interface SupervisorOptions extends RestartPolicy {
+	command: string;
+	args: string[];
+	/**
+	 * The command does its job and exits 0 (e.g. `tailscale funnel --bg`,
+	 * which applies the mount and returns); only failed runs are retried
+	 */
+	untilSuccess?: boolean;
+	/** Called when an `untilSuccess` command has exited 0; it is not run again */
+	onSuccess?: () => void;
+	/** Called before each restart is scheduled */
+	onRestart?: (info: RestartInfo) => void;
+	/** Called once when the restart budget is exhausted */
+	onGiveUp?: (info: ExitInfo) => void;
+}
+
+export interface ExitInfo {
+	code: number | null;
+	signal: NodeJS.Signals | null;
+	/** Tail of the child's stderr, useful for diagnosing the exit */
+	stderr: string;
+	error?: Error;
+}
+
+export interface RestartInfo extends ExitInfo {
+	/** 1-based consecutive restart number */
+	attempt: number;
+	delayMs: number;
+}
+
+export interface SupervisedProcess {
+	/** PID of the current child, if it is running */
+	readonly pid: number | undefined;
+	/** Total restarts performed over the supervisor's lifetime */
+	readonly restarts: number;
+	/** Tail of the current child's stderr */
+	readonly stderr: string;
+	/** Stop supervising and terminate the child; it will not be restarted */
+	stop(): void;
+}
+
+const DEFAULT_MAX_RESTARTS = 5;
+const DEFAULT_INITIAL_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 30000;
+const DEFAULT_STABLE_AFTER_MS = 60000;
+const STDERR_LIMIT = 4096;
+
+/**
+ * Exponential backoff: initial, 2x, 4x, ... capped at max.
+ */
+export function backoffDelay(attempt: number, initialDelayMs: number, maxDelayMs: number): number {
+	return Math.min(initialDelayMs * 2 ** Math.max(0, attempt - 1), maxDelayMs);
+}
+
+/**
+ * Spawn a long-running child and keep it alive. The child stays attached
+ * to WOPR, its stderr is captured, and unexpected exits are restarted with
+ * exponential backoff until `maxRestarts` consecutive failures. With
+ * `untilSuccess`, the child is only restarted until it exits 0.
+ */
+export function superviseProcess(options: SupervisorOptions): SupervisedProcess {
+	const maxRestarts = options.maxRestarts ?? DEFAULT_MAX_RESTARTS;
+	const initialDelayMs = options.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS;
+	const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+	const stableAfterMs = options.stableAfterMs ?? DEFAULT_STABLE_AFTER_MS;
+
+	let child: ChildProcess | null = null;
+	let stopped = false;
+	let stderr = "";
+	let attempt = 0;
+	let restarts = 0;
+	let restartTimer: ReturnType<typeof setTimeout> | null = null;
+
+	function start(): void {
+		const startedAt = Date.now();
+		let exited = false;
+		stderr = "";
+
+		const current = spawn(options.command, options.args, {
+			stdio: ["ignore", "ignore", "pipe"],
+		});
+		child = current;
+
+		current.stderr?.on("data", (chunk: Buffer | string) => {
+			stderr = (stderr + chunk.toString()).slice(-STDERR_LIMIT);
+		});
+
+		// Spawn failures emit "error" and may never emit "exit"; handle once
+		const onExit = (code: number | null, signal: NodeJS.Signals | null, error?: Error) => {
+			if (exited) return;
+			exited = true;
+			if (child === current) child = null;
+			if (stopped) return;
+
+			if (options.untilSuccess && code === 0 && !error) {
+				options.onSuccess?.();
+				return;
+			}
+
+			if (Date.now() - startedAt >= stableAfterMs) attempt = 0;
+			const info: ExitInfo = { code, signal, stderr: stderr.trim(), error };
+
+			if (attempt >= maxRestarts) {
+				options.onGiveUp?.(info);
+				return;
+			}
+
+			attempt++;
+			restarts++;
+			const delayMs = backoffDelay(attempt, initialDelayMs, maxDelayMs);
+			options.onRestart?.({ ...info, attempt, delayMs });
+			restartTimer = setTimeout(() => {
+				restartTimer = null;
+				if (!stopped) start();
+			}, delayMs);
+		};
+
+		current.on("exit", (code, signal) => onExit(code, signal));
+		current.on("error", (err) => onExit(null, null, err));
+	}
+
+	start();
+
+	return {
+		get pid() {
+			return child?.pid;
+		},
+		get restarts() {
+			return restarts;
+		},
+		get stderr() {
+			return stderr.trim();
+		},
+		stop() {
+			stopped = true;
+			if (restartTimer) {
+				clearTimeout(restartTimer);
+				restartTimer = null;
+			}
+			if (child) {
+				try {
+					child.kill("SIGTERM");
+				} catch {
+					// Process may already be dead
+				}
+				child = null;
+			}
+		},
+	};
+}
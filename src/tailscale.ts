@@ -0,0 +1,80 @@
+// src/tailscale.ts
+
+import { execFile } from "node:child_process";
+import { createLocalApiClient, DEFAULT_SOCKET_PATH, type LocalApiClient } from "./localapi.js";
+
+export interface CommandResult {
+	ok: boolean;
+	stdout: string;
+	stderr: string;
+}
+
+export interface TailscaleClientOptions {
+	/** Query tailscaled over its LocalAPI socket before the CLI (default: true) */
+	localApi?: boolean;
+	/** LocalAPI socket path (default: platform tailscaled socket) */
+	socketPath?: string;
+}
+
+export interface TailscaleClient {
+	/** `tailscale status --json` equivalent, or null if tailscaled is unreachable */
+	getStatusJson(): Promise<string | null>;
+	/** `tailscale funnel status --json` equivalent (the serve config) */
+	getServeStatusJson(): Promise<string | null>;
+	/** Whether the tailscale CLI is on PATH (needed to start funnels) */
+	hasCli(): Promise<boolean>;
+	/** Run a tailscale CLI command without blocking the event loop */
+	run(args: string[], timeoutMs?: number): Promise<CommandResult>;
+}
+
+const CLI_TIMEOUT_MS = 10000;
+
+function execFileText(file: string, args: string[], timeoutMs: number): Promise<CommandResult> {
+	return new Promise((resolve) => {
+		execFile(file, args, { encoding: "utf-8", timeout: timeoutMs }, (err, stdout, stderr) => {
+			resolve({ ok: !err, stdout: String(stdout ?? "").trim(), stderr: String(stderr ?? "") });
+		});
+	});
+}
+
+/**
+ * Talk to tailscaled through the LocalAPI socket, falling back to the
+ * `tailscale` CLI when the socket is unavailable (e.g. no permission, or
+ * a userspace tailscaled with a non-default socket).
+ */
+export function createTailscaleClient(options: TailscaleClientOptions = {}): TailscaleClient {
+	const localApi: LocalApiClient | null =
+		options.localApi === false
+			? null
+			: createLocalApiClient(options.socketPath ?? DEFAULT_SOCKET_PATH);
+
+	async function run(args: string[], timeoutMs: number = CLI_TIMEOUT_MS): Promise<CommandResult> {
+		return execFileText("tailscale", args, timeoutMs);
+	}
+
+	async function cliJson(args: string[]): Promise<string | null> {
+		const result = await run(args);
+		return result.ok ? result.stdout : null;
+	}
+
+	return {
+		async getStatusJson() {
+			const body = await localApi?.getStatus();
+			return body ?? cliJson(["status", "--json"]);
+		},
+
+		async getServeStatusJson() {
+			const body = await localApi?.getServeConfig();
+			return body ?? cliJson(["funnel", "status", "--json"]);
+		},
+
+		async hasCli() {
+			// Cross-platform: 'where' on Windows, 'which' elsewhere
+			const which = process.platform === "win32" ? "where" : "which";
+			const result = await execFileText(which, ["tailscale"], CLI_TIMEOUT_MS);
+			return result.ok && result.stdout.length > 0;
+		},
+
+		run,
+	};
+}
@@ -0,0 +1,156 @@
+// src/tokens.ts
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+/** A bearer token or signed URL issued for one route */
+export interface AccessToken {
+	/** Public identifier, used to revoke the token */
+	id: string;
+	/** Route the token grants access to (see routeKey) */
+	route: string;
+	kind: "bearer" | "signed";
+	/** SHA-256 of a bearer token's secret part; the secret itself is never stored */
+	hash?: string;
+	createdAt: number;
+	/** Epoch ms after which the token is rejected */
+	expiresAt?: number;
+	label?: string;
+}
+
+export interface TokenStore {
+	/** HMAC key for signed URLs on routes that do not set their own secret */
+	secret: string;
+	tokens: AccessToken[];
+}
+
+interface TokenFile extends TokenStore {
+	version: 1;
+}
+
+export function createTokenStore(): TokenStore {
+	return { secret: randomBytes(32).toString("hex"), tokens: [] };
+}
+
+export function sha256(value: string): string {
+	return createHash("sha256").update(value).digest("hex");
+}
+
+/** Compare two strings in constant time, whatever their lengths */
+export function safeEqual(a: string, b: string): boolean {
+	const digestA = createHash("sha256").update(a).digest();
+	const digestB = createHash("sha256").update(b).digest();
+	return timingSafeEqual(digestA, digestB);
+}
+
+function newId(prefix: string): string {
+	return `${prefix}_${randomBytes(6).toString("hex")}`;
+}
+
+/**
+ * Issue a bearer token for a route. The token is `<id>.<secret>`; only the
+ * hash of the secret is kept, so the token is shown to the caller once.
+ */
+export function issueBearerToken(
+	store: TokenStore,
+	route: string,
+	options: { expiresAt?: number; label?: string } = {},
+): { record: AccessToken; token: string } {
+	const id = newId("tok");
+	const secret = randomBytes(24).toString("base64url");
+	const record: AccessToken = {
+		id,
+		route,
+		kind: "bearer",
+		hash: sha256(secret),
+		createdAt: Date.now(),
+		...options,
+	};
+	store.tokens.push(record);
+	return { record, token: `${id}.${secret}` };
+}
+
+/** Record a signed URL so it can be listed and revoked before it expires */
+export function issueSignedToken(
+	store: TokenStore,
+	route: string,
+	expiresAt: number,
+	label?: string,
+): AccessToken {
+	const record: AccessToken = {
+		id: newId("url"),
+		route,
+		kind: "signed",
+		createdAt: Date.now(),
+		expiresAt,
+		...(label ? { label } : {}),
+	};
+	store.tokens.push(record);
+	return record;
+}
+
+/** HMAC-SHA256 signature binding a signed URL's token id, expiry and path */
+export function signPath(secret: string, id: string, expiresAt: number, pathname: string): string {
+	return createHmac("sha256", secret).update(`${id}\n${expiresAt}\n${pathname}`).digest("hex");
+}
+
+/** An unexpired token by id */
+export function findToken(
+	store: TokenStore,
+	id: string,
+	now: number = Date.now(),
+): AccessToken | undefined {
+	const token = store.tokens.find((t) => t.id === id);
+	return token && (token.expiresAt === undefined || token.expiresAt > now) ? token : undefined;
+}
+
+export function revokeToken(store: TokenStore, id: string): boolean {
+	const index = store.tokens.findIndex((t) => t.id === id);
+	if (index < 0) return false;
+	store.tokens.splice(index, 1);
+	return true;
+}
+
+/** Drop expired tokens; returns whether any were removed */
+export function pruneExpiredTokens(store: TokenStore, now: number = Date.now()): boolean {
+	const before = store.tokens.length;
+	store.tokens = store.tokens.filter((t) => t.expiresAt === undefined || t.expiresAt > now);
+	return store.tokens.length !== before;
+}
+
+function isAccessToken(value: unknown): value is AccessToken {
+	const token = value as AccessToken | null;
+	return (
+		typeof token === "object" &&
+		token !== null &&
+		typeof token.id === "string" &&
+		typeof token.route === "string" &&
+		(token.kind === "bearer" || token.kind === "signed") &&
+		typeof token.createdAt === "number"
+	);
+}
+
+/**
+ * Read the token store. A missing or unreadable file yields a fresh store
+ * (with a new signing secret); malformed tokens are skipped.
+ */
+export async function loadTokenStore(file: string): Promise<TokenStore> {
+	try {
+		const parsed = JSON.parse(await readFile(file, "utf-8")) as Partial<TokenFile>;
+		if (typeof parsed.secret !== "string" || !parsed.secret) return createTokenStore();
+		const tokens = Array.isArray(parsed.tokens) ? parsed.tokens.filter(isAccessToken) : [];
+		return { secret: parsed.secret, tokens };
+	} catch {
+		return createTokenStore();
+	}
+}
+
+/** Write the token store atomically, readable by the WOPR user only */
+export async function saveTokenStore(file: string, store: TokenStore): Promise<void> {
+	const body: TokenFile = { version: 1, ...store };
+	const tmp = `${file}.tmp`;
+	await mkdir(dirname(file), { recursive: true });
+	await writeFile(tmp, `${JSON.stringify(body, null, 2)}\n`, { encoding: "utf-8", mode: 0o600 });
+	await rename(tmp, file);
+}
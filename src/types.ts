@@ -5,6 +5,15 @@
  * Only plugin-specific types are defined here.
  */
 
+import type {
+	ExposeResult,
+	FunnelError,
+	ReplayResult,
+	TokenResult,
+	UnexposeResult,
+} from "./errors.js";
+import type { RestartPolicy } from "./supervisor.js";
+
 export type {
 	ConfigSchema,
 	WOPRPlugin,
@@ -14,36 +23,464 @@ export type {
 export interface FunnelConfig {
 	enabled?: boolean;
 	/**
-	 * Auto-expose this port on init.
-	 * Note: Tailscale Funnel only supports ONE port at a time.
-	 * Also accepts array for backwards compatibility (only first item used).
+	 * Auto-expose these ports on init. Each entry is mounted under its own
+	 * path prefix on the node's single public hostname.
 	 */
 	expose?: FunnelExpose | FunnelExpose[];
 	/**
-	 * How often (in seconds) to poll `tailscale status --json` for hostname
+	 * Ports exposed only while a cron expression matches, e.g. a status
+	 * page during business hours. Checked every minute, in local time.
+	 */
+	schedules?: FunnelScheduledExpose[];
+	/**
+	 * Emit `funnel:lease-expiring` this many seconds before a lease with a
+	 * TTL runs out (default: 300, 0 disables)
+	 */
+	expiryWarningSeconds?: number;
+	/**
+	 * How often (in seconds) to poll tailscaled status for hostname
 	 * changes. Set to 0 to disable polling. Default: 60.
 	 */
 	pollIntervalSeconds?: number;
+	/**
+	 * Built-in local reverse proxy. When enabled, every route is served
+	 * through the proxy; routes that ask for path rewriting or header
+	 * injection start it on demand either way.
+	 */
+	proxy?: FunnelProxyConfig;
+	/**
+	 * Directories `exposeDirectory()` may publish, along with everything
+	 * below them. Default: `public/` in the plugin's data directory. A root
+	 * that is or contains the data directory is refused, since it holds the
+	 * plugin's secrets.
+	 */
+	staticRoots?: string[];
+	/**
+	 * Take over funnel routes found in `tailscale funnel status` that WOPR
+	 * did not create (e.g. left over from a crash). When false they are only
+	 * reported via `funnel:drift`. Default: false.
+	 */
+	adoptForeignFunnels?: boolean;
+	/**
+	 * Backoff for retrying a `tailscale funnel --bg` mount that fails, for
+	 * routes mounted with `retry`, routes WOPR mounts itself and routes
+	 * re-mounted after going missing from the serve config (e.g. tailscaled
+	 * restart). Default: 5 attempts, 1s doubling to 30s.
+	 */
+	restart?: RestartPolicy;
+	/**
+	 * How long (ms) expose() waits for `tailscale funnel --bg` to apply a
+	 * mount. A mount that fails within this window fails the call; one still
+	 * pending afterwards is reported as started. Default: 10000.
+	 */
+	startupGraceMs?: number;
+	/** Recent proxied requests kept for `wopr funnel logs` (default: 1000, 0 disables) */
+	accessLogSize?: number;
+	/** How status and serve config are read from tailscaled */
+	localApi?: FunnelLocalApiConfig;
+	/** Local Prometheus/OpenMetrics endpoint */
+	metrics?: FunnelMetricsConfig;
+	/**
+	 * What A2A agents may publish with the funnel_expose tool. The
+	 * management tools are only offered when `allow` has entries.
+	 */
+	agent?: FunnelAgentConfig;
+	/** Retention of the audit trail of exposure changes (audit.jsonl in the plugin data directory) */
+	audit?: FunnelAuditConfig;
+}
+
+export interface FunnelAuditConfig {
+	/** Drop entries older than this many days (default: 90, 0 keeps them all) */
+	retentionDays?: number;
+	/** Keep at most this many entries (default: 10000) */
+	maxEntries?: number;
+}
+
+export interface FunnelAgentConfig {
+	/** Routes agents may expose; anything else is refused */
+	allow?: FunnelAgentRule[];
+	/** Longest lease an agent may take or extend to (default: 3600) */
+	maxTtlSeconds?: number;
+}
+
+/** A local port an agent may publish, optionally only under `path` */
+export interface FunnelAgentRule {
+	port: number;
+	/** Mount path the route must be on or below (default: any) */
+	path?: string;
+	/** Public port the route must use (default: any) */
+	publicPort?: number;
+	/** Exposure the route must use (default: either) */
+	exposure?: FunnelExposure;
+}
+
+/** A configured exposure that is only up while `schedule` matches */
+export interface FunnelScheduledExpose extends FunnelExpose {
+	/** Five-field cron expression, e.g. "* 9-16 * * 1-5" for weekdays 09:00-17:00 */
+	schedule: string;
+}
+
+export interface FunnelMetricsConfig {
+	/** Serve metrics over HTTP (default: false) */
+	enabled?: boolean;
+	/** Port to listen on (default: 9464) */
+	port?: number;
+	/** Interface to bind (default: 127.0.0.1) */
+	host?: string;
+	/** Path to serve metrics on (default: /metrics) */
+	path?: string;
+}
+
+export interface FunnelLocalApiConfig {
+	/** Use the LocalAPI socket before falling back to the CLI (default: true) */
+	enabled?: boolean;
+	/** Socket path (default: /var/run/tailscale/tailscaled.sock) */
+	socketPath?: string;
+}
+
+export interface FunnelProxyConfig {
+	/** Route all exposures through the proxy (default: false) */
+	enabled?: boolean;
+	/** Loopback port for the proxy to listen on (default: ephemeral) */
+	port?: number;
+}
+
+/**
+ * Who can reach a route: anyone on the internet through `tailscale funnel`,
+ * or only devices on the tailnet through `tailscale serve`.
+ */
+export type FunnelExposure = "public" | "tailnet";
+
+/**
+ * How traffic reaches the local port:
+ * - "http": HTTP reverse proxy to a plain HTTP service (default)
+ * - "https-insecure": HTTP reverse proxy to a local HTTPS service, without
+ *   verifying its certificate
+ * - "tcp": raw TCP forwarding; the client's TLS (if any) is passed through
+ * - "tls-terminated-tcp": TLS is terminated by Tailscale, plain TCP is forwarded
+ *
+ * TCP routes take a whole public port and have no path.
+ */
+export type FunnelProtocol = "http" | "https-insecure" | "tcp" | "tls-terminated-tcp";
+
+/**
+ * Authentication enforced by the local reverse proxy before a request
+ * reaches the local port:
+ * - "bearer": `Authorization: Bearer <token>`, with a token from `tokens`
+ *   or one issued by `wopr funnel token create`
+ * - "basic": HTTP basic auth against `users` (username -> password)
+ * - "signed": HMAC-signed URLs with an expiry, issued by
+ *   `wopr funnel token create`; signed with `secret` or a key kept by the plugin
+ */
+export type FunnelAuth =
+	| { type: "bearer"; tokens?: string[] }
+	| { type: "basic"; users: Record<string, string>; realm?: string }
+	| { type: "signed"; secret?: string };
+
+/**
+ * Token-bucket limit per client IP: up to `burst` requests at once (default:
+ * `requestsPerMinute`), refilled at `requestsPerMinute`
+ */
+export interface FunnelRateLimit {
+	requestsPerMinute: number;
+	burst?: number;
+}
+
+/** Request capture for `wopr funnel inspect` */
+export interface FunnelCapture {
+	/** Requests kept per route, newest replacing oldest (default: 50) */
+	maxRequests?: number;
+	/** Body bytes kept per request (default: 65536) */
+	maxBodyBytes?: number;
+}
+
+/** What happens to a route once its health check has failed `unhealthyThreshold` times */
+export type FunnelUnhealthyAction = "none" | "unexpose" | "maintenance" | "fallback";
+
+/**
+ * Health check run against a route's local port. With `path` it is an
+ * HTTP GET, otherwise a TCP connect.
+ */
+export interface FunnelHealthCheck {
+	/** Path to GET, e.g. "/healthz" (http routes only) */
+	path?: string;
+	/** Status the GET must answer with (default: any 2xx or 3xx) */
+	expectStatus?: number;
+	/** Seconds between checks (default: 30) */
+	intervalSeconds?: number;
+	/** A check that takes longer fails (default: 5000ms) */
+	timeoutMs?: number;
+	/** Consecutive failures before the route counts as unhealthy (default: 3) */
+	unhealthyThreshold?: number;
+	/**
+	 * Keep the route up and only report it ("none", default), take it down
+	 * ("unexpose"), answer 503 until the port recovers ("maintenance", http
+	 * routes only, proxied), or switch to the route's `fallback` ("fallback",
+	 * the default for routes that have one)
+	 */
+	onUnhealthy?: FunnelUnhealthyAction;
+}
+
+/**
+ * What a route serves while its local port fails its health check: a
+ * static 503 response, or another local port
+ */
+export type FunnelFallback =
+	| {
+			type: "maintenance";
+			/** Response body (default: "Service temporarily unavailable") */
+			body?: string;
+			/** Content-Type of the body (default: text/plain) */
+			contentType?: string;
+			/** Retry-After header, in seconds (default: the health check interval) */
+			retryAfterSeconds?: number;
+	  }
+	| {
+			type: "port";
+			/** Local port traffic is sent to instead */
+			port: number;
+	  };
+
+/** Latest health check results for a route */
+export interface FunnelHealth {
+	/** "unknown" until the first check has run */
+	status: "unknown" | "healthy" | "unhealthy";
+	consecutiveFailures: number;
+	/** When the last check ran (epoch ms) */
+	lastCheckedAt?: number;
+	/** Why the last check failed */
+	lastError?: string;
+	/** When the route became unhealthy (epoch ms) */
+	unhealthySince?: number;
+}
+
+/** A request captured on a route, with secrets redacted */
+export interface CapturedRequest {
+	id: string;
+	/** Route key ("<publicPort>:<path>") the request arrived on */
+	route: string;
+	/** When the response finished (epoch ms) */
+	time: number;
+	method: string;
+	/** Path and query string; signed-URL and token parameters are redacted */
+	url: string;
+	/** Headers as received; credentials and signatures are redacted */
+	headers: Record<string, string | string[]>;
+	/** Captured body, as text or base64 for binary payloads */
+	body: string;
+	bodyEncoding: "utf8" | "base64";
+	/** Full body size; `truncated` when more than `maxBodyBytes` arrived */
+	bodyBytes: number;
+	truncated: boolean;
+	/** Status the client got (401/403/429 when the proxy rejected it) */
+	status: number;
+	durationMs: number;
+	client: string;
+}
+
+/** Webhook providers whose signature schemes the proxy can verify */
+export type WebhookPreset = "github" | "stripe" | "slack" | "generic-hmac";
+
+/**
+ * Webhook signature check done by the proxy before a request is forwarded:
+ * - "github": `X-Hub-Signature-256` (HMAC-SHA256 of the body)
+ * - "stripe": `Stripe-Signature` (`t=...,v1=...`, signed timestamp)
+ * - "slack": `X-Slack-Signature` and `X-Slack-Request-Timestamp`
+ * - "generic-hmac": hex HMAC of the body in `header`, optionally over
+ *   `<timestamp>.<body>` when `timestampHeader` is set
+ */
+export interface FunnelVerify {
+	preset: WebhookPreset;
+	/** Signing secret shared with the provider */
+	secret: string;
+	/** Accepted age of signed timestamps, in seconds (default: 300) */
+	toleranceSeconds?: number;
+	/** generic-hmac: header carrying the signature (default: x-signature) */
+	header?: string;
+	/** generic-hmac: HMAC hash (default: sha256) */
+	algorithm?: "sha1" | "sha256" | "sha512";
+	/** generic-hmac: text before the hex digest, e.g. "sha256=" */
+	prefix?: string;
+	/** generic-hmac: header carrying the signed unix timestamp */
+	timestampHeader?: string;
 }
 
 export interface FunnelExpose {
 	/** Local port to expose */
 	port: number;
-	/** Optional path prefix (default: /) */
+	/** Path prefix the port is mounted under (default: /) */
 	path?: string;
+	/**
+	 * Public HTTPS port: 443, 8443 or 10000 (default: 443). "auto" picks the
+	 * first one where the path is free. Tailnet-only routes can use any port.
+	 */
+	publicPort?: number | "auto";
+	/** Reachable from the internet ("public", default) or only the tailnet */
+	exposure?: FunnelExposure;
+	/** Listener and backend protocol (default: "http") */
+	protocol?: FunnelProtocol;
+	/** Strip the path prefix before forwarding to the local port (proxied) */
+	stripPrefix?: boolean;
+	/** Headers injected into every forwarded request (proxied) */
+	headers?: Record<string, string>;
+	/** Rewrite the Host header sent to the local port (proxied) */
+	hostHeader?: string;
+	/** Require authentication before traffic reaches the local port (proxied) */
+	auth?: FunnelAuth;
+	/** Reject requests without a valid webhook signature (proxied) */
+	verify?: FunnelVerify;
+	/** Only let clients in these addresses/CIDRs through (proxied) */
+	ipAllow?: string[];
+	/** Block clients in these addresses/CIDRs; wins over ipAllow (proxied) */
+	ipDeny?: string[];
+	/** Limit requests per client IP (proxied) */
+	rateLimit?: FunnelRateLimit;
+	/** Keep recent requests for inspection and replay (proxied) */
+	capture?: boolean | FunnelCapture;
+	/** Check the local port periodically and react when it stops answering */
+	healthCheck?: FunnelHealthCheck;
+	/**
+	 * Serve this while the health check fails, switching back once it passes
+	 * (proxied). Without a healthCheck, a TCP connect check with the defaults is used.
+	 */
+	fallback?: FunnelFallback;
+}
+
+/** Per-call options for `FunnelExtension.expose` */
+export interface ExposeOptions extends Omit<FunnelExpose, "port"> {
+	/**
+	 * Plugin requesting the exposure. Its lease can only be released by the
+	 * same owner, and is released automatically when that plugin shuts down.
+	 */
+	owner?: string;
+	/** Not restored after a WOPR restart (a mount left by a crash is turned off) */
+	ephemeral?: boolean;
+	/**
+	 * Keep retrying a mount that fails with a transient error in the
+	 * background (under `restart`) instead of failing the call
+	 */
+	retry?: boolean;
+	/** Release the lease automatically after this long (ms) unless renewed */
+	ttlMs?: number;
+	/** Same as `ttlMs`, in seconds; wins if both are given */
+	ttlSeconds?: number;
+}
+
+/**
+ * Per-call options for `FunnelExtension.exposeDirectory` and `exposeText`.
+ * Static routes are served by tailscaled itself, so there is nothing to
+ * proxy or rewrite.
+ */
+export type ExposeStaticOptions = Pick<
+	ExposeOptions,
+	"path" | "publicPort" | "exposure" | "owner" | "ephemeral" | "retry" | "ttlMs" | "ttlSeconds"
+>;
+
+/** Options for `FunnelExtension.unexpose` */
+export interface UnexposeOptions {
+	/** Only the route mounted on this path (default: every path for the port) */
+	path?: string;
+	/** Only the route on this public port (default: every public port) */
+	publicPort?: number;
+	/** Release this owner's leases (default: leases taken without an owner) */
+	owner?: string;
+}
+
+/**
+ * A claim on an exposed route. Every `expose` call returns one; the route
+ * stays up until all of its leases are released or have expired.
+ */
+export interface FunnelLease {
+	id: string;
+	port: number;
+	path: string;
+	publicPort: number;
+	owner?: string;
+	/** When the lease expires (epoch ms), or null if it has no TTL */
+	readonly expiresAt: number | null;
+	/** Give up this lease; the route is stopped if it was the last one */
+	release(): Promise<UnexposeResult>;
+	/** Reset the TTL (or set one). Returns false once the lease is gone. */
+	renew(ttlMs: number): boolean;
+}
+
+/** Options for `FunnelExtension.createToken` */
+export interface CreateTokenOptions {
+	/** Public port of the route (default: 443) */
+	publicPort?: number;
+	/** Lifetime in ms (default: none for bearer tokens, 1 hour for signed URLs) */
+	ttlMs?: number;
+	/** Note shown by `wopr funnel token list` */
+	label?: string;
+}
+
+/** Options for `FunnelExtension.exposeReady` */
+export interface ExposeReadyOptions extends ExposeOptions {
+	/** How long to wait for the route to become ready (default: 30000ms) */
+	timeoutMs?: number;
+	/**
+	 * HTTP path to probe on a plain HTTP local port; a TCP connect is used if
+	 * omitted and for other protocols
+	 */
+	probePath?: string;
 }
 
 export interface FunnelStatus {
 	available: boolean;
 	hostname?: string;
 	funnels: FunnelInfo[];
+	/** Why Tailscale Funnel is unavailable, when it is */
+	error?: FunnelError;
 }
 
 export interface FunnelInfo {
+	/** Local port the route forwards to (0 for directory and text routes) */
 	port: number;
 	path: string;
+	/** Public HTTPS port the route is served on (default: 443) */
+	publicPort?: number;
+	/** Internet-facing funnel or tailnet-only serve route (default: "public") */
+	exposure?: FunnelExposure;
+	/** Listener and backend protocol (default: "http") */
+	protocol?: FunnelProtocol;
+	/** Authentication the proxy enforces on the route */
+	auth?: FunnelAuth["type"];
+	/** Webhook signature preset the proxy verifies */
+	verify?: WebhookPreset;
+	/** The proxy filters clients by IP or rate-limits them */
+	restricted?: boolean;
+	/** Recent requests are captured for `wopr funnel inspect` */
+	capturing?: boolean;
+	/** Directory served by the route, instead of a local port */
+	directory?: string;
+	/** Fixed text body served by the route, instead of a local port */
+	text?: string;
+	/** https:// for HTTP routes, tcp:// or tls:// (host and public port) for TCP routes */
 	publicUrl: string;
 	active: boolean;
+	/** Traffic goes through the plugin's local reverse proxy */
+	proxied?: boolean;
+	/** Created outside WOPR and adopted by the reconciler */
+	foreign?: boolean;
+	/** Owners holding a lease on the route ("config", "cli" or a plugin name) */
+	owners?: string[];
+	/** Number of leases holding the route up */
+	leases?: number;
+	/**
+	 * When the route goes down on its own (epoch ms): once every lease has a
+	 * TTL, the latest expiry among them
+	 */
+	expiresAt?: number;
+	/** Not restored after a WOPR restart (config routes come back from config) */
+	ephemeral?: boolean;
+	/** Mount retries plus re-mounts after the route went missing from the serve config */
+	restarts?: number;
+	/** Why the route is down, once its mount has failed for good */
+	lastError?: FunnelError;
+	/** Health check results, for routes with a health check */
+	health?: FunnelHealth;
+	/** Traffic is going to the route's fallback while its port is unhealthy */
+	fallbackActive?: boolean;
 }
 
 /** Callback for hostname change notifications */
@@ -59,21 +496,78 @@ export interface FunnelExtension {
 	/** Get the Tailscale hostname (e.g., wopr.tailnet.ts.net) */
 	getHostname(): Promise<string | null>;
 
-	/** Expose a local port via funnel, returns public URL */
-	expose(port: number, path?: string): Promise<string | null>;
+	/**
+	 * Expose a local port via funnel under a path prefix. Resolves to the
+	 * public URL, or an error with a code and remediation hint.
+	 * Routes on other paths are kept; a route already on `path` is replaced.
+	 * Accepts a bare path or options for prefix stripping and header rewrites.
+	 * The exposure is persisted and restored after a WOPR restart unless
+	 * `ephemeral` is set. The returned lease keeps the route up; exposing
+	 * the same port on the same path again adds a lease instead of a route.
+	 */
+	expose(port: number, options?: string | ExposeOptions): Promise<ExposeResult>;
+
+	/**
+	 * Publish a directory under a path prefix. The directory must exist and
+	 * lie inside one of the configured `staticRoots`. Otherwise behaves like
+	 * `expose`: the returned lease keeps the route up.
+	 */
+	exposeDirectory(dir: string, options?: string | ExposeStaticOptions): Promise<ExposeResult>;
 
-	/** Stop exposing a port */
-	unexpose(port: number): Promise<boolean>;
+	/** Serve a fixed text body under a path prefix, e.g. a maintenance notice */
+	exposeText(body: string, options?: string | ExposeStaticOptions): Promise<ExposeResult>;
 
-	/** Get public URL for an exposed port */
+	/**
+	 * Expose a port and wait until the route is confirmed in the serve config
+	 * and the local port answers. On failure the route is torn down and the
+	 * error is returned instead of a URL.
+	 */
+	exposeReady(port: number, options?: string | ExposeReadyOptions): Promise<ExposeResult>;
+
+	/**
+	 * Release leases on a port (on every path, or only on `path` when given).
+	 * Directory and text routes are released with port 0 and their `path`.
+	 * A route is stopped once no leases remain; leases held by other owners
+	 * are kept.
+	 */
+	unexpose(port: number, options?: string | UnexposeOptions): Promise<UnexposeResult>;
+
+	/**
+	 * Issue a bearer token, or a signed URL for `path`, on the route serving
+	 * `path`. The route must use bearer or signed auth.
+	 */
+	createToken(path: string, options?: CreateTokenOptions): Promise<TokenResult>;
+
+	/** Revoke an issued bearer token or signed URL; false if the id is unknown */
+	revokeToken(id: string): Promise<boolean>;
+
+	/** Release every lease held by `owner`; resolves to the number released */
+	releaseOwner(owner: string): Promise<number>;
+
+	/** Get public URL for an exposed port (first route if mounted on several paths) */
 	getUrl(port: number): string | null;
 
-	/** Get status of all funnels */
+	/** Get status of all funnels, one entry per mounted route */
 	getStatus(): FunnelStatus;
 
+	/** Captured requests, newest first (all routes, or the route mounted at `path`) */
+	listCaptures(options?: { path?: string; publicPort?: number }): CapturedRequest[];
+
+	/** A captured request by id, or null once it has been dropped */
+	getCapture(id: string): CapturedRequest | null;
+
+	/**
+	 * Send a captured request to its route's local port again, with the
+	 * route's rewrites applied. Redacted headers are not sent.
+	 */
+	replayCapture(id: string): Promise<ReplayResult>;
+
+	/** Plugin health and traffic in OpenMetrics text format, for a metrics plugin to scrape */
+	getMetrics(): string;
+
 	/** Register a callback for hostname changes (alternative to event bus) */
 	onHostnameChange(callback: HostnameChangeCallback): void;
 
-	/** Get the active funnel port, or null if no funnel is active */
+	/** Get the port mounted at the root path (or the first mounted port), or null if none */
 	getPort(): number | null;
 }
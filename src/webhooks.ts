@@ -0,0 +1,154 @@
+// src/webhooks.ts
+
+import { createHmac } from "node:crypto";
+import type { IncomingHttpHeaders } from "node:http";
+import type { BodyVerifier } from "./proxy.js";
+import { safeEqual } from "./tokens.js";
+import type { FunnelVerify, WebhookPreset } from "./types.js";
+
+export type VerifyResult = { ok: true } | { ok: false; reason: string };
+
+export const WEBHOOK_PRESETS: readonly WebhookPreset[] = [
+	"github",
+	"stripe",
+	"slack",
+	"generic-hmac",
+];
+
+/** Default window (seconds) in which a signed timestamp is accepted */
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+function header(headers: IncomingHttpHeaders, name: string): string | undefined {
+	const value = headers[name.toLowerCase()];
+	return Array.isArray(value) ? value[0] : value;
+}
+
+function hmacHex(algorithm: string, secret: string, ...parts: (string | Buffer)[]): string {
+	const hmac = createHmac(algorithm, secret);
+	for (const part of parts) hmac.update(part);
+	return hmac.digest("hex");
+}
+
+/** Reject timestamps (unix seconds) outside the tolerance window */
+function checkTimestamp(
+	timestamp: string | undefined,
+	verify: FunnelVerify,
+	now: number,
+): VerifyResult | null {
+	const seconds = Number(timestamp);
+	if (!timestamp || !Number.isFinite(seconds)) return { ok: false, reason: "missing timestamp" };
+	const tolerance = verify.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+	if (Math.abs(now / 1000 - seconds) > tolerance) {
+		return { ok: false, reason: "timestamp outside tolerance" };
+	}
+	return null;
+}
+
+function verifyGithub(
+	verify: FunnelVerify,
+	headers: IncomingHttpHeaders,
+	body: Buffer,
+): VerifyResult {
+	const signature = header(headers, "x-hub-signature-256");
+	if (!signature) return { ok: false, reason: "missing X-Hub-Signature-256" };
+	const expected = `sha256=${hmacHex("sha256", verify.secret, body)}`;
+	return safeEqual(expected, signature) ? { ok: true } : { ok: false, reason: "bad signature" };
+}
+
+function verifyStripe(
+	verify: FunnelVerify,
+	headers: IncomingHttpHeaders,
+	body: Buffer,
+	now: number,
+): VerifyResult {
+	const signature = header(headers, "stripe-signature");
+	if (!signature) return { ok: false, reason: "missing Stripe-Signature" };
+
+	// t=<timestamp>,v1=<sig>[,v1=<sig>...] - any v1 signature may match (secret rotation)
+	const fields = signature.split(",").map((field) => field.trim().split("="));
+	const timestamp = fields.find(([key]) => key === "t")?.[1];
+	const stale = checkTimestamp(timestamp, verify, now);
+	if (stale) return stale;
+
+	const expected = hmacHex("sha256", verify.secret, `${timestamp}.`, body);
+	const matched = fields.some(([key, value]) => key === "v1" && safeEqual(expected, value ?? ""));
+	return matched ? { ok: true } : { ok: false, reason: "bad signature" };
+}
+
+function verifySlack(
+	verify: FunnelVerify,
+	headers: IncomingHttpHeaders,
+	body: Buffer,
+	now: number,
+): VerifyResult {
+	const signature = header(headers, "x-slack-signature");
+	if (!signature) return { ok: false, reason: "missing X-Slack-Signature" };
+	const timestamp = header(headers, "x-slack-request-timestamp");
+	const stale = checkTimestamp(timestamp, verify, now);
+	if (stale) return stale;
+
+	const expected = `v0=${hmacHex("sha256", verify.secret, `v0:${timestamp}:`, body)}`;
+	return safeEqual(expected, signature) ? { ok: true } : { ok: false, reason: "bad signature" };
+}
+
+function verifyGenericHmac(
+	verify: FunnelVerify,
+	headers: IncomingHttpHeaders,
+	body: Buffer,
+	now: number,
+): VerifyResult {
+	const name = verify.header ?? "x-signature";
+	const signature = header(headers, name);
+	if (!signature) return { ok: false, reason: `missing ${name}` };
+
+	// With a timestamp header, `<timestamp>.<body>` is signed
+	const parts: (string | Buffer)[] = [body];
+	if (verify.timestampHeader) {
+		const timestamp = header(headers, verify.timestampHeader);
+		const stale = checkTimestamp(timestamp, verify, now);
+		if (stale) return stale;
+		parts.unshift(`${timestamp}.`);
+	}
+
+	const expected = `${verify.prefix ?? ""}${hmacHex(verify.algorithm ?? "sha256", verify.secret, ...parts)}`;
+	return safeEqual(expected, signature) ? { ok: true } : { ok: false, reason: "bad signature" };
+}
+
+/**
+ * Check a webhook request's signature (and timestamp, for presets that sign
+ * one) against the raw body, the way the provider computes it.
+ */
+export function verifyWebhook(
+	verify: FunnelVerify,
+	headers: IncomingHttpHeaders,
+	body: Buffer,
+	now: number = Date.now(),
+): VerifyResult {
+	switch (verify.preset) {
+		case "github":
+			return verifyGithub(verify, headers, body);
+		case "stripe":
+			return verifyStripe(verify, headers, body, now);
+		case "slack":
+			return verifySlack(verify, headers, body, now);
+		case "generic-hmac":
+			return verifyGenericHmac(verify, headers, body, now);
+		default:
+			return { ok: false, reason: `unknown preset ${verify.preset}` };
+	}
+}
+
+/**
+ * Body verifier for the local reverse proxy. Requests that fail are answered
+ * with 401 and never reach the local port; `onResult` sees every outcome.
+ */
+export function createWebhookVerifier(
+	verify: FunnelVerify,
+	onResult: (result: VerifyResult) => void,
+): BodyVerifier {
+	return (req, body) => {
+		const result = verifyWebhook(verify, req.headers, body);
+		onResult(result);
+		return result.ok ? null : { status: 401, body: "Invalid webhook signature" };
+	};
+}
@@ -1,5 +1,7 @@
 // src/webmcp-tools.ts
 
+import type { AuditEntry } from "./audit.js";
+import type { SecurityReport } from "./security.js";
 import type { FunnelStats } from "./stats.js";
 import type { FunnelInfo, FunnelStatus } from "./types.js";
 
@@ -8,7 +10,12 @@ import type { FunnelInfo, FunnelStatus } from "./types.js";
  * Security: No auth keys. Only public-facing information.
  */
 export function buildFunnelStatusResponse(status: FunnelStatus): Record<string, unknown> {
-	const activeFunnel = status.funnels.length > 0 ? status.funnels[0] : null;
+	// Tailnet-only routes have no public URL to report
+	const publicRoutes = status.funnels.filter((f) => f.exposure !== "tailnet");
+	const activeFunnel =
+		publicRoutes.find((f) => f.path === "/" && f.active) ??
+		publicRoutes.find((f) => f.active) ??
+		null;
 
 	return {
 		available: status.available,
@@ -23,12 +30,15 @@ export function buildFunnelStatusResponse(status: FunnelStatus): Record<string,
 					active: activeFunnel.active,
 				}
 			: null,
+		routeCount: status.funnels.filter((f) => f.active).length,
+		error: status.error ?? null,
 	};
 }
 
 /**
  * getFunnelRoutes — Active funnel routes and their target ports.
- * Tailscale Funnel only supports ONE active funnel at a time.
+ * Each HTTP route is a path prefix mounted on the node's public hostname;
+ * TCP routes take a whole public port.
  */
 export function buildFunnelRoutesResponse(status: FunnelStatus): Record<string, unknown> {
 	return {
@@ -36,9 +46,20 @@ export function buildFunnelRoutesResponse(status: FunnelStatus): Record<string,
 		routes: status.funnels.map((f: FunnelInfo) => ({
 			port: f.port,
 			path: f.path,
+			publicPort: f.publicPort ?? 443,
+			exposure: f.exposure ?? "public",
+			protocol: f.protocol ?? "http",
 			publicUrl: f.publicUrl,
 			active: f.active,
-			target: `localhost:${f.port}`,
+			target: f.directory ?? (f.text !== undefined ? "text" : `localhost:${f.port}`),
+			...(f.auth ? { auth: f.auth } : {}),
+			...(f.verify ? { verify: f.verify } : {}),
+			...(f.restricted ? { restricted: true } : {}),
+			...(f.owners?.length ? { owners: f.owners } : {}),
+			...(f.expiresAt !== undefined ? { expiresAt: new Date(f.expiresAt).toISOString() } : {}),
+			...(f.lastError ? { lastError: f.lastError } : {}),
+			...(f.health ? { health: f.health.status } : {}),
+			...(f.fallbackActive ? { fallbackActive: true } : {}),
 		})),
 	};
 }
@@ -90,7 +111,48 @@ export function buildNodeStatusResponse(
 	}
 }
 
-function formatUptime(ms: number): string {
+/**
+ * getFunnelSecurity — IP rules, rate limits and blocked traffic per route.
+ * Client IPs are the ones that were blocked, never the ones let through.
+ */
+export function buildSecurityResponse(
+	routes: ({ path: string; publicPort: number } & SecurityReport)[],
+	stats: FunnelStats,
+): Record<string, unknown> {
+	return {
+		blocked: {
+			denied: stats.requestsDenied,
+			rateLimited: stats.requestsRateLimited,
+		},
+		routes: routes.map((route) => ({
+			path: route.path,
+			publicPort: route.publicPort,
+			ipAllow: route.ipAllow ?? [],
+			ipDeny: route.ipDeny ?? [],
+			rateLimit: route.rateLimit ?? null,
+			denied: route.denied,
+			rateLimited: route.rateLimited,
+			lastBlockedAt: route.lastBlockedAt ? new Date(route.lastBlockedAt).toISOString() : null,
+			topClients: route.topClients,
+		})),
+	};
+}
+
+/**
+ * getFunnelAudit — Recent changes to the exposed routes, newest first.
+ * Read-only: who exposed or released what, and whether it went through.
+ */
+export function buildAuditResponse(entries: AuditEntry[]): Record<string, unknown> {
+	return {
+		count: entries.length,
+		entries: entries
+			.map(({ time, ...entry }) => ({ time: new Date(time).toISOString(), ...entry }))
+			.reverse(),
+	};
+}
+
+/** Render a duration such as "3d 4h", "12m 5s" or "45s" */
+export function formatDuration(ms: number): string {
 	const seconds = Math.floor(ms / 1000);
 	const minutes = Math.floor(seconds / 60);
 	const hours = Math.floor(minutes / 60);
@@ -110,13 +172,27 @@ export function buildStatsResponse(stats: FunnelStats): Record<string, unknown>
 		funnels: {
 			started: stats.funnelsStarted,
 			stopped: stats.funnelsStopped,
+			restarts: stats.funnelRestarts,
 		},
 		hostnameChanges: stats.hostnameChanges,
 		statusChecks: stats.statusChecks,
+		webhooks: {
+			verified: stats.webhooksVerified,
+			rejected: stats.webhooksRejected,
+		},
+		blocked: {
+			denied: stats.requestsDenied,
+			rateLimited: stats.requestsRateLimited,
+		},
+		// Only traffic through the local reverse proxy can be counted
+		traffic: {
+			requests: Object.values(stats.routes).reduce((sum, route) => sum + route.requests, 0),
+			routes: stats.routes,
+		},
 		uptime: {
 			ms: uptimeMs,
 			seconds: Math.floor(uptimeMs / 1000),
-			human: formatUptime(uptimeMs),
+			human: formatDuration(uptimeMs),
 			startedAt: new Date(stats.startedAt).toISOString(),
 		},
 	};
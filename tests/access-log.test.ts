@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+	type AccessLogEntry,
+	formatAccessEntry,
+	getAccessLog,
+	onAccess,
+	recordAccess,
+	resetAccessLog,
+} from "../src/access-log.js";
+
+function entry(path: string, status = 200): AccessLogEntry {
+	return {
+		time: Date.UTC(2026, 0, 1),
+		publicPort: 443,
+		route: "/api",
+		method: "GET",
+		path,
+		status,
+		bytesIn: 0,
+		bytesOut: 12,
+		durationMs: 4.2,
+		client: "198.51.100.7",
+	};
+}
+
+describe("access log", () => {
+	afterEach(() => {
+		resetAccessLog();
+	});
+
+	it("keeps only the most recent entries, oldest first", () => {
+		resetAccessLog(3);
+		for (const path of ["/a", "/b", "/c", "/d", "/e"]) recordAccess(entry(path));
+
+		expect(getAccessLog().map((e) => e.path)).toEqual(["/c", "/d", "/e"]);
+		expect(getAccessLog(2).map((e) => e.path)).toEqual(["/d", "/e"]);
+		expect(getAccessLog(0)).toEqual([]);
+	});
+
+	it("records nothing when sized to 0", () => {
+		resetAccessLog(0);
+		recordAccess(entry("/a"));
+		expect(getAccessLog()).toEqual([]);
+	});
+
+	it("notifies followers until they unsubscribe", () => {
+		const seen: string[] = [];
+		const unsubscribe = onAccess((e) => seen.push(e.path));
+		recordAccess(entry("/a"));
+		unsubscribe();
+		recordAccess(entry("/b"));
+		expect(seen).toEqual(["/a"]);
+	});
+
+	it("formats an entry as one line", () => {
+		expect(formatAccessEntry(entry("/api/users", 404))).toBe(
+			"2026-01-01T00:00:00.000Z 198.51.100.7 GET :443/api/users 404 0/12B 4ms route=/api",
+		);
+	});
+});
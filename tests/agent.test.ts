@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { checkAgentRoute, checkAgentTtl, isAgentAllowed } from "../src/agent.js";
+
+const request = { port: 3000, path: "/hooks/ci", publicPort: 443, exposure: "public" as const };
+
+describe("isAgentAllowed", () => {
+	it("allows a port on the rule's path or below it", () => {
+		expect(isAgentAllowed([{ port: 3000, path: "/hooks" }], request)).toBe(true);
+		expect(isAgentAllowed([{ port: 3000, path: "/hooks/ci" }], request)).toBe(true);
+		expect(isAgentAllowed([{ port: 3000 }], request)).toBe(true);
+		expect(isAgentAllowed([{ port: 3000, path: "/hook" }], request)).toBe(false);
+		expect(isAgentAllowed([{ port: 4000, path: "/hooks" }], request)).toBe(false);
+		expect(isAgentAllowed([], request)).toBe(false);
+	});
+
+	it("holds routes to the rule's public port and exposure", () => {
+		expect(isAgentAllowed([{ port: 3000, publicPort: 8443 }], request)).toBe(false);
+		expect(isAgentAllowed([{ port: 3000, exposure: "tailnet" }], request)).toBe(false);
+		expect(isAgentAllowed([{ port: 3000, publicPort: 443, exposure: "public" }], request)).toBe(
+			true,
+		);
+	});
+
+	it("explains a refused route", () => {
+		expect(checkAgentRoute([{ port: 3000 }], request)).toBeNull();
+		expect(checkAgentRoute([], { ...request, publicPort: 8443 })).toMatchObject({
+			code: "agent-not-permitted",
+			message: "Agents may not expose port 3000 on /hooks/ci on :8443 (public)",
+		});
+	});
+
+	it("refuses paths that climb out of an allowed prefix", () => {
+		const rules = [{ port: 3000, path: "/hooks" }];
+		expect(checkAgentRoute(rules, { ...request, path: "/hooks/../admin" })).toMatchObject({
+			code: "invalid-path",
+		});
+		expect(checkAgentRoute(rules, { ...request, path: "/hooks/%2E%2e/admin" })).toMatchObject({
+			code: "invalid-path",
+		});
+	});
+});
+
+describe("checkAgentTtl", () => {
+	it("requires a positive TTL no longer than the maximum", () => {
+		expect(checkAgentTtl(600, 3600)).toBeNull();
+		expect(checkAgentTtl(3600, 3600)).toBeNull();
+		expect(checkAgentTtl(3601, 3600)?.code).toBe("invalid-ttl");
+		expect(checkAgentTtl(0, 3600)?.code).toBe("invalid-ttl");
+		expect(checkAgentTtl(undefined, 3600)?.code).toBe("invalid-ttl");
+		expect(checkAgentTtl("600", 3600)?.code).toBe("invalid-ttl");
+	});
+});
@@ -0,0 +1,118 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	type AuditEntry,
+	closeAuditLog,
+	formatAuditEntry,
+	getAuditLog,
+	openAuditLog,
+	recordAudit,
+} from "../src/audit.js";
+
+const DAY_MS = 86400000;
+
+function entry(port: number, overrides: Partial<AuditEntry> = {}): AuditEntry {
+	return {
+		time: Date.now(),
+		actor: "a2a:deploy-bot",
+		action: "expose",
+		port,
+		path: "/hooks",
+		publicPort: 443,
+		ttlSeconds: 600,
+		outcome: "ok",
+		...overrides,
+	};
+}
+
+async function readLines(file: string): Promise<AuditEntry[]> {
+	const text = await readFile(file, "utf-8");
+	return text
+		.trim()
+		.split("\n")
+		.map((line) => JSON.parse(line));
+}
+
+describe("audit log", () => {
+	let dir: string;
+	let file: string;
+
+	beforeEach(async () => {
+		dir = await mkdtemp(join(tmpdir(), "funnel-audit-"));
+		file = join(dir, "audit.jsonl");
+	});
+
+	afterEach(async () => {
+		await closeAuditLog();
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	it("appends entries as JSON lines and loads them back", async () => {
+		await openAuditLog(file);
+		for (const port of [3000, 3001, 3002]) await recordAudit(entry(port));
+
+		expect((await readLines(file)).map((e) => e.port)).toEqual([3000, 3001, 3002]);
+		await closeAuditLog();
+		expect(getAuditLog()).toEqual([]);
+
+		await openAuditLog(file);
+		expect(getAuditLog().map((e) => e.port)).toEqual([3000, 3001, 3002]);
+	});
+
+	it("filters by actor, port, action and time, keeping the most recent matches", async () => {
+		await openAuditLog(null);
+		const now = Date.now();
+		await recordAudit(entry(3000, { time: now - 2 * DAY_MS, actor: "cli" }));
+		await recordAudit(entry(3000, { time: now - 1000, action: "unexpose" }));
+		await recordAudit(entry(4000, { time: now }));
+
+		expect(getAuditLog({ limit: 2 }).map((e) => e.port)).toEqual([3000, 4000]);
+		expect(getAuditLog({ actor: "cli" })).toHaveLength(1);
+		expect(getAuditLog({ port: 3000 })).toHaveLength(2);
+		expect(getAuditLog({ action: "unexpose" })).toHaveLength(1);
+		expect(getAuditLog({ since: now - DAY_MS }).map((e) => e.port)).toEqual([3000, 4000]);
+	});
+
+	it("drops entries past the retention window and size cap from memory and file", async () => {
+		const now = Date.now();
+		const lines = [
+			entry(3000, { time: now - 10 * DAY_MS }),
+			entry(3001, { time: now - DAY_MS }),
+			entry(3002, { time: now - 1000 }),
+		];
+		await writeFile(file, `${lines.map((e) => JSON.stringify(e)).join("\n")}\nnot json\n`);
+
+		await openAuditLog(file, { retentionDays: 7 });
+		expect(getAuditLog().map((e) => e.port)).toEqual([3001, 3002]);
+		expect((await readLines(file)).map((e) => e.port)).toEqual([3001, 3002]);
+
+		await closeAuditLog();
+		await openAuditLog(file, { retentionDays: 0, maxEntries: 2 });
+		await recordAudit(entry(3003));
+		expect(getAuditLog().map((e) => e.port)).toEqual([3002, 3003]);
+		expect((await readLines(file)).map((e) => e.port)).toEqual([3002, 3003]);
+	});
+
+	it("formats an entry as one line", () => {
+		const time = Date.UTC(2026, 0, 1);
+		expect(formatAuditEntry(entry(3000, { time }))).toBe(
+			"2026-01-01T00:00:00.000Z a2a:deploy-bot expose 3000 /hooks (:443) ttl=600s ok",
+		);
+		expect(
+			formatAuditEntry(
+				entry(0, {
+					time,
+					actor: "cli",
+					action: "unexpose",
+					target: "text",
+					publicPort: undefined,
+					ttlSeconds: undefined,
+					outcome: "failed",
+					error: "not-exposed",
+				}),
+			),
+		).toBe("2026-01-01T00:00:00.000Z cli unexpose text /hooks failed [not-exposed]");
+	});
+});
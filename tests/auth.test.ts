@@ -0,0 +1,61 @@
+import type { IncomingMessage } from "node:http";
+import { describe, expect, it } from "vitest";
+import { buildSignedUrl, createAuthGate } from "../src/auth.js";
+import { createTokenStore, issueBearerToken, issueSignedToken } from "../src/tokens.js";
+
+function request(url: string, authorization?: string): IncomingMessage {
+	return { url, headers: authorization ? { authorization } : {} } as IncomingMessage;
+}
+
+describe("createAuthGate", () => {
+	const route = "443:/admin";
+
+	it("accepts static and issued bearer tokens for the route only", () => {
+		const store = createTokenStore();
+		const { token } = issueBearerToken(store, route);
+		const { token: other } = issueBearerToken(store, "443:/other");
+		const gate = createAuthGate({ type: "bearer", tokens: ["static"] }, route, () => store);
+
+		expect(gate(request("/admin", "Bearer static"))).toBeNull();
+		expect(gate(request("/admin", `Bearer ${token}`))).toBeNull();
+		expect(gate(request("/admin", `Bearer ${other}`))).toMatchObject({ status: 401 });
+		expect(gate(request("/admin", `Bearer ${token}x`))).toMatchObject({ status: 401 });
+		expect(gate(request("/admin"))?.headers).toEqual({ "www-authenticate": 'Bearer realm="wopr"' });
+	});
+
+	it("rejects bearer tokens once they expire or are revoked", () => {
+		const store = createTokenStore();
+		const { token } = issueBearerToken(store, route, { expiresAt: Date.now() - 1 });
+		const gate = createAuthGate({ type: "bearer" }, route, () => store);
+		expect(gate(request("/admin", `Bearer ${token}`))).toMatchObject({ status: 401 });
+	});
+
+	it("checks HTTP basic credentials", () => {
+		const gate = createAuthGate(
+			{ type: "basic", users: { ops: "hunter2" }, realm: "Ops" },
+			route,
+			createTokenStore,
+		);
+		const basic = (credentials: string) => `Basic ${Buffer.from(credentials).toString("base64")}`;
+
+		expect(gate(request("/admin", basic("ops:hunter2")))).toBeNull();
+		expect(gate(request("/admin", basic("ops:wrong")))).toMatchObject({ status: 401 });
+		expect(gate(request("/admin", basic("constructor:x")))).toMatchObject({ status: 401 });
+		expect(gate(request("/admin"))?.headers).toEqual({ "www-authenticate": 'Basic realm="Ops"' });
+	});
+
+	it("accepts signed URLs for the signed path until they expire", () => {
+		const store = createTokenStore();
+		const gate = createAuthGate({ type: "signed" }, route, () => store);
+		const expiresAt = Date.now() + 60000;
+		const record = issueSignedToken(store, route, expiresAt);
+		const signed = buildSignedUrl("/admin/report.pdf", "/admin/report.pdf", record.id, expiresAt, store.secret);
+
+		expect(gate(request(signed))).toBeNull();
+		expect(gate(request(signed.replace("report.pdf", "other.pdf")))).toMatchObject({ status: 403 });
+		expect(gate(request("/admin/report.pdf"))).toMatchObject({ status: 403 });
+
+		store.tokens = [];
+		expect(gate(request(signed))).toMatchObject({ status: 403 });
+	});
+});
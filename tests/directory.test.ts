@@ -0,0 +1,73 @@
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { isInsideRoot, resolveStaticDirectory } from "../src/directory.js";
+
+describe("isInsideRoot", () => {
+	it("accepts the root and paths below it only", () => {
+		expect(isInsideRoot("/srv/www", "/srv/www")).toBe(true);
+		expect(isInsideRoot("/srv/www/docs", "/srv/www")).toBe(true);
+		expect(isInsideRoot("/srv/www/..docs", "/srv/www")).toBe(true);
+		expect(isInsideRoot("/srv/wwwx", "/srv/www")).toBe(false);
+		expect(isInsideRoot("/srv", "/srv/www")).toBe(false);
+	});
+});
+
+describe("resolveStaticDirectory", () => {
+	let dir: string;
+
+	beforeEach(async () => {
+		dir = await mkdtemp(join(tmpdir(), "funnel-static-"));
+		await mkdir(join(dir, "root", "site"), { recursive: true });
+		await mkdir(join(dir, "outside"));
+		await writeFile(join(dir, "root", "file.txt"), "hello");
+	});
+
+	afterEach(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	it("resolves directories inside an allowed root", async () => {
+		const roots = [join(dir, "root")];
+		expect(await resolveStaticDirectory(join(dir, "root", "site"), roots)).toMatch(/site$/);
+		expect(await resolveStaticDirectory(join(dir, "root", "site", ".."), roots)).toMatch(/root$/);
+	});
+
+	it("rejects missing paths and files", async () => {
+		const roots = [join(dir, "root")];
+		const missing = await resolveStaticDirectory(join(dir, "root", "nope"), roots);
+		expect(missing).toMatchObject({ code: "directory-not-found" });
+		const file = await resolveStaticDirectory(join(dir, "root", "file.txt"), roots);
+		expect(file).toMatchObject({ code: "directory-not-found" });
+	});
+
+	it("rejects directories outside the roots, including through symlinks", async () => {
+		const roots = [join(dir, "root")];
+		await symlink(join(dir, "outside"), join(dir, "root", "link"));
+
+		expect(await resolveStaticDirectory(join(dir, "outside"), roots)).toMatchObject({
+			code: "directory-not-allowed",
+		});
+		expect(await resolveStaticDirectory(join(dir, "root", "link"), roots)).toMatchObject({
+			code: "directory-not-allowed",
+		});
+		expect(await resolveStaticDirectory(join(dir, "root"), [])).toMatchObject({
+			code: "directory-not-allowed",
+		});
+	});
+
+	it("skips roots that hold the private directory", async () => {
+		const privateDir = join(dir, "root", "site");
+		expect(await resolveStaticDirectory(join(dir, "root"), [dir], privateDir)).toMatchObject({
+			code: "directory-not-allowed",
+		});
+		expect(await resolveStaticDirectory(privateDir, [privateDir], privateDir)).toMatchObject({
+			code: "directory-not-allowed",
+		});
+		const roots = [dir, join(dir, "outside")];
+		expect(await resolveStaticDirectory(join(dir, "outside"), roots, privateDir)).toMatch(
+			/outside$/,
+		);
+	});
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import {
+	classifyTailscaleError,
+	funnelError,
+	isValidMountPath,
+	isValidPort,
+} from "../src/errors.js";
+
+describe("funnelError", () => {
+	it("attaches a remediation hint for the code", () => {
+		const error = funnelError("backend-not-running", "Tailscale backend state: Stopped");
+		expect(error).toEqual({
+			code: "backend-not-running",
+			message: "Tailscale backend state: Stopped",
+			hint: "Start tailscaled and run 'tailscale up'",
+		});
+	});
+});
+
+describe("isValidMountPath", () => {
+	it("rejects empty, dot and dot-dot segments", () => {
+		expect(isValidMountPath("/")).toBe(true);
+		expect(isValidMountPath("/hooks/github")).toBe(true);
+		expect(isValidMountPath("/hooks/..github")).toBe(true);
+		expect(isValidMountPath("/hooks/../admin")).toBe(false);
+		expect(isValidMountPath("/hooks/./ci")).toBe(false);
+		expect(isValidMountPath("/hooks//ci")).toBe(false);
+		expect(isValidMountPath("/hooks/%2e%2E")).toBe(false);
+	});
+});
+
+describe("isValidPort", () => {
+	it("accepts integers in the TCP port range only", () => {
+		expect(isValidPort(1)).toBe(true);
+		expect(isValidPort(65535)).toBe(true);
+		expect(isValidPort(0)).toBe(false);
+		expect(isValidPort(65536)).toBe(false);
+		expect(isValidPort(80.5)).toBe(false);
+		expect(isValidPort(Number.NaN)).toBe(false);
+	});
+});
+
+describe("classifyTailscaleError", () => {
+	it("recognises common tailscale CLI failures", () => {
+		expect(classifyTailscaleError("error: listener already exists for port 443")).toBe(
+			"listener-exists",
+		);
+		expect(classifyTailscaleError("foreground already exists under this port")).toBe(
+			"listener-exists",
+		);
+		expect(
+			classifyTailscaleError("Funnel not available; \"funnel\" node attribute not set."),
+		).toBe("funnel-not-permitted");
+		expect(classifyTailscaleError("spawn tailscale ENOENT")).toBe("tailscale-not-installed");
+		expect(classifyTailscaleError("failed to connect to local tailscaled; is tailscale running?")).toBe(
+			"backend-not-running",
+		);
+	});
+
+	it("returns null for unrecognised output", () => {
+		expect(classifyTailscaleError("something odd happened")).toBeNull();
+	});
+});
@@ -0,0 +1,118 @@
+import { createServer, type Server } from "node:http";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { isValidFallback, isValidHealthCheck, monitorHealth, probeHealth } from "../src/health.js";
+
+let status = 200;
+let server: Server | null = null;
+
+async function listen(port = 0): Promise<number> {
+	server = createServer((_req, res) => {
+		res.writeHead(status);
+		res.end();
+	});
+	await new Promise<void>((resolve) => server!.listen(port, "127.0.0.1", resolve));
+	const address = server.address();
+	return typeof address === "object" && address ? address.port : 0;
+}
+
+async function close(): Promise<void> {
+	const closing = server;
+	server = null;
+	if (closing) await new Promise<void>((resolve) => closing.close(() => resolve()));
+}
+
+afterEach(async () => {
+	status = 200;
+	await close();
+});
+
+describe("isValidHealthCheck", () => {
+	it("accepts the defaults and rejects out-of-range settings", () => {
+		expect(isValidHealthCheck({})).toBe(true);
+		expect(
+			isValidHealthCheck({ path: "/healthz", expectStatus: 204, onUnhealthy: "unexpose" }),
+		).toBe(true);
+		expect(isValidHealthCheck({ path: "healthz" })).toBe(false);
+		expect(isValidHealthCheck({ expectStatus: 700 })).toBe(false);
+		expect(isValidHealthCheck({ intervalSeconds: 0 })).toBe(false);
+		expect(isValidHealthCheck({ unhealthyThreshold: 1.5 })).toBe(false);
+		expect(isValidHealthCheck({ onUnhealthy: "restart" as never })).toBe(false);
+	});
+});
+
+describe("isValidFallback", () => {
+	it("accepts maintenance responses and local ports", () => {
+		expect(isValidFallback({ type: "maintenance" })).toBe(true);
+		expect(isValidFallback({ type: "maintenance", body: "back soon", retryAfterSeconds: 60 })).toBe(
+			true,
+		);
+		expect(isValidFallback({ type: "port", port: 3001 })).toBe(true);
+		expect(isValidFallback({ type: "port", port: 70000 })).toBe(false);
+		expect(isValidFallback({ type: "maintenance", retryAfterSeconds: -1 })).toBe(false);
+		expect(isValidFallback({ type: "redirect" } as never)).toBe(false);
+	});
+});
+
+describe("probeHealth", () => {
+	it("checks the HTTP status of the path, or just connects without one", async () => {
+		const port = await listen();
+		expect(await probeHealth(port, { path: "/healthz" })).toEqual({ ok: true });
+
+		status = 503;
+		expect(await probeHealth(port, { path: "/healthz" })).toEqual({ ok: false, error: "HTTP 503" });
+		expect(await probeHealth(port, { path: "/healthz", expectStatus: 503 })).toEqual({ ok: true });
+		expect(await probeHealth(port, { path: "/healthz", expectStatus: 200 })).toEqual({
+			ok: false,
+			error: "expected HTTP 200, got 503",
+		});
+		expect(await probeHealth(port, {})).toEqual({ ok: true });
+
+		await close();
+		const refused = await probeHealth(port, {});
+		expect(refused.ok).toBe(false);
+		expect(!refused.ok && refused.error).toContain("ECONNREFUSED");
+	});
+});
+
+describe("monitorHealth", () => {
+	it("turns unhealthy after the threshold and reports the recovery", async () => {
+		const port = await listen();
+		const onUnhealthy = vi.fn();
+		const onRecovered = vi.fn();
+		const monitor = monitorHealth({
+			port,
+			check: { path: "/", intervalSeconds: 60, unhealthyThreshold: 2 },
+			onUnhealthy,
+			onRecovered,
+		});
+
+		try {
+			expect(monitor.health.status).toBe("unknown");
+			expect(await monitor.check()).toMatchObject({ status: "healthy", consecutiveFailures: 0 });
+
+			status = 500;
+			expect(await monitor.check()).toMatchObject({ status: "healthy", consecutiveFailures: 1 });
+			expect(onUnhealthy).not.toHaveBeenCalled();
+			const unhealthy = await monitor.check();
+			expect(unhealthy).toMatchObject({
+				status: "unhealthy",
+				consecutiveFailures: 2,
+				lastError: "HTTP 500",
+			});
+			expect(onUnhealthy).toHaveBeenCalledOnce();
+
+			await monitor.check();
+			expect(onUnhealthy).toHaveBeenCalledOnce();
+			expect(monitor.health.unhealthySince).toBe(unhealthy.unhealthySince);
+
+			status = 200;
+			expect(await monitor.check()).toMatchObject({ status: "healthy", consecutiveFailures: 0 });
+			expect(onRecovered).toHaveBeenCalledWith(
+				expect.objectContaining({ status: "healthy" }),
+				expect.any(Number),
+			);
+		} finally {
+			monitor.stop();
+		}
+	});
+});
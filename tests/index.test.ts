@@ -1,7 +1,56 @@
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createHmac } from "node:crypto";
+import { EventEmitter } from "node:events";
+import { mkdir, mkdtemp, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { createServer } from "node:http";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
+// BackendState reported by the mocked `tailscale status --json`
+const tailscaled = vi.hoisted(() => ({ state: "Running" }));
+
+vi.mock("node:child_process", () => ({
+	execFile: vi.fn(
+		(file: string, args: string[], _opts: unknown, cb: (...r: unknown[]) => void) => {
+			if (file === "which") return cb(null, "/usr/bin/tailscale", "");
+			if (args.join(" ") === "status --json") {
+				return cb(
+					null,
+					JSON.stringify({
+						BackendState: tailscaled.state,
+						Self: { DNSName: "wopr.tailnet.ts.net." },
+					}),
+					"",
+				);
+			}
+			return cb(null, "{}", "");
+		},
+	),
+	spawn: vi.fn(() => ({ pid: undefined, on: vi.fn(), kill: vi.fn() })),
+}));
+
+import { execFile, spawn } from "node:child_process";
 // Import the plugin
 import plugin from "../src/index.js";
+import { getStats } from "../src/stats.js";
+import type { FunnelExtension } from "../src/types.js";
+
+function createMockCtx(config: Record<string, unknown> = {}) {
+	return {
+		log: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+		getConfig: () => ({
+			pollIntervalSeconds: 0,
+			startupGraceMs: 0,
+			localApi: { enabled: false },
+			...config,
+		}),
+		registerExtension: vi.fn(),
+		unregisterExtension: vi.fn(),
+		registerConfigSchema: vi.fn(),
+		unregisterConfigSchema: vi.fn(),
+		events: { emitCustom: vi.fn() },
+	};
+}
 
 describe("wopr-plugin-tailscale-funnel", () => {
 	it("exports a valid WOPRPlugin object", () => {
@@ -42,6 +91,1531 @@ describe("wopr-plugin-tailscale-funnel", () => {
 		});
 	});
 
+	describe("path multiplexing", () => {
+		let funnel: FunnelExtension;
+
+		beforeEach(async () => {
+			await plugin.shutdown!();
+			vi.mocked(spawn).mockClear();
+			const mockCtx = createMockCtx();
+			await plugin.init!(mockCtx as any);
+			funnel = mockCtx.registerExtension.mock.calls[0][1];
+		});
+
+		it("mounts each port under its own path without replacing the others", async () => {
+			expect(await funnel.expose(3000, "/github")).toMatchObject({
+				ok: true,
+				url: "https://wopr.tailnet.ts.net/github",
+			});
+			expect(await funnel.expose(4000, "/dashboard/")).toMatchObject({
+				ok: true,
+				url: "https://wopr.tailnet.ts.net/dashboard",
+			});
+
+			const routes = funnel.getStatus().funnels;
+			expect(routes.map((f) => [f.path, f.port])).toEqual([
+				["/github", 3000],
+				["/dashboard", 4000],
+			]);
+			expect(vi.mocked(spawn).mock.calls[1][1]).toEqual([
+				"funnel",
+				"--bg",
+				"--set-path",
+				"/dashboard",
+				"http://127.0.0.1:4000/dashboard",
+			]);
+		});
+
+		it("forwards the full request path with or without the local proxy", async () => {
+			const seen: string[] = [];
+			const upstream = createServer((req, res) => {
+				seen.push(req.url ?? "");
+				res.end("ok");
+			});
+			await new Promise<void>((resolve) => upstream.listen(0, "127.0.0.1", resolve));
+			const address = upstream.address();
+			const port = typeof address === "object" && address ? address.port : 0;
+
+			try {
+				await funnel.expose(port, "/api");
+				await funnel.expose(port, { path: "/hooks", headers: { "X-Source": "funnel" } });
+				const [direct, proxied] = vi
+					.mocked(spawn)
+					.mock.calls.map((call) => (call[1] as string[]).at(-1)!);
+				expect(funnel.getStatus().funnels.map((f) => [f.path, f.proxied])).toEqual([
+					["/api", false],
+					["/hooks", true],
+				]);
+
+				// tailscale appends the rest of the request path to the mount target
+				expect((await fetch(`${direct}/users`)).status).toBe(200);
+				expect((await fetch(`${proxied}/users`)).status).toBe(200);
+				expect(seen).toEqual(["/api/users", "/hooks/users"]);
+			} finally {
+				await new Promise<void>((resolve) => upstream.close(() => resolve()));
+			}
+		});
+
+		it("replaces only the route mounted on the same path", async () => {
+			await funnel.expose(3000, "/api");
+			await funnel.expose(5000, "/");
+			await funnel.expose(3001, "/api");
+
+			expect(funnel.getUrl(3000)).toBeNull();
+			expect(funnel.getUrl(3001)).toBe("https://wopr.tailnet.ts.net/api");
+			expect(funnel.getPort()).toBe(5000);
+		});
+
+		it("mounts the local reverse proxy for routes with rewrites", async () => {
+			await funnel.expose(3000, { path: "/hooks", stripPrefix: true });
+
+			const [route] = funnel.getStatus().funnels;
+			expect(route.proxied).toBe(true);
+			const args = vi.mocked(spawn).mock.calls[0][1] as string[];
+			expect(args.slice(0, 4)).toEqual(["funnel", "--bg", "--set-path", "/hooks"]);
+			expect(args[4]).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/hooks$/);
+		});
+
+		it("unexposes a single path or every path for a port", async () => {
+			await funnel.expose(3000, "/a");
+			await funnel.expose(3000, "/b");
+			await funnel.expose(4000, "/c");
+
+			expect(await funnel.unexpose(3000, "/a")).toEqual({ ok: true, stopped: 1, released: 1 });
+			expect(funnel.getStatus().funnels).toHaveLength(2);
+			expect(await funnel.unexpose(3000)).toEqual({ ok: true, stopped: 1, released: 1 });
+			expect(funnel.getStatus().funnels.map((f) => f.path)).toEqual(["/c"]);
+
+			const result = await funnel.unexpose(3000);
+			expect(result.ok).toBe(false);
+			expect(!result.ok && result.error.code).toBe("not-exposed");
+		});
+
+		it("returns permanent CLI failures seen during startup", async () => {
+			await plugin.shutdown!();
+			const mockCtx = createMockCtx({ startupGraceMs: 500 });
+			await plugin.init!(mockCtx as any);
+			funnel = mockCtx.registerExtension.mock.calls[0][1];
+
+			vi.mocked(spawn).mockImplementationOnce((() => {
+				const child = Object.assign(new EventEmitter(), {
+					stderr: new EventEmitter(),
+					kill: vi.fn(),
+				});
+				setTimeout(() => {
+					child.stderr.emit("data", "error: listener already exists for port 443\n");
+					child.emit("exit", 1, null);
+				}, 0);
+				return child;
+			}) as any);
+
+			const result = await funnel.expose(3000, "/busy");
+			expect(result.ok).toBe(false);
+			expect(!result.ok && result.error.code).toBe("listener-exists");
+			expect(funnel.getStatus().funnels).toEqual([]);
+		});
+
+		it("fails a mount that fails, retrying it only when asked to", async () => {
+			await plugin.shutdown!();
+			const mockCtx = createMockCtx({
+				startupGraceMs: 500,
+				restart: { initialDelayMs: 10, maxRestarts: 3 },
+			});
+			await plugin.init!(mockCtx as any);
+			funnel = mockCtx.registerExtension.mock.calls[0][1];
+
+			const exitWith = (code: number) =>
+				(() => {
+					const child = Object.assign(new EventEmitter(), {
+						stderr: new EventEmitter(),
+						kill: vi.fn(),
+					});
+					setTimeout(() => {
+						if (code !== 0) child.stderr.emit("data", "error: tailscaled hiccup\n");
+						child.emit("exit", code, null);
+					}, 0);
+					return child;
+				}) as any;
+			vi.mocked(spawn).mockImplementationOnce(exitWith(1));
+
+			const failed = await funnel.expose(3000, "/flaky");
+			expect(!failed.ok && failed.error.message).toContain("tailscaled hiccup");
+			expect(funnel.getStatus().funnels).toEqual([]);
+
+			vi.mocked(spawn).mockClear();
+			vi.mocked(spawn).mockImplementationOnce(exitWith(1)).mockImplementationOnce(exitWith(0));
+			const retried = await funnel.expose(3000, { path: "/flaky", retry: true });
+			expect(retried.ok).toBe(true);
+			await vi.waitFor(() => expect(spawn).toHaveBeenCalledTimes(2));
+			expect(funnel.getStatus().funnels).toMatchObject([{ path: "/flaky", restarts: 1 }]);
+		});
+
+		it("rejects invalid ports with a structured error", async () => {
+			const result = await funnel.expose(70000);
+			expect(result.ok).toBe(false);
+			expect(!result.ok && result.error.code).toBe("invalid-port");
+			expect(!result.ok && result.error.hint).toContain("65535");
+		});
+	});
+
+	describe("public ports", () => {
+		let funnel: FunnelExtension;
+
+		beforeEach(async () => {
+			await plugin.shutdown!();
+			vi.mocked(spawn).mockClear();
+			const mockCtx = createMockCtx();
+			await plugin.init!(mockCtx as any);
+			funnel = mockCtx.registerExtension.mock.calls[0][1];
+		});
+
+		it("mounts the same path on alternate public ports side by side", async () => {
+			const root = await funnel.expose(3000, "/");
+			const alt = await funnel.expose(4000, { path: "/", publicPort: 8443 });
+
+			expect(root.ok && root.url).toBe("https://wopr.tailnet.ts.net");
+			expect(alt.ok && alt.url).toBe("https://wopr.tailnet.ts.net:8443");
+			expect(vi.mocked(spawn).mock.calls[1][1]).toEqual([
+				"funnel",
+				"--bg",
+				"--https=8443",
+				"--set-path",
+				"/",
+				"http://127.0.0.1:4000",
+			]);
+			expect(funnel.getStatus().funnels.map((f) => [f.publicPort, f.port])).toEqual([
+				[443, 3000],
+				[8443, 4000],
+			]);
+
+			expect(await funnel.unexpose(4000, { publicPort: 8443 })).toMatchObject({ stopped: 1 });
+			expect(funnel.getStatus().funnels.map((f) => f.publicPort)).toEqual([443]);
+		});
+
+		it("picks a free public port with 'auto'", async () => {
+			await funnel.expose(3000, "/");
+			await funnel.expose(4000, { path: "/", publicPort: 8443 });
+
+			const auto = await funnel.expose(5000, { path: "/", publicPort: "auto" });
+			expect(auto.ok && auto.lease.publicPort).toBe(10000);
+
+			// A port already mounted on the path is joined instead
+			const again = await funnel.expose(4000, { path: "/", publicPort: "auto" });
+			expect(again.ok && again.lease.publicPort).toBe(8443);
+
+			const full = await funnel.expose(6000, { path: "/", publicPort: "auto" });
+			expect(!full.ok && full.error.code).toBe("no-free-public-port");
+		});
+
+		it("rejects public ports Funnel does not listen on", async () => {
+			const result = await funnel.expose(3000, { publicPort: 8080 });
+			expect(!result.ok && result.error.code).toBe("invalid-public-port");
+		});
+	});
+
+	describe("TCP routes", () => {
+		let funnel: FunnelExtension;
+
+		beforeEach(async () => {
+			await plugin.shutdown!();
+			vi.mocked(spawn).mockClear();
+			const mockCtx = createMockCtx();
+			await plugin.init!(mockCtx as any);
+			funnel = mockCtx.registerExtension.mock.calls[0][1];
+		});
+
+		it("forwards raw TCP on a whole public port", async () => {
+			const result = await funnel.expose(5432, { protocol: "tcp", publicPort: 10000 });
+
+			expect(result.ok && result.url).toBe("tcp://wopr.tailnet.ts.net:10000");
+			expect(vi.mocked(spawn).mock.calls[0][1]).toEqual([
+				"funnel",
+				"--bg",
+				"--tcp=10000",
+				"tcp://localhost:5432",
+			]);
+			expect(funnel.getStatus().funnels).toMatchObject([{ port: 5432, protocol: "tcp" }]);
+		});
+
+		it("terminates TLS for tls-terminated-tcp routes", async () => {
+			const result = await funnel.expose(1883, { protocol: "tls-terminated-tcp", publicPort: 8443 });
+
+			expect(result.ok && result.url).toBe("tls://wopr.tailnet.ts.net:8443");
+			expect(vi.mocked(spawn).mock.calls[0][1]).toEqual([
+				"funnel",
+				"--bg",
+				"--tls-terminated-tcp=8443",
+				"tcp://localhost:1883",
+			]);
+		});
+
+		it("proxies to HTTPS backends without verifying them", async () => {
+			await funnel.expose(8443, { path: "/ui", protocol: "https-insecure" });
+			expect(vi.mocked(spawn).mock.calls[0][1]).toEqual([
+				"funnel",
+				"--bg",
+				"--set-path",
+				"/ui",
+				"https+insecure://localhost:8443",
+			]);
+		});
+
+		it("does not share a public port with other routes", async () => {
+			await funnel.expose(3000, "/api");
+
+			const tcp = await funnel.expose(5432, { protocol: "tcp" });
+			expect(!tcp.ok && tcp.error.code).toBe("public-port-in-use");
+
+			const auto = await funnel.expose(5432, { protocol: "tcp", publicPort: "auto" });
+			expect(auto.ok && auto.lease.publicPort).toBe(8443);
+
+			const http = await funnel.expose(4000, { path: "/app", publicPort: 8443 });
+			expect(!http.ok && http.error.code).toBe("public-port-in-use");
+		});
+
+		it("rejects paths and proxy rewrites on TCP routes", async () => {
+			const withPath = await funnel.expose(5432, { path: "/db", protocol: "tcp" });
+			expect(!withPath.ok && withPath.error.code).toBe("invalid-protocol");
+
+			const rewrite = await funnel.expose(5432, { protocol: "tcp", stripPrefix: true });
+			expect(!rewrite.ok && rewrite.error.code).toBe("invalid-protocol");
+		});
+	});
+
+	describe("tailnet-only routes", () => {
+		let funnel: FunnelExtension;
+
+		beforeEach(async () => {
+			await plugin.shutdown!();
+			vi.mocked(spawn).mockClear();
+			const mockCtx = createMockCtx();
+			await plugin.init!(mockCtx as any);
+			funnel = mockCtx.registerExtension.mock.calls[0][1];
+		});
+
+		it("mounts tailnet-only routes with tailscale serve", async () => {
+			const result = await funnel.expose(3000, { path: "/admin", exposure: "tailnet" });
+
+			expect(result.ok && result.url).toBe("https://wopr.tailnet.ts.net/admin");
+			expect(vi.mocked(spawn).mock.calls[0][1]).toEqual([
+				"serve",
+				"--bg",
+				"--set-path",
+				"/admin",
+				"http://127.0.0.1:3000/admin",
+			]);
+			expect(funnel.getStatus().funnels).toMatchObject([
+				{ path: "/admin", port: 3000, exposure: "tailnet" },
+			]);
+		});
+
+		it("accepts any public port for tailnet-only routes", async () => {
+			const result = await funnel.expose(3000, { exposure: "tailnet", publicPort: 9443 });
+
+			expect(result.ok && result.url).toBe("https://wopr.tailnet.ts.net:9443");
+			expect(vi.mocked(spawn).mock.calls[0][1]).toEqual([
+				"serve",
+				"--bg",
+				"--https=9443",
+				"--set-path",
+				"/",
+				"http://127.0.0.1:3000",
+			]);
+		});
+
+		it("keeps public and tailnet-only routes on separate public ports", async () => {
+			await funnel.expose(3000, { path: "/hooks" });
+
+			const conflict = await funnel.expose(4000, { path: "/admin", exposure: "tailnet" });
+			expect(!conflict.ok && conflict.error.code).toBe("exposure-conflict");
+
+			const auto = await funnel.expose(4000, {
+				path: "/admin",
+				exposure: "tailnet",
+				publicPort: "auto",
+			});
+			expect(auto.ok && auto.lease.publicPort).toBe(8443);
+		});
+
+		it("rejects unknown exposures", async () => {
+			const result = await funnel.expose(3000, { exposure: "private" as "public" });
+			expect(!result.ok && result.error.code).toBe("invalid-exposure");
+		});
+	});
+
+	describe("leases", () => {
+		let funnel: FunnelExtension;
+
+		beforeEach(async () => {
+			await plugin.shutdown!();
+			vi.mocked(spawn).mockClear();
+			const mockCtx = createMockCtx();
+			await plugin.init!(mockCtx as any);
+			funnel = mockCtx.registerExtension.mock.calls[0][1];
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it("reference-counts callers exposing the same route", async () => {
+			const a = await funnel.expose(3000, { path: "/hooks", owner: "plugin-a" });
+			const b = await funnel.expose(3000, { path: "/hooks", owner: "plugin-b" });
+			if (!a.ok || !b.ok) throw new Error("expose failed");
+
+			expect(spawn).toHaveBeenCalledTimes(1);
+			expect(funnel.getStatus().funnels[0]).toMatchObject({
+				owners: ["plugin-a", "plugin-b"],
+				leases: 2,
+			});
+
+			expect(await a.lease.release()).toEqual({ ok: true, stopped: 0, released: 1 });
+			expect(funnel.getUrl(3000)).toBe("https://wopr.tailnet.ts.net/hooks");
+			expect(await b.lease.release()).toEqual({ ok: true, stopped: 1, released: 1 });
+			expect(funnel.getUrl(3000)).toBeNull();
+
+			// Releasing twice is a no-op
+			expect(await b.lease.release()).toEqual({ ok: true, stopped: 0, released: 0 });
+		});
+
+		it("gives each owner a single lease per route", async () => {
+			const first = await funnel.expose(3000, { owner: "plugin-a" });
+			const second = await funnel.expose(3000, { owner: "plugin-a" });
+			if (!first.ok || !second.ok) throw new Error("expose failed");
+
+			expect(second.lease.id).toBe(first.lease.id);
+			expect(funnel.getStatus().funnels[0].leases).toBe(1);
+		});
+
+		it("keeps other owners' routes from being unexposed or replaced", async () => {
+			await funnel.expose(3000, { path: "/hooks", owner: "plugin-a" });
+
+			const unexposed = await funnel.unexpose(3000, { owner: "plugin-b" });
+			expect(!unexposed.ok && unexposed.error.code).toBe("owned-by-other");
+			const replaced = await funnel.expose(4000, { path: "/hooks", owner: "plugin-b" });
+			expect(!replaced.ok && replaced.error.code).toBe("owned-by-other");
+			expect(funnel.getUrl(3000)).toBe("https://wopr.tailnet.ts.net/hooks");
+
+			// Only the operator's CLI overrides other owners
+			const forced = await funnel.unexpose(3000, { owner: "plugin-b", force: true } as never);
+			expect(!forced.ok && forced.error.code).toBe("owned-by-other");
+			await plugin.commands![0].handler(createMockCtx() as any, ["unexpose", "3000", "/hooks"]);
+			expect(funnel.getStatus().funnels).toEqual([]);
+		});
+
+		it("counts leases taken without an owner as holders", async () => {
+			await funnel.expose(3000, "/hooks");
+
+			const unexposed = await funnel.unexpose(3000, { owner: "plugin-b" });
+			expect(!unexposed.ok && unexposed.error.message).toBe(
+				"Port 3000 is held by an anonymous caller",
+			);
+			const replaced = await funnel.expose(4000, { path: "/hooks", owner: "plugin-b" });
+			expect(!replaced.ok && replaced.error.code).toBe("owned-by-other");
+			expect(await funnel.unexpose(3000, "/hooks")).toEqual({ ok: true, stopped: 1, released: 1 });
+		});
+
+		it("expires leases after their TTL unless renewed", async () => {
+			vi.useFakeTimers();
+			const result = await funnel.expose(3000, { owner: "plugin-a", ttlMs: 60000 });
+			if (!result.ok) throw new Error("expose failed");
+			expect(result.lease.expiresAt).toBe(Date.now() + 60000);
+
+			await vi.advanceTimersByTimeAsync(50000);
+			expect(result.lease.renew(60000)).toBe(true);
+			await vi.advanceTimersByTimeAsync(50000);
+			expect(funnel.getUrl(3000)).not.toBeNull();
+
+			await vi.advanceTimersByTimeAsync(10000);
+			expect(funnel.getUrl(3000)).toBeNull();
+			expect(result.lease.renew(60000)).toBe(false);
+		});
+
+		it("releases every lease held by an owner", async () => {
+			await funnel.expose(3000, { path: "/a", owner: "plugin-a" });
+			await funnel.expose(4000, { path: "/b", owner: "plugin-a" });
+			await funnel.expose(4000, { path: "/b", owner: "plugin-b" });
+
+			expect(await funnel.releaseOwner("plugin-a")).toBe(2);
+			expect(funnel.getStatus().funnels.map((f) => [f.path, f.owners])).toEqual([
+				["/b", ["plugin-b"]],
+			]);
+		});
+	});
+
+	describe("time-boxed and scheduled exposures", () => {
+		afterEach(async () => {
+			await plugin.shutdown!();
+			vi.useRealTimers();
+		});
+
+		async function init(config: Record<string, unknown> = {}) {
+			await plugin.shutdown!();
+			const mockCtx = createMockCtx(config);
+			await plugin.init!(mockCtx as any);
+			const funnel: FunnelExtension = mockCtx.registerExtension.mock.calls[0][1];
+			return { mockCtx, funnel };
+		}
+
+		it("takes down a route after ttlSeconds, warning before it does", async () => {
+			vi.useFakeTimers();
+			const { mockCtx, funnel } = await init({ expiryWarningSeconds: 60 });
+
+			expect(await funnel.expose(3000, { ttlSeconds: 0 })).toMatchObject({
+				ok: false,
+				error: { code: "invalid-ttl" },
+			});
+			const result = await funnel.expose(3000, { path: "/demo", ttlSeconds: 600 });
+			if (!result.ok) throw new Error("expose failed");
+			expect(funnel.getStatus().funnels[0].expiresAt).toBe(Date.now() + 600000);
+
+			await vi.advanceTimersByTimeAsync(540000);
+			expect(mockCtx.events.emitCustom).toHaveBeenCalledWith(
+				"funnel:lease-expiring",
+				expect.objectContaining({ port: 3000, path: "/demo", remainingMs: 60000 }),
+			);
+			expect(funnel.getUrl(3000)).not.toBeNull();
+
+			await vi.advanceTimersByTimeAsync(60000);
+			expect(funnel.getUrl(3000)).toBeNull();
+		});
+
+		it("only reports an expiry once every lease on the route has one", async () => {
+			const { funnel } = await init();
+			await funnel.expose(3000, { owner: "plugin-a", ttlSeconds: 60 });
+			await funnel.expose(3000, { owner: "plugin-b", ttlMs: 120000 });
+			expect(funnel.getStatus().funnels[0].expiresAt).toBeGreaterThan(Date.now() + 110000);
+
+			await funnel.expose(3000, { owner: "plugin-c" });
+			expect(funnel.getStatus().funnels[0].expiresAt).toBeUndefined();
+		});
+
+		it("exposes for a duration from the CLI and shows the time left", async () => {
+			const { mockCtx, funnel } = await init();
+			await plugin.commands![0].handler(mockCtx as any, ["expose", "3000", "--for", "30m"]);
+			expect(mockCtx.log.info).toHaveBeenCalledWith(
+				"Exposed: https://wopr.tailnet.ts.net -> localhost:3000 for 30m 0s",
+			);
+			expect(funnel.getStatus().funnels[0]).toMatchObject({ path: "/", owners: ["cli"] });
+
+			await plugin.commands![0].handler(mockCtx as any, ["status"]);
+			expect(mockCtx.log.info).toHaveBeenCalledWith(expect.stringMatching(/\[expires in (30m 0s|29m 5\ds)\]$/));
+
+			await plugin.commands![0].handler(mockCtx as any, ["expose", "4000", "--for=soon"]);
+			expect(mockCtx.log.error).toHaveBeenCalledWith(expect.stringContaining("Invalid duration: soon"));
+		});
+
+		it("exposes scheduled ports only while their cron expression matches", async () => {
+			vi.useFakeTimers();
+			// Monday, one minute before business hours (local time)
+			vi.setSystemTime(new Date(2026, 0, 5, 8, 59, 0));
+			const { mockCtx, funnel } = await init({
+				schedules: [
+					{ port: 8080, path: "/status", schedule: "* 9-16 * * 1-5" },
+					{ port: 9090, schedule: "not cron" },
+				],
+			});
+			expect(mockCtx.log.warn).toHaveBeenCalledWith(
+				'Ignoring schedule for port 9090: invalid cron expression "not cron"',
+			);
+			expect(funnel.getStatus().funnels).toEqual([]);
+
+			await vi.advanceTimersByTimeAsync(60000);
+			expect(funnel.getStatus().funnels[0]).toMatchObject({
+				port: 8080,
+				path: "/status",
+				owners: ["schedule"],
+				ephemeral: true,
+				expiresAt: new Date(2026, 0, 5, 17, 0).getTime(),
+			});
+
+			await vi.advanceTimersByTimeAsync(8 * 60 * 60000);
+			expect(funnel.getStatus().funnels).toEqual([]);
+			expect(mockCtx.events.emitCustom).toHaveBeenCalledWith(
+				"funnel:audit",
+				expect.objectContaining({ actor: "schedule", action: "expire", port: 8080 }),
+			);
+		});
+	});
+
+	describe("backend state watcher", () => {
+		beforeEach(async () => {
+			await plugin.shutdown!();
+			vi.mocked(spawn).mockClear();
+			vi.useFakeTimers();
+		});
+
+		afterEach(async () => {
+			await plugin.shutdown!();
+			vi.useRealTimers();
+			tailscaled.state = "Running";
+		});
+
+		it("registers the extension and exposes configured ports once tailscaled comes up", async () => {
+			tailscaled.state = "Stopped";
+			const mockCtx = createMockCtx({
+				pollIntervalSeconds: 1,
+				expose: { port: 7437, path: "/" },
+			});
+			await plugin.init!(mockCtx as any);
+			expect(mockCtx.registerExtension).not.toHaveBeenCalled();
+			expect(spawn).not.toHaveBeenCalled();
+
+			tailscaled.state = "Running";
+			await vi.advanceTimersByTimeAsync(1000);
+
+			expect(mockCtx.registerExtension).toHaveBeenCalledWith("funnel", expect.anything());
+			expect(vi.mocked(spawn).mock.calls[0][1]).toEqual([
+				"funnel",
+				"--bg",
+				"--set-path",
+				"/",
+				"http://127.0.0.1:7437",
+			]);
+			expect(mockCtx.events.emitCustom).toHaveBeenCalledWith(
+				"funnel:available",
+				expect.objectContaining({
+					previousState: "Stopped",
+					backendState: "Running",
+					routes: [
+						expect.objectContaining({
+							port: 7437,
+							path: "/",
+							ok: true,
+							url: "https://wopr.tailnet.ts.net",
+						}),
+					],
+				}),
+			);
+		});
+
+		it("unregisters the extension when tailscaled stops and re-exposes routes on recovery", async () => {
+			const mockCtx = createMockCtx({ pollIntervalSeconds: 1 });
+			await plugin.init!(mockCtx as any);
+			const funnel: FunnelExtension = mockCtx.registerExtension.mock.calls[0][1];
+			await funnel.expose(3000, "/github");
+
+			tailscaled.state = "NeedsLogin";
+			await vi.advanceTimersByTimeAsync(1000);
+
+			expect(mockCtx.unregisterExtension).toHaveBeenCalledWith("funnel");
+			expect(mockCtx.events.emitCustom).toHaveBeenCalledWith(
+				"funnel:unavailable",
+				expect.objectContaining({ previousState: "Running", backendState: "NeedsLogin" }),
+			);
+			const status = funnel.getStatus();
+			expect(status.available).toBe(false);
+			expect(status.error?.code).toBe("backend-not-running");
+			expect(status.funnels.map((f) => f.active)).toEqual([false]);
+
+			tailscaled.state = "Running";
+			await vi.advanceTimersByTimeAsync(1000);
+
+			expect(mockCtx.registerExtension).toHaveBeenCalledTimes(2);
+			expect(funnel.getStatus().funnels.map((f) => [f.path, f.port, f.active])).toEqual([
+				["/github", 3000, true],
+			]);
+			expect(vi.mocked(spawn)).toHaveBeenCalledTimes(2);
+		});
+
+		it("re-mounts tracked routes that go missing from the serve config", async () => {
+			const mockCtx = createMockCtx({ pollIntervalSeconds: 1 });
+			await plugin.init!(mockCtx as any);
+			const funnel: FunnelExtension = mockCtx.registerExtension.mock.calls[0][1];
+			await funnel.expose(3000, "/github");
+			expect(vi.mocked(spawn)).toHaveBeenCalledTimes(1);
+
+			// The mocked serve config is empty, so the route shows as missing past the grace period
+			await vi.advanceTimersByTimeAsync(16_000);
+
+			expect(mockCtx.events.emitCustom).toHaveBeenCalledWith(
+				"funnel:drift",
+				expect.objectContaining({ kind: "missing", path: "/github", port: 3000 }),
+			);
+			expect(vi.mocked(spawn)).toHaveBeenCalledTimes(2);
+			expect(vi.mocked(spawn).mock.calls[1][1]).toEqual(vi.mocked(spawn).mock.calls[0][1]);
+			expect(funnel.getStatus().funnels).toMatchObject([
+				{ path: "/github", port: 3000, active: true, restarts: 1 },
+			]);
+			expect(getStats().funnelRestarts).toBeGreaterThan(0);
+		});
+	});
+
+	describe("authentication", () => {
+		let funnel: FunnelExtension;
+
+		beforeEach(async () => {
+			await plugin.shutdown!();
+			vi.mocked(spawn).mockClear();
+			const mockCtx = createMockCtx();
+			await plugin.init!(mockCtx as any);
+			funnel = mockCtx.registerExtension.mock.calls[0][1];
+		});
+
+		/** Local proxy URL the funnel for the nth spawned route points at */
+		function proxyUrl(call = 0): string {
+			return (vi.mocked(spawn).mock.calls[call][1] as string[]).at(-1)!;
+		}
+
+		it("gates bearer routes behind issued tokens until they are revoked", async () => {
+			await funnel.expose(3000, { path: "/admin", auth: { type: "bearer" } });
+			expect(funnel.getStatus().funnels).toMatchObject([{ auth: "bearer", proxied: true }]);
+
+			expect((await fetch(proxyUrl())).status).toBe(401);
+
+			const issued = await funnel.createToken("/admin", { label: "ci" });
+			if (!issued.ok || !issued.token) throw new Error("token not issued");
+			const headers = { authorization: `Bearer ${issued.token}` };
+			// Past the gate; nothing listens on the local port in tests
+			expect((await fetch(proxyUrl(), { headers })).status).toBe(502);
+
+			expect(await funnel.revokeToken(issued.id)).toBe(true);
+			expect((await fetch(proxyUrl(), { headers })).status).toBe(401);
+			expect(await funnel.revokeToken(issued.id)).toBe(false);
+		});
+
+		it("issues signed URLs for paths under a signed route", async () => {
+			await funnel.expose(3000, { path: "/files", auth: { type: "signed" } });
+
+			const signed = await funnel.createToken("/files/report.pdf", { ttlMs: 60000 });
+			if (!signed.ok || !signed.url) throw new Error("URL not signed");
+			expect(signed.url).toMatch(/^https:\/\/wopr\.tailnet\.ts\.net\/files\/report\.pdf\?wopr_token=/);
+
+			const local = new URL(signed.url);
+			const base = proxyUrl().replace(/\/files$/, "");
+			expect((await fetch(`${base}${local.pathname}${local.search}`)).status).toBe(502);
+			expect((await fetch(`${base}/files/other.pdf${local.search}`)).status).toBe(403);
+		});
+
+		it("refuses tokens for routes without bearer or signed auth", async () => {
+			await funnel.expose(3000, "/open");
+			const result = await funnel.createToken("/open");
+			expect(!result.ok && result.error.code).toBe("auth-not-enabled");
+
+			const missing = await funnel.createToken("/nowhere", { publicPort: 8443 });
+			expect(!missing.ok && missing.error.code).toBe("not-exposed");
+		});
+
+		it("does not let another owner join the route without its auth", async () => {
+			await funnel.expose(3000, { path: "/admin", owner: "a", auth: { type: "bearer" } });
+			const weaker = await funnel.expose(3000, { path: "/admin", owner: "b" });
+
+			expect(!weaker.ok && weaker.error.code).toBe("owned-by-other");
+			expect(funnel.getStatus().funnels).toMatchObject([{ auth: "bearer", owners: ["a"] }]);
+		});
+
+		it("lets another owner join with the same auth written in a different key order", async () => {
+			const users = { ci: "hunter2", ops: "s3cret" };
+			await funnel.expose(3000, { path: "/admin", owner: "a", auth: { type: "basic", users } });
+			const joined = await funnel.expose(3000, {
+				path: "/admin",
+				owner: "b",
+				auth: { users: { ops: "s3cret", ci: "hunter2" }, type: "basic" },
+			});
+
+			expect(joined.ok).toBe(true);
+			expect(funnel.getStatus().funnels).toMatchObject([{ auth: "basic", owners: ["a", "b"] }]);
+		});
+
+		it("rejects auth on TCP routes and basic auth without users", async () => {
+			const tcp = await funnel.expose(5432, { protocol: "tcp", auth: { type: "bearer" } });
+			expect(!tcp.ok && tcp.error.code).toBe("invalid-protocol");
+
+			const basic = await funnel.expose(3000, { auth: { type: "basic", users: {} } });
+			expect(!basic.ok && basic.error.code).toBe("invalid-auth");
+		});
+
+		it("rejects unsigned webhooks at the proxy and counts them", async () => {
+			const verify = { preset: "github" as const, secret: "hush" };
+			await funnel.expose(3000, { path: "/hooks/github", verify });
+			expect(funnel.getStatus().funnels).toMatchObject([{ verify: "github", proxied: true }]);
+
+			const body = '{"zen":"ok"}';
+			const signature = `sha256=${createHmac("sha256", "hush").update(body).digest("hex")}`;
+			const forged = await fetch(proxyUrl(), { method: "POST", body });
+			expect(forged.status).toBe(401);
+			const signed = await fetch(proxyUrl(), {
+				method: "POST",
+				body,
+				headers: { "x-hub-signature-256": signature },
+			});
+			// Past verification; nothing listens on the local port in tests
+			expect(signed.status).toBe(502);
+
+			expect(getStats()).toMatchObject({ webhooksVerified: 1, webhooksRejected: 1 });
+		});
+
+		it("rejects unknown webhook presets and digests, and verification on TCP routes", async () => {
+			const unknown = await funnel.expose(3000, {
+				verify: { preset: "gitlab" as never, secret: "hush" },
+			});
+			expect(!unknown.ok && unknown.error.code).toBe("invalid-verify");
+
+			const digest = await funnel.expose(3000, {
+				verify: { preset: "generic-hmac", secret: "hush", algorithm: "bogus" as never },
+			});
+			expect(!digest.ok && digest.error.code).toBe("invalid-verify");
+
+			const tcp = await funnel.expose(5432, {
+				protocol: "tcp",
+				verify: { preset: "github", secret: "hush" },
+			});
+			expect(!tcp.ok && tcp.error.code).toBe("invalid-protocol");
+		});
+
+		it("blocks clients by IP and rate limit before they reach the local port", async () => {
+			await funnel.expose(3000, {
+				path: "/api",
+				ipDeny: ["203.0.113.0/24"],
+				rateLimit: { requestsPerMinute: 60, burst: 1 },
+			});
+			expect(funnel.getStatus().funnels).toMatchObject([{ restricted: true, proxied: true }]);
+
+			const denied = await fetch(proxyUrl(), { headers: { "x-forwarded-for": "203.0.113.9" } });
+			expect(denied.status).toBe(403);
+			const from = { headers: { "x-forwarded-for": "198.51.100.7" } };
+			expect((await fetch(proxyUrl(), from)).status).toBe(502);
+			const limited = await fetch(proxyUrl(), from);
+			expect(limited.status).toBe(429);
+			expect(limited.headers.get("retry-after")).toBe("1");
+
+			expect(getStats()).toMatchObject({ requestsDenied: 1, requestsRateLimited: 1 });
+		});
+
+		it("counts proxied requests per route and lists them with 'funnel logs'", async () => {
+			await funnel.expose(3000, { path: "/hooks", auth: { type: "bearer" } });
+			await (await fetch(`${proxyUrl()}/github?sig=secret`)).text();
+			await new Promise((resolve) => setTimeout(resolve, 20));
+
+			expect(getStats().routes["443:/hooks"]).toMatchObject({
+				requests: 1,
+				statusCodes: { "401": 1 },
+			});
+
+			const cmdCtx = { log: { info: vi.fn(), error: vi.fn() } };
+			await plugin.commands![0].handler(cmdCtx as any, ["logs", "--limit=5"]);
+			const lines = cmdCtx.log.info.mock.calls.map(([line]) => line as string);
+			expect(lines).toHaveLength(1);
+			expect(lines[0]).toMatch(/ GET :443\/hooks\/github 401 .* route=\/hooks$/);
+			expect(lines[0]).not.toContain("secret");
+		});
+
+		it("follows the access log until --timeout runs out", async () => {
+			await funnel.expose(3000, { path: "/hooks", auth: { type: "bearer" } });
+			const cmdCtx = { log: { info: vi.fn(), error: vi.fn() } };
+			const following = plugin.commands![0].handler(cmdCtx as any, [
+				"logs",
+				"--follow",
+				"--timeout=0.2s",
+			]);
+			await (await fetch(`${proxyUrl()}/github`)).text();
+			await following;
+
+			const lines = cmdCtx.log.info.mock.calls.map(([line]) => line as string);
+			expect(lines.at(-1)).toMatch(/ GET :443\/hooks\/github 401 /);
+
+			await plugin.commands![0].handler(cmdCtx as any, ["logs", "--follow", "--timeout=soon"]);
+			expect(cmdCtx.log.error).toHaveBeenCalledWith(expect.stringContaining("--timeout"));
+		});
+
+		it("captures requests on capture routes and replays them to the local port", async () => {
+			const upstream = createServer((req, res) => {
+				req.resume();
+				req.on("end", () => {
+					res.writeHead(204);
+					res.end();
+				});
+			});
+			await new Promise<void>((resolve) => upstream.listen(0, "127.0.0.1", resolve));
+			const address = upstream.address();
+			const port = typeof address === "object" && address ? address.port : 0;
+
+			try {
+				await funnel.expose(port, { path: "/hooks", capture: true });
+				expect(funnel.getStatus().funnels).toMatchObject([{ capturing: true, proxied: true }]);
+				await (
+					await fetch(`${proxyUrl()}/github`, {
+						method: "POST",
+						body: "{}",
+						headers: { authorization: "Bearer x" },
+					})
+				).text();
+				await new Promise((resolve) => setTimeout(resolve, 20));
+
+				const [captured] = funnel.listCaptures({ path: "/hooks" });
+				expect(captured).toMatchObject({
+					route: "443:/hooks",
+					method: "POST",
+					url: "/hooks/github",
+					status: 204,
+					body: "{}",
+					headers: { authorization: "[redacted]" },
+				});
+				expect(await funnel.replayCapture(captured.id)).toMatchObject({ ok: true, status: 204 });
+
+				const cmdCtx = { log: { info: vi.fn(), error: vi.fn() } };
+				await plugin.commands![0].handler(cmdCtx as any, ["inspect"]);
+				expect(cmdCtx.log.info).toHaveBeenCalledWith(expect.stringContaining(captured.id));
+
+				await funnel.unexpose(port);
+				expect(funnel.getCapture(captured.id)).toBeNull();
+				const gone = await funnel.replayCapture(captured.id);
+				expect(!gone.ok && gone.error.code).toBe("capture-not-found");
+			} finally {
+				await new Promise<void>((resolve) => upstream.close(() => resolve()));
+			}
+		});
+
+		it("rejects malformed IP rules and rate limits", async () => {
+			const cidr = await funnel.expose(3000, { ipAllow: ["10.0.0.0/40"] });
+			expect(!cidr.ok && cidr.error.code).toBe("invalid-access-rule");
+
+			const limit = await funnel.expose(3000, { rateLimit: { requestsPerMinute: -1 } });
+			expect(!limit.ok && limit.error.code).toBe("invalid-access-rule");
+		});
+	});
+
+	describe("health checks", () => {
+		let funnel: FunnelExtension;
+		let mockCtx: ReturnType<typeof createMockCtx>;
+
+		beforeEach(async () => {
+			await plugin.shutdown!();
+			vi.mocked(spawn).mockClear();
+			mockCtx = createMockCtx();
+			await plugin.init!(mockCtx as any);
+			funnel = mockCtx.registerExtension.mock.calls[0][1];
+		});
+
+		afterEach(async () => {
+			await plugin.shutdown!();
+		});
+
+		async function waitFor(predicate: () => boolean): Promise<void> {
+			for (let i = 0; i < 200 && !predicate(); i++) {
+				await new Promise((resolve) => setTimeout(resolve, 10));
+			}
+			expect(predicate()).toBe(true);
+		}
+
+		function healthOf(path: string) {
+			return funnel.getStatus().funnels.find((f) => f.path === path)?.health;
+		}
+
+		function emitted(event: string) {
+			return mockCtx.events.emitCustom.mock.calls.filter(([name]) => name === event);
+		}
+
+		it("serves a maintenance page while the local port fails and recovers on its own", async () => {
+			const upstream = createServer((_req, res) => res.end("ok"));
+			await new Promise<void>((resolve) => upstream.listen(0, "127.0.0.1", resolve));
+			const address = upstream.address();
+			const port = typeof address === "object" && address ? address.port : 0;
+
+			try {
+				await funnel.expose(port, {
+					path: "/app",
+					healthCheck: {
+						path: "/healthz",
+						intervalSeconds: 0.02,
+						unhealthyThreshold: 2,
+						onUnhealthy: "maintenance",
+					},
+				});
+				const url = (vi.mocked(spawn).mock.calls[0][1] as string[]).at(-1)!;
+				expect(funnel.getStatus().funnels).toMatchObject([{ proxied: true }]);
+				await waitFor(() => healthOf("/app")?.status === "healthy");
+				expect((await fetch(url)).status).toBe(200);
+
+				await new Promise<void>((resolve) => upstream.close(() => resolve()));
+				await waitFor(() => healthOf("/app")?.status === "unhealthy");
+				expect(healthOf("/app")).toMatchObject({ consecutiveFailures: 2 });
+				const down = await fetch(url);
+				expect(down.status).toBe(503);
+				expect(down.headers.get("retry-after")).toBe("1");
+				expect(emitted("funnel:unhealthy")).toEqual([
+					[
+						"funnel:unhealthy",
+						expect.objectContaining({ port, path: "/app", action: "maintenance" }),
+					],
+				]);
+
+				const cmdCtx = { log: { info: vi.fn(), error: vi.fn() } };
+				await plugin.commands![0].handler(cmdCtx as any, ["status"]);
+				expect(cmdCtx.log.info).toHaveBeenCalledWith(expect.stringContaining("[unhealthy]"));
+
+				await new Promise<void>((resolve) => upstream.listen(port, "127.0.0.1", resolve));
+				await waitFor(() => healthOf("/app")?.status === "healthy");
+				expect(emitted("funnel:recovered")).toEqual([
+					["funnel:recovered", expect.objectContaining({ port, path: "/app" })],
+				]);
+				expect((await fetch(url)).status).toBe(200);
+			} finally {
+				await new Promise<void>((resolve) => upstream.close(() => resolve()));
+			}
+		});
+
+		it("unexposes routes that ask for it once they turn unhealthy", async () => {
+			await funnel.expose(1, {
+				path: "/pulled",
+				healthCheck: { intervalSeconds: 0.02, unhealthyThreshold: 2, onUnhealthy: "unexpose" },
+			});
+			await funnel.expose(3000, { path: "/kept" });
+
+			await waitFor(() => healthOf("/pulled") === undefined);
+			expect(funnel.getStatus().funnels.map((f) => f.path)).toEqual(["/kept"]);
+			expect(emitted("funnel:unhealthy")).toEqual([
+				["funnel:unhealthy", expect.objectContaining({ port: 1, action: "unexpose" })],
+			]);
+			expect(emitted("funnel:audit").map(([, entry]) => entry)).toContainEqual(
+				expect.objectContaining({ actor: "health", action: "unexpose", port: 1, outcome: "ok" }),
+			);
+		});
+
+		it("rejects health checks a route cannot run", async () => {
+			const threshold = await funnel.expose(3000, {
+				path: "/bad",
+				healthCheck: { unhealthyThreshold: 0 },
+			});
+			expect(!threshold.ok && threshold.error.code).toBe("invalid-health-check");
+
+			const tcp = await funnel.expose(5432, {
+				protocol: "tcp",
+				publicPort: 10000,
+				healthCheck: { path: "/healthz" },
+			});
+			expect(!tcp.ok && tcp.error.code).toBe("invalid-health-check");
+		});
+
+		it("fails over to a fallback port and switches back once the primary recovers", async () => {
+			const listen = async (body: string, port = 0) => {
+				const server = createServer((_req, res) => res.end(body));
+				await new Promise<void>((resolve) => server.listen(port, "127.0.0.1", resolve));
+				const address = server.address();
+				return { server, port: typeof address === "object" && address ? address.port : 0 };
+			};
+			const close = (server: ReturnType<typeof createServer>) =>
+				new Promise<void>((resolve) => server.close(() => resolve()));
+			let primary = await listen("primary");
+			const secondary = await listen("secondary");
+
+			try {
+				await funnel.expose(primary.port, {
+					path: "/hooks",
+					healthCheck: { intervalSeconds: 0.02, unhealthyThreshold: 1 },
+					fallback: { type: "port", port: secondary.port },
+					capture: true,
+				});
+				const url = (vi.mocked(spawn).mock.calls[0][1] as string[]).at(-1)!;
+				await waitFor(() => healthOf("/hooks")?.status === "healthy");
+				expect(await (await fetch(url)).text()).toBe("primary");
+
+				await close(primary.server);
+				await waitFor(() => healthOf("/hooks")?.status === "unhealthy");
+				expect(funnel.getStatus().funnels).toMatchObject([{ fallbackActive: true }]);
+				expect(await (await fetch(url)).text()).toBe("secondary");
+				// Replays follow the failover too
+				const [captured] = funnel.listCaptures({ path: "/hooks" });
+				expect(await funnel.replayCapture(captured.id)).toMatchObject({
+					ok: true,
+					body: "secondary",
+				});
+				expect(emitted("funnel:unhealthy")).toEqual([
+					["funnel:unhealthy", expect.objectContaining({ action: "fallback" })],
+				]);
+
+				primary = await listen("primary", primary.port);
+				await waitFor(() => healthOf("/hooks")?.status === "healthy");
+				expect(funnel.getStatus().funnels[0].fallbackActive).toBeUndefined();
+				expect(await (await fetch(url)).text()).toBe("primary");
+			} finally {
+				await close(primary.server);
+				await close(secondary.server);
+			}
+		});
+
+		it("serves a configured maintenance response while the port is down", async () => {
+			await funnel.expose(1, {
+				path: "/deploying",
+				healthCheck: { intervalSeconds: 0.02, unhealthyThreshold: 1 },
+				fallback: {
+					type: "maintenance",
+					body: '{"error":"deploying"}',
+					contentType: "application/json",
+					retryAfterSeconds: 120,
+				},
+			});
+			const url = (vi.mocked(spawn).mock.calls[0][1] as string[]).at(-1)!;
+			await waitFor(() => healthOf("/deploying")?.status === "unhealthy");
+
+			const res = await fetch(url, { method: "POST", body: "{}" });
+			expect(res.status).toBe(503);
+			expect(res.headers.get("retry-after")).toBe("120");
+			expect(res.headers.get("content-type")).toBe("application/json");
+			expect(await res.json()).toEqual({ error: "deploying" });
+		});
+
+		it("rejects fallbacks a route cannot switch to", async () => {
+			const own = await funnel.expose(3000, { fallback: { type: "port", port: 3000 } });
+			expect(!own.ok && own.error.code).toBe("invalid-fallback");
+
+			const unexpose = await funnel.expose(3000, {
+				healthCheck: { onUnhealthy: "unexpose" },
+				fallback: { type: "maintenance" },
+			});
+			expect(!unexpose.ok && unexpose.error.code).toBe("invalid-fallback");
+
+			const missing = await funnel.expose(3000, { healthCheck: { onUnhealthy: "fallback" } });
+			expect(!missing.ok && missing.error.code).toBe("invalid-health-check");
+		});
+	});
+
+	describe("agent tools", () => {
+		type Tool = { name: string; handler: (args?: unknown) => Promise<{ content: { text: string }[] }> };
+
+		async function initWithAgent(agent?: Record<string, unknown>) {
+			await plugin.shutdown!();
+			const mockCtx = { ...createMockCtx(agent ? { agent } : {}), registerA2AServer: vi.fn() };
+			await plugin.init!(mockCtx as any);
+			const tools: Tool[] = mockCtx.registerA2AServer.mock.calls[0][0].tools;
+			const funnel: FunnelExtension = mockCtx.registerExtension.mock.calls[0][1];
+			const call = async (name: string, args: Record<string, unknown>) => {
+				const tool = tools.find((t) => t.name === name);
+				if (!tool) throw new Error(`no tool ${name}`);
+				return JSON.parse((await tool.handler(args)).content[0].text);
+			};
+			return { mockCtx, tools, funnel, call };
+		}
+
+		it("only offers management tools when config allows some routes", async () => {
+			const { tools } = await initWithAgent();
+			expect(tools.map((t) => t.name)).not.toContain("funnel_expose");
+
+			const withAgent = await initWithAgent({ allow: [{ port: 3000 }] });
+			expect(withAgent.tools.map((t) => t.name)).toEqual(
+				expect.arrayContaining(["funnel_expose", "funnel_unexpose", "funnel_extend_lease"]),
+			);
+		});
+
+		it("refuses traversal out of an allowlisted path", async () => {
+			const { funnel, call } = await initWithAgent({ allow: [{ port: 3000, path: "/hooks" }] });
+
+			expect(
+				await call("funnel_expose", { port: 3000, path: "/hooks/../admin", ttlSeconds: 60 }),
+			).toMatchObject({ ok: false, error: { code: "invalid-path" } });
+			const direct = await funnel.expose(3000, "/hooks/../admin");
+			expect(!direct.ok && direct.error.code).toBe("invalid-path");
+			expect(funnel.getStatus().funnels).toEqual([]);
+		});
+
+		it("exposes allowlisted routes for a limited time and audits every change", async () => {
+			const { mockCtx, funnel, call } = await initWithAgent({
+				allow: [{ port: 3000, path: "/hooks" }],
+				maxTtlSeconds: 600,
+			});
+
+			expect(await call("funnel_expose", { port: 4000, path: "/hooks", ttlSeconds: 60 })).toMatchObject({
+				ok: false,
+				error: { code: "agent-not-permitted" },
+			});
+			expect(await call("funnel_expose", { port: 3000, path: "/hooks/ci" })).toMatchObject({
+				ok: false,
+				error: { code: "invalid-ttl" },
+			});
+			expect(
+				await call("funnel_expose", { port: 3000, path: "/hooks/ci", ttlSeconds: 6000 }),
+			).toMatchObject({ ok: false, error: { code: "invalid-ttl" } });
+			expect(funnel.getStatus().funnels).toEqual([]);
+
+			const exposed = await call("funnel_expose", {
+				port: 3000,
+				path: "/hooks/ci",
+				ttlSeconds: 60,
+				agent: "deploy-bot",
+			});
+			expect(exposed).toMatchObject({ ok: true, url: "https://wopr.tailnet.ts.net/hooks/ci" });
+			expect(Date.parse(exposed.expiresAt) - Date.now()).toBeGreaterThan(55000);
+			expect(funnel.getStatus().funnels[0]).toMatchObject({ owners: ["a2a"], ephemeral: true });
+
+			const extended = await call("funnel_extend_lease", {
+				port: 3000,
+				path: "/hooks/ci",
+				ttlSeconds: 300,
+			});
+			expect(Date.parse(extended.expiresAt) - Date.now()).toBeGreaterThan(295000);
+
+			// A route someone else holds is left alone
+			await funnel.expose(3000, { path: "/hooks/ci", owner: "plugin-a" });
+			expect(await call("funnel_unexpose", { port: 3000, path: "/hooks/ci" })).toEqual({
+				ok: true,
+				stopped: 0,
+				released: 1,
+			});
+			expect(await call("funnel_unexpose", { port: 3000, path: "/hooks/ci" })).toMatchObject({
+				ok: false,
+				error: { code: "owned-by-other" },
+			});
+			expect(funnel.getUrl(3000)).toBe("https://wopr.tailnet.ts.net/hooks/ci");
+
+			const audit = (await call("funnel_audit", {})).entries.filter((e: { actor: string }) =>
+				e.actor.startsWith("a2a"),
+			);
+			expect(audit.map((e: { action: string; outcome: string }) => `${e.action} ${e.outcome}`)).toEqual([
+				"unexpose failed",
+				"unexpose ok",
+				"extend ok",
+				"expose ok",
+				"expose denied",
+				"expose denied",
+				"expose denied",
+			]);
+			expect(audit[3]).toMatchObject({
+				actor: "a2a:deploy-bot",
+				port: 3000,
+				path: "/hooks/ci",
+				publicUrl: "https://wopr.tailnet.ts.net/hooks/ci",
+				ttlSeconds: 60,
+			});
+			expect(audit[6]).toMatchObject({ port: 4000, error: "agent-not-permitted" });
+			expect(mockCtx.events.emitCustom).toHaveBeenCalledWith(
+				"funnel:audit",
+				expect.objectContaining({ action: "extend", outcome: "ok", ttlSeconds: 300 }),
+			);
+		});
+	});
+
+	describe("metrics endpoint", () => {
+		it("serves OpenMetrics while the plugin runs and closes it on shutdown", async () => {
+			await plugin.shutdown!();
+			const mockCtx = createMockCtx({ metrics: { enabled: true, port: 0 } });
+			await plugin.init!(mockCtx as any);
+			const funnel: FunnelExtension = mockCtx.registerExtension.mock.calls[0][1];
+			await funnel.expose(3000, "/api");
+
+			const logged = mockCtx.log.info.mock.calls
+				.map(([line]) => String(line))
+				.find((line) => line.startsWith("Metrics available at "));
+			const url = logged?.slice("Metrics available at ".length) ?? "";
+			expect(url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/metrics$/);
+
+			const text = await (await fetch(url)).text();
+			expect(text).toContain("wopr_funnel_up 1\n");
+			expect(text).toContain('wopr_funnel_active_routes{exposure="public"} 1\n');
+			expect(text).toBe(funnel.getMetrics());
+
+			await plugin.shutdown!();
+			await expect(fetch(url)).rejects.toThrow();
+		});
+	});
+
+	describe("directory and text routes", () => {
+		let dir: string;
+		let funnel: FunnelExtension;
+
+		beforeEach(async () => {
+			await plugin.shutdown!();
+			vi.mocked(spawn).mockClear();
+			dir = await mkdtemp(join(tmpdir(), "funnel-static-"));
+			const mockCtx = createMockCtx({ staticRoots: [dir] });
+			await plugin.init!(mockCtx as any);
+			funnel = mockCtx.registerExtension.mock.calls[0][1];
+		});
+
+		afterEach(async () => {
+			await plugin.shutdown!();
+			await rm(dir, { recursive: true, force: true });
+		});
+
+		it("publishes a directory inside the allowed roots", async () => {
+			const result = await funnel.exposeDirectory(dir, "/artifacts");
+
+			expect(result.ok && result.url).toBe("https://wopr.tailnet.ts.net/artifacts");
+			const args = vi.mocked(spawn).mock.calls[0][1] as string[];
+			expect(args.slice(0, 4)).toEqual(["funnel", "--bg", "--set-path", "/artifacts"]);
+			expect(args[4]).toMatch(/funnel-static-/);
+			expect(funnel.getStatus().funnels).toMatchObject([
+				{ path: "/artifacts", port: 0, directory: args[4] },
+			]);
+			expect(funnel.getPort()).toBeNull();
+		});
+
+		it("rejects directories outside the allowed roots", async () => {
+			const result = await funnel.exposeDirectory(tmpdir(), "/tmp");
+			expect(!result.ok && result.error.code).toBe("directory-not-allowed");
+			expect(spawn).not.toHaveBeenCalled();
+		});
+
+		it("serves a fixed text body and releases it through its lease", async () => {
+			const result = await funnel.exposeText("Back soon", { path: "/status", owner: "ops" });
+
+			expect(vi.mocked(spawn).mock.calls[0][1]).toEqual([
+				"funnel",
+				"--bg",
+				"--set-path",
+				"/status",
+				"text:Back soon",
+			]);
+			expect(funnel.getStatus().funnels).toMatchObject([{ path: "/status", text: "Back soon" }]);
+
+			expect(result.ok && (await result.lease.release())).toMatchObject({ ok: true, stopped: 1 });
+			expect(funnel.getStatus().funnels).toEqual([]);
+		});
+
+		it("unexposes directory and text routes by path", async () => {
+			await funnel.exposeText("Back soon", { path: "/status", owner: "ops" });
+			await funnel.exposeDirectory(dir, { path: "/artifacts", owner: "ci" });
+
+			const unnamed = await funnel.unexpose(0);
+			expect(!unnamed.ok && unnamed.error.code).toBe("invalid-port");
+			expect(await funnel.unexpose(0, { path: "/status", owner: "ops" })).toEqual({
+				ok: true,
+				stopped: 1,
+				released: 1,
+			});
+
+			const cmdCtx = { log: { info: vi.fn(), error: vi.fn() } };
+			await plugin.commands![0].handler(cmdCtx as any, ["unexpose", "/artifacts"]);
+			expect(cmdCtx.log.info).toHaveBeenCalledWith("Stopped funnel on /artifacts");
+			expect(funnel.getStatus().funnels).toEqual([]);
+		});
+	});
+
+	describe("persistence", () => {
+		let dir: string;
+
+		beforeEach(async () => {
+			await plugin.shutdown!();
+			vi.mocked(spawn).mockClear();
+			dir = await mkdtemp(join(tmpdir(), "funnel-index-"));
+		});
+
+		afterEach(async () => {
+			await plugin.shutdown!();
+			await rm(dir, { recursive: true, force: true });
+		});
+
+		function initWithPluginDir(config: Record<string, unknown> = {}) {
+			const mockCtx = { ...createMockCtx(config), getPluginDir: () => dir };
+			return plugin.init!(mockCtx as any).then(() => mockCtx);
+		}
+
+		async function readState() {
+			return JSON.parse(await readFile(join(dir, "exposures.json"), "utf-8")).exposures;
+		}
+
+		it("saves webhook secrets only where the file owner can read them", async () => {
+			const mockCtx = await initWithPluginDir();
+			const funnel: FunnelExtension = mockCtx.registerExtension.mock.calls[0][1];
+			const verify = { preset: "github" as const, secret: "whsec" };
+			await funnel.expose(3000, { path: "/hooks", verify, owner: "wopr-plugin-github" });
+			await plugin.shutdown!();
+
+			expect((await stat(join(dir, "exposures.json"))).mode & 0o777).toBe(0o600);
+			expect(await readState()).toMatchObject([{ port: 3000, path: "/hooks", verify }]);
+		});
+
+		it("reports and saves the settings of the latest caller to join a route", async () => {
+			const mockCtx = await initWithPluginDir();
+			const funnel: FunnelExtension = mockCtx.registerExtension.mock.calls[0][1];
+			await funnel.expose(3000, { path: "/hooks", stripPrefix: true, owner: "plugin-a" });
+			await funnel.expose(3000, { path: "/hooks", capture: true, owner: "plugin-b" });
+
+			expect(funnel.getStatus().funnels).toMatchObject([{ path: "/hooks", capturing: true }]);
+			await plugin.shutdown!();
+			const saved = await readState();
+			expect(saved).toMatchObject([
+				{ owner: "plugin-a", capture: true },
+				{ owner: "plugin-b", capture: true },
+			]);
+			expect(saved[0].stripPrefix).toBeUndefined();
+		});
+
+		it("publishes directories from public/ and never the data directory itself", async () => {
+			await mkdir(join(dir, "public", "site"), { recursive: true });
+			const mockCtx = await initWithPluginDir();
+			const funnel: FunnelExtension = mockCtx.registerExtension.mock.calls[0][1];
+
+			const site = await funnel.exposeDirectory(join(dir, "public", "site"), "/site");
+			expect(site.ok).toBe(true);
+			const data = await funnel.exposeDirectory(dir, "/data");
+			expect(!data.ok && data.error.code).toBe("directory-not-allowed");
+
+			await plugin.shutdown!();
+			const configured = await initWithPluginDir({ staticRoots: [dir] });
+			const unsafe: FunnelExtension = configured.registerExtension.mock.calls[0][1];
+			const refused = await unsafe.exposeDirectory(join(dir, "public"), "/public");
+			expect(!refused.ok && refused.error.code).toBe("directory-not-allowed");
+		});
+
+		it("keeps an audit trail of exposure changes across restarts", async () => {
+			const mockCtx = await initWithPluginDir({ expose: { port: 7437 } });
+			const funnel: FunnelExtension = mockCtx.registerExtension.mock.calls[0][1];
+			const exposed = await funnel.expose(3000, { path: "/github", owner: "wopr-plugin-github" });
+			if (!exposed.ok) throw new Error("expose failed");
+			exposed.lease.renew(60000);
+			await funnel.expose(99999, "/bad");
+			await plugin.commands![0].handler(mockCtx as any, ["unexpose", "3000", "/github"]);
+			await plugin.shutdown!();
+
+			const lines = (await readFile(join(dir, "audit.jsonl"), "utf-8")).trim().split("\n");
+			expect(lines.map((line) => JSON.parse(line))).toMatchObject([
+				{ actor: "config", action: "expose", port: 7437, path: "/", outcome: "ok" },
+				{
+					actor: "wopr-plugin-github",
+					action: "expose",
+					port: 3000,
+					path: "/github",
+					publicPort: 443,
+					publicUrl: "https://wopr.tailnet.ts.net/github",
+					outcome: "ok",
+				},
+				{ actor: "wopr-plugin-github", action: "extend", ttlSeconds: 60, outcome: "ok" },
+				{ actor: "api", action: "expose", port: 99999, outcome: "failed", error: "invalid-port" },
+				{ actor: "cli", action: "unexpose", port: 3000, path: "/github", outcome: "ok" },
+			]);
+
+			const cmdCtx = await initWithPluginDir();
+			cmdCtx.log.info.mockClear();
+			await plugin.commands![0].handler(cmdCtx as any, ["audit", "--actor=cli"]);
+			expect(cmdCtx.log.info).toHaveBeenCalledTimes(1);
+			expect(cmdCtx.log.info).toHaveBeenCalledWith(
+				expect.stringMatching(/ cli unexpose 3000 \/github \(:443\) ok$/),
+			);
+		});
+
+		it("persists runtime exposures and marks ephemeral and configured ones", async () => {
+			const mockCtx = await initWithPluginDir({ expose: { port: 7437 } });
+			const funnel: FunnelExtension = mockCtx.registerExtension.mock.calls[0][1];
+
+			await funnel.expose(3000, { path: "/github", owner: "wopr-plugin-github" });
+			await funnel.expose(4000, { path: "/tmp", ephemeral: true });
+			await plugin.shutdown!();
+
+			expect(await readState()).toEqual([
+				expect.objectContaining({ port: 7437, path: "/", owner: "config", ephemeral: true }),
+				{
+					port: 3000,
+					path: "/github",
+					publicPort: 443,
+					exposure: "public",
+					protocol: "http",
+					owner: "wopr-plugin-github",
+					createdAt: expect.any(Number),
+				},
+				expect.objectContaining({ port: 4000, path: "/tmp", ephemeral: true }),
+			]);
+		});
+
+		it("turns off ephemeral and expired mounts left behind by a crash", async () => {
+			await writeFile(
+				join(dir, "exposures.json"),
+				JSON.stringify({
+					version: 1,
+					exposures: [
+						{ port: 4000, path: "/demo", owner: "a2a", ephemeral: true, createdAt: 1 },
+						{ port: 4001, path: "/old", publicPort: 8443, createdAt: 2, expiresAt: 3 },
+						{ port: 7437, path: "/", owner: "config", ephemeral: true, createdAt: 4 },
+					],
+				}),
+			);
+
+			vi.mocked(execFile).mockClear();
+			const mockCtx = await initWithPluginDir({ expose: { port: 7437 } });
+			const funnel: FunnelExtension = mockCtx.registerExtension.mock.calls[0][1];
+
+			const runs = vi.mocked(execFile).mock.calls.map(([, args]) => (args as string[]).join(" "));
+			expect(runs).toContain("funnel --set-path /demo off");
+			expect(runs).toContain("funnel --https=8443 --set-path /old off");
+			// Still configured, so mounted again instead of turned off
+			expect(runs).not.toContain("funnel --set-path / off");
+			expect(funnel.getStatus().funnels.map((f) => f.path)).toEqual(["/"]);
+		});
+
+		it("restores persisted exposures on init, after configured ones", async () => {
+			await writeFile(
+				join(dir, "exposures.json"),
+				JSON.stringify({
+					version: 1,
+					exposures: [
+						{ port: 3000, path: "/github", owner: "wopr-plugin-github", createdAt: 42 },
+						{ port: 9999, path: "/", createdAt: 43 },
+					],
+				}),
+			);
+
+			const mockCtx = await initWithPluginDir({ expose: { port: 7437 } });
+			const funnel: FunnelExtension = mockCtx.registerExtension.mock.calls[0][1];
+
+			// The root path is taken by config, so the persisted root route is skipped
+			expect(funnel.getStatus().funnels.map((f) => [f.path, f.port, f.owners])).toEqual([
+				["/", 7437, ["config"]],
+				["/github", 3000, ["wopr-plugin-github"]],
+			]);
+			await plugin.shutdown!();
+			expect(await readState()).toEqual([
+				expect.objectContaining({ port: 7437, owner: "config", ephemeral: true }),
+				{
+					port: 3000,
+					path: "/github",
+					publicPort: 443,
+					exposure: "public",
+					protocol: "http",
+					owner: "wopr-plugin-github",
+					createdAt: 42,
+				},
+			]);
+		});
+
+		it("drops restored plugin leases that their plugin does not claim", async () => {
+			await writeFile(
+				join(dir, "exposures.json"),
+				JSON.stringify({
+					version: 1,
+					exposures: [
+						{ port: 3000, path: "/gone", owner: "plugin-gone", createdAt: 1 },
+						{ port: 3001, path: "/loaded", owner: "plugin-loaded", createdAt: 2 },
+						{ port: 3002, path: "/exposed", owner: "plugin-exposed", createdAt: 3 },
+						{ port: 3003, path: "/cli", owner: "cli", createdAt: 4 },
+					],
+				}),
+			);
+			vi.useFakeTimers();
+			try {
+				const mockCtx = { ...createMockCtx(), getPluginDir: () => dir };
+				const on = vi.fn(() => () => {});
+				Object.assign(mockCtx.events, { on });
+				await plugin.init!(mockCtx as any);
+				const funnel: FunnelExtension = mockCtx.registerExtension.mock.calls[0][1];
+				expect(funnel.getStatus().funnels).toHaveLength(4);
+
+				const [event, handler] = on.mock.calls[0] as unknown as [string, Function];
+				expect(event).toBe("plugin:afterInit");
+				handler({ plugin: "plugin-loaded", version: "1.0.0" });
+				await funnel.expose(3002, { path: "/exposed", owner: "plugin-exposed" });
+				await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+
+				expect(funnel.getStatus().funnels.map((f) => f.path)).toEqual([
+					"/loaded",
+					"/exposed",
+					"/cli",
+				]);
+			} finally {
+				vi.useRealTimers();
+			}
+		});
+
+		it("forgets unexposed routes", async () => {
+			const mockCtx = await initWithPluginDir();
+			const funnel: FunnelExtension = mockCtx.registerExtension.mock.calls[0][1];
+
+			await funnel.expose(3000, "/a");
+			await funnel.unexpose(3000);
+			await plugin.shutdown!();
+
+			expect(await readState()).toEqual([]);
+		});
+	});
+
 	describe("shutdown", () => {
 		beforeEach(async () => {
 			// Reset plugin state between tests
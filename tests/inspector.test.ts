@@ -0,0 +1,155 @@
+import { createServer, type Server } from "node:http";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	clearCaptures,
+	findCapture,
+	listCaptures,
+	REDACTED,
+	recordCapture,
+	redactHeaders,
+	redactUrl,
+	replayRequest,
+	resetInspector,
+} from "../src/inspector.js";
+import type { ProxyCapture } from "../src/proxy.js";
+
+function capture(overrides: Partial<ProxyCapture> = {}): ProxyCapture {
+	return {
+		method: "POST",
+		url: "/hooks/github",
+		headers: { "content-type": "application/json" },
+		body: Buffer.from('{"action":"opened"}'),
+		bodyBytes: 19,
+		status: 200,
+		durationMs: 12,
+		client: "198.51.100.7",
+		...overrides,
+	};
+}
+
+describe("redaction", () => {
+	it("hides credentials and signatures in headers", () => {
+		expect(
+			redactHeaders({
+				authorization: "Bearer abc",
+				cookie: "session=1",
+				"x-hub-signature-256": "sha256=...",
+				"x-api-key": "k",
+				"content-type": "application/json",
+			}),
+		).toEqual({
+			authorization: REDACTED,
+			cookie: REDACTED,
+			"x-hub-signature-256": REDACTED,
+			"x-api-key": REDACTED,
+			"content-type": "application/json",
+		});
+	});
+
+	it("hides token and signature query parameters", () => {
+		expect(redactUrl("/files/a.pdf?wopr_token=url_1&wopr_expires=9&wopr_sig=abc&page=2")).toBe(
+			`/files/a.pdf?wopr_token=${REDACTED}&wopr_expires=9&wopr_sig=${REDACTED}&page=2`,
+		);
+		expect(redactUrl("/plain")).toBe("/plain");
+	});
+
+	it("keeps malformed percent-encodings instead of throwing", () => {
+		expect(redactUrl("/hook?%zz=1&wopr_%74oken=x")).toBe(`/hook?%zz=1&wopr_%74oken=${REDACTED}`);
+	});
+});
+
+describe("captures", () => {
+	afterEach(() => {
+		resetInspector();
+	});
+
+	it("records requests whose query cannot be decoded", () => {
+		expect(recordCapture("443:/hooks", capture({ url: "/hooks?%zz=1" })).url).toBe("/hooks?%zz=1");
+	});
+
+	it("keeps the newest requests per route and finds them by id", () => {
+		for (let i = 0; i < 4; i++) recordCapture("443:/hooks", capture({ url: `/hooks/${i}` }), 3);
+		const other = recordCapture("8443:/", capture({ method: "GET", body: Buffer.alloc(0) }));
+
+		expect(listCaptures("443:/hooks").map((c) => c.url)).toHaveLength(3);
+		expect(listCaptures("443:/hooks").map((c) => c.url)).not.toContain("/hooks/0");
+		expect(listCaptures()).toHaveLength(4);
+		expect(findCapture(other.id)).toEqual(other);
+
+		expect(clearCaptures("443:/hooks")).toBe(3);
+		expect(listCaptures()).toEqual([other]);
+	});
+
+	it("stores binary bodies as base64 and flags truncated ones", () => {
+		const binary = recordCapture(
+			"443:/",
+			capture({ body: Buffer.from([0xff, 0x00, 0xfe]), bodyBytes: 10 }),
+		);
+		expect(binary).toMatchObject({ bodyEncoding: "base64", body: "/wD+", truncated: true });
+	});
+});
+
+describe("replayRequest", () => {
+	let upstream: Server;
+	let port: number;
+	let received: { url?: string; headers: Record<string, unknown>; body: string }[];
+
+	beforeEach(async () => {
+		received = [];
+		upstream = createServer((req, res) => {
+			let body = "";
+			req.on("data", (chunk) => {
+				body += chunk.toString();
+			});
+			req.on("end", () => {
+				received.push({ url: req.url, headers: req.headers, body });
+				res.writeHead(202, { "x-handled": "yes" });
+				res.end("accepted");
+			});
+		});
+		await new Promise<void>((resolve) => upstream.listen(0, "127.0.0.1", resolve));
+		const address = upstream.address();
+		port = typeof address === "object" && address ? address.port : 0;
+	});
+
+	afterEach(async () => {
+		resetInspector();
+		await new Promise<void>((resolve) => upstream.close(() => resolve()));
+	});
+
+	it("resends the request with the route's rewrites, minus redacted headers", async () => {
+		const captured = recordCapture(
+			"443:/hooks",
+			capture({ headers: { authorization: "Bearer x", "x-event": "push" } }),
+		);
+
+		const result = await replayRequest(captured, {
+			path: "/hooks",
+			port,
+			stripPrefix: true,
+			headers: { "x-source": "funnel" },
+		});
+
+		expect(result).toMatchObject({ ok: true, status: 202, body: "accepted" });
+		expect(received).toHaveLength(1);
+		expect(received[0].url).toBe("/github");
+		expect(received[0].body).toBe('{"action":"opened"}');
+		expect(received[0].headers).toMatchObject({
+			"x-event": "push",
+			"x-source": "funnel",
+			"x-wopr-replay": captured.id,
+		});
+		expect(received[0].headers.authorization).toBeUndefined();
+	});
+
+	it("refuses truncated bodies and reports unreachable ports", async () => {
+		const truncated = recordCapture("443:/", capture({ bodyBytes: 1000 }));
+		const refused = await replayRequest(truncated, { path: "/", port });
+		expect(!refused.ok && refused.error.code).toBe("replay-failed");
+
+		const whole = recordCapture("443:/", capture());
+		const dead = await replayRequest(whole, { path: "/", port: 1 });
+		expect(!dead.ok && dead.error.code).toBe("replay-failed");
+		expect(received).toEqual([]);
+	});
+});
@@ -0,0 +1,53 @@
+import { rmSync } from "node:fs";
+import { createServer, type Server } from "node:http";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createLocalApiClient, localApiGet } from "../src/localapi.js";
+
+describe("LocalAPI client", () => {
+	let server: Server;
+	let socketPath: string;
+	const requests: Array<{ url?: string; host?: string }> = [];
+
+	beforeEach(async () => {
+		requests.length = 0;
+		socketPath = join(tmpdir(), `tailscaled-test-${process.pid}-${Date.now()}.sock`);
+		server = createServer((req, res) => {
+			requests.push({ url: req.url, host: req.headers.host });
+			if (req.url === "/localapi/v0/status") {
+				res.end(JSON.stringify({ BackendState: "Running" }));
+			} else if (req.url === "/localapi/v0/serve-config") {
+				res.end(JSON.stringify({ AllowFunnel: { "wopr.tailnet.ts.net:443": true } }));
+			} else {
+				res.writeHead(404);
+				res.end("not found");
+			}
+		});
+		await new Promise<void>((resolve) => server.listen(socketPath, resolve));
+	});
+
+	afterEach(async () => {
+		await new Promise<void>((resolve) => server.close(() => resolve()));
+		rmSync(socketPath, { force: true });
+	});
+
+	it("reads status and serve config over the socket", async () => {
+		const client = createLocalApiClient(socketPath);
+
+		expect(JSON.parse((await client.getStatus()) ?? "")).toEqual({ BackendState: "Running" });
+		expect(await client.getServeConfig()).toContain("AllowFunnel");
+		expect(requests).toEqual([
+			{ url: "/localapi/v0/status", host: "local-tailscaled.sock" },
+			{ url: "/localapi/v0/serve-config", host: "local-tailscaled.sock" },
+		]);
+	});
+
+	it("returns null for non-2xx responses", async () => {
+		expect(await localApiGet(socketPath, "/localapi/v0/unknown")).toBeNull();
+	});
+
+	it("returns null when the socket does not exist", async () => {
+		expect(await localApiGet(join(tmpdir(), "missing-tailscaled.sock"), "/localapi/v0/status")).toBeNull();
+	});
+});
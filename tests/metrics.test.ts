@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+	type MetricsServer,
+	OPENMETRICS_CONTENT_TYPE,
+	renderMetrics,
+	startMetricsServer,
+} from "../src/metrics.js";
+import { getStats, recordRequest, recordStatusCheck, resetStats } from "../src/stats.js";
+
+describe("renderMetrics", () => {
+	afterEach(() => {
+		resetStats();
+	});
+
+	it("renders availability, routes, counters and latency in OpenMetrics format", () => {
+		recordStatusCheck(12);
+		recordRequest("443:/api", { status: 200, bytesIn: 5, bytesOut: 7, durationMs: 40 });
+
+		const text = renderMetrics({
+			available: true,
+			hostname: "wopr.tailnet.ts.net",
+			funnels: [
+				{ port: 3000, path: "/api", publicPort: 443, publicUrl: "https://x/api", active: true },
+				{
+					port: 4000,
+					path: '/we"ird',
+					exposure: "tailnet",
+					publicUrl: "https://x/we",
+					active: false,
+					restarts: 2,
+				},
+			],
+			stats: getStats(),
+		});
+
+		expect(text).toContain("wopr_funnel_up 1\n");
+		expect(text).toContain('wopr_funnel_node_info{hostname="wopr.tailnet.ts.net"} 1\n');
+		expect(text).toContain('wopr_funnel_active_routes{exposure="public"} 1\n');
+		expect(text).toContain('wopr_funnel_active_routes{exposure="tailnet"} 0\n');
+		expect(text).toContain(
+			'wopr_funnel_route_restarts{public_port="443",path="/we\\"ird",exposure="tailnet",protocol="http"} 2\n',
+		);
+		expect(text).toContain("# TYPE wopr_funnel_restarts counter\n");
+		expect(text).toContain("wopr_funnel_status_checks_total 1\n");
+		expect(text).toContain('wopr_funnel_status_check_duration_seconds_bucket{le="0.01"} 0\n');
+		expect(text).toContain('wopr_funnel_status_check_duration_seconds_bucket{le="0.025"} 1\n');
+		expect(text).toContain('wopr_funnel_status_check_duration_seconds_bucket{le="+Inf"} 1\n');
+		expect(text).toContain("wopr_funnel_status_check_duration_seconds_sum 0.012\n");
+		expect(text).toContain(
+			'wopr_funnel_route_requests_total{public_port="443",path="/api",code="200"} 1\n',
+		);
+		expect(text).toContain('wopr_funnel_route_sent_bytes_total{public_port="443",path="/api"} 7\n');
+		expect(text).toContain(
+			'wopr_funnel_route_latency_seconds{public_port="443",path="/api",quantile="0.99"} 0.04\n',
+		);
+		expect(text.endsWith("# EOF\n")).toBe(true);
+	});
+
+	it("reports a node without Tailscale as down", () => {
+		const text = renderMetrics({ available: false, hostname: null, funnels: [], stats: getStats() });
+		expect(text).toContain("wopr_funnel_up 0\n");
+		expect(text).not.toContain("wopr_funnel_node_info");
+	});
+});
+
+describe("startMetricsServer", () => {
+	let server: MetricsServer | undefined;
+
+	afterEach(async () => {
+		await server?.close();
+		server = undefined;
+	});
+
+	it("serves the rendered metrics on the configured path only", async () => {
+		server = await startMetricsServer(() => "wopr_funnel_up 1\n# EOF\n", { port: 0 });
+
+		const res = await fetch(`http://127.0.0.1:${server.port}/metrics`);
+		expect(res.status).toBe(200);
+		expect(res.headers.get("content-type")).toBe(OPENMETRICS_CONTENT_TYPE);
+		expect(await res.text()).toBe("wopr_funnel_up 1\n# EOF\n");
+
+		expect((await fetch(`http://127.0.0.1:${server.port}/other`)).status).toBe(404);
+		const post = await fetch(`http://127.0.0.1:${server.port}/metrics`, { method: "POST" });
+		expect(post.status).toBe(405);
+	});
+});
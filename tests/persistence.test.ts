@@ -0,0 +1,81 @@
+import { mkdtemp, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { loadExposures, saveExposures } from "../src/persistence.js";
+
+describe("persistence", () => {
+	let dir: string;
+
+	beforeEach(async () => {
+		dir = await mkdtemp(join(tmpdir(), "funnel-persist-"));
+	});
+
+	afterEach(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	it("round-trips exposures through the state file", async () => {
+		const file = join(dir, "nested", "exposures.json");
+		const exposures = [
+			{ port: 3000, path: "/github", owner: "wopr-plugin-github", createdAt: 1700000000000 },
+			{ port: 8080, path: "/", stripPrefix: true, createdAt: 1700000001000 },
+		];
+
+		await saveExposures(file, exposures);
+
+		expect(await loadExposures(file)).toEqual(exposures);
+		expect(JSON.parse(await readFile(file, "utf-8")).version).toBe(1);
+	});
+
+	it("keeps credentials in a file only its owner can read", async () => {
+		const file = join(dir, "exposures.json");
+		const exposures = [
+			{
+				port: 3000,
+				path: "/admin",
+				auth: { type: "basic" as const, users: { ops: "hunter2" } },
+				createdAt: 1700000000000,
+			},
+			{
+				port: 8080,
+				path: "/api",
+				auth: { type: "bearer" as const, tokens: ["static-token"] },
+				createdAt: 1700000001000,
+			},
+		];
+
+		await saveExposures(file, exposures);
+
+		expect((await stat(file)).mode & 0o777).toBe(0o600);
+		expect(await loadExposures(file)).toEqual(exposures);
+	});
+
+	it("returns an empty list for a missing or corrupt file", async () => {
+		const file = join(dir, "exposures.json");
+		expect(await loadExposures(file)).toEqual([]);
+
+		await writeFile(file, "{not json", "utf-8");
+		expect(await loadExposures(file)).toEqual([]);
+	});
+
+	it("skips malformed entries", async () => {
+		const file = join(dir, "exposures.json");
+		await writeFile(
+			file,
+			JSON.stringify({
+				version: 1,
+				exposures: [
+					{ port: 3000, path: "/ok", createdAt: 1 },
+					{ port: "3001", createdAt: 1 },
+					{ port: 3002, path: 5, createdAt: 1 },
+					{ port: 3003 },
+					null,
+				],
+			}),
+			"utf-8",
+		);
+
+		expect(await loadExposures(file)).toEqual([{ port: 3000, path: "/ok", createdAt: 1 }]);
+	});
+});
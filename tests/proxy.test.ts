@@ -0,0 +1,289 @@
+import { createServer, type Server } from "node:http";
+import { connect } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	buildUpstreamHeaders,
+	matchRoute,
+	type ProxyCapture,
+	type ProxyRequestInfo,
+	type ReverseProxy,
+	rewritePath,
+	startReverseProxy,
+} from "../src/proxy.js";
+
+describe("matchRoute", () => {
+	const routes = [
+		{ path: "/", port: 1 },
+		{ path: "/api", port: 2 },
+		{ path: "/api/v2", port: 3 },
+	];
+
+	it("picks the longest matching prefix", () => {
+		expect(matchRoute(routes, "/api/v2/users")?.port).toBe(3);
+		expect(matchRoute(routes, "/api/v1/users")?.port).toBe(2);
+		expect(matchRoute(routes, "/api?x=1")?.port).toBe(2);
+	});
+
+	it("only matches on segment boundaries", () => {
+		expect(matchRoute(routes, "/apix")?.port).toBe(1);
+		expect(matchRoute([{ path: "/api", port: 2 }], "/apix")).toBeNull();
+	});
+});
+
+describe("rewritePath", () => {
+	it("keeps the path unless stripPrefix is set", () => {
+		expect(rewritePath({ path: "/api", port: 1 }, "/api/users")).toBe("/api/users");
+		expect(rewritePath({ path: "/api", port: 1, stripPrefix: true }, "/api/users")).toBe(
+			"/users",
+		);
+		expect(rewritePath({ path: "/api", port: 1, stripPrefix: true }, "/api")).toBe("/");
+		expect(rewritePath({ path: "/api", port: 1, stripPrefix: true }, "/api?x=1")).toBe("/?x=1");
+	});
+});
+
+describe("buildUpstreamHeaders", () => {
+	it("drops hop-by-hop headers, injects route headers and rewrites host", () => {
+		const headers = buildUpstreamHeaders(
+			{ path: "/api", port: 1, stripPrefix: true, headers: { "X-Api-Key": "k" }, hostHeader: "svc" },
+			{ host: "wopr.tailnet.ts.net", connection: "keep-alive", accept: "*/*" },
+			"203.0.113.5",
+		);
+		expect(headers.connection).toBeUndefined();
+		expect(headers.accept).toBe("*/*");
+		expect(headers["x-api-key"]).toBe("k");
+		expect(headers.host).toBe("svc");
+		expect(headers["x-forwarded-host"]).toBe("wopr.tailnet.ts.net");
+		expect(headers["x-forwarded-for"]).toBe("203.0.113.5");
+		expect(headers["x-forwarded-prefix"]).toBe("/api");
+	});
+});
+
+describe("startReverseProxy", () => {
+	let upstream: Server;
+	let upstreamPort: number;
+	let proxy: ReverseProxy;
+
+	beforeEach(async () => {
+		upstream = createServer((req, res) => {
+			let body = "";
+			req.on("data", (chunk) => {
+				body += chunk.toString();
+			});
+			req.on("end", () => {
+				res.writeHead(200, { "content-type": "application/json" });
+				res.end(
+					JSON.stringify({
+						url: req.url,
+						host: req.headers.host,
+						key: req.headers["x-key"],
+						...(body ? { body } : {}),
+					}),
+				);
+			});
+		});
+		upstream.on("upgrade", (req, socket) => {
+			socket.write("HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n\r\n");
+			socket.end(`upgraded ${req.url}`);
+		});
+		await new Promise<void>((resolve) => upstream.listen(0, "127.0.0.1", resolve));
+		const address = upstream.address();
+		upstreamPort = typeof address === "object" && address ? address.port : 0;
+		proxy = await startReverseProxy();
+	});
+
+	afterEach(async () => {
+		await proxy.close();
+		await new Promise<void>((resolve) => upstream.close(() => resolve()));
+	});
+
+	it("forwards requests by path prefix with rewrites applied", async () => {
+		proxy.setRoute({
+			path: "/hooks",
+			port: upstreamPort,
+			stripPrefix: true,
+			headers: { "x-key": "secret" },
+			hostHeader: "internal",
+		});
+
+		const res = await fetch(`http://127.0.0.1:${proxy.port}/hooks/github?id=1`);
+		expect(res.status).toBe(200);
+		expect(await res.json()).toEqual({ url: "/github?id=1", host: "internal", key: "secret" });
+	});
+
+	it("returns 404 for unrouted paths and 502 for a dead upstream", async () => {
+		proxy.setRoute({ path: "/dead", port: 1 });
+
+		expect((await fetch(`http://127.0.0.1:${proxy.port}/nowhere`)).status).toBe(404);
+		expect((await fetch(`http://127.0.0.1:${proxy.port}/dead`)).status).toBe(502);
+	});
+
+	it("stops routing a path once it is removed", async () => {
+		proxy.setRoute({ path: "/api", port: upstreamPort });
+		expect(proxy.removeRoute("/api")).toBe(true);
+		expect(proxy.getRoutes()).toEqual([]);
+		expect((await fetch(`http://127.0.0.1:${proxy.port}/api`)).status).toBe(404);
+	});
+
+	it("answers requests and upgrades its gate rejects without forwarding them", async () => {
+		proxy.setRoute({
+			path: "/private",
+			port: upstreamPort,
+			gate: (req) =>
+				req.headers.authorization === "Bearer ok"
+					? null
+					: { status: 401, headers: { "www-authenticate": "Bearer" }, body: "no" },
+		});
+
+		const denied = await fetch(`http://127.0.0.1:${proxy.port}/private`);
+		expect(denied.status).toBe(401);
+		expect(denied.headers.get("www-authenticate")).toBe("Bearer");
+		const allowed = await fetch(`http://127.0.0.1:${proxy.port}/private`, {
+			headers: { authorization: "Bearer ok" },
+		});
+		expect(allowed.status).toBe(200);
+
+		const reply = await new Promise<string>((resolve, reject) => {
+			const socket = connect(proxy.port, "127.0.0.1", () => {
+				socket.write(
+					"GET /private HTTP/1.1\r\nHost: x\r\nConnection: Upgrade\r\nUpgrade: websocket\r\n\r\n",
+				);
+			});
+			let data = "";
+			socket.on("data", (chunk) => {
+				data += chunk.toString();
+			});
+			socket.on("end", () => resolve(data));
+			socket.on("error", reject);
+		});
+		expect(reply).toContain("401 Unauthorized");
+	});
+
+	it("forwards the buffered body only once verifyBody accepts it", async () => {
+		proxy.setRoute({
+			path: "/hooks",
+			port: upstreamPort,
+			verifyBody: (_req, body) =>
+				body.toString() === "signed" ? null : { status: 401, body: "bad signature" },
+		});
+
+		const denied = await fetch(`http://127.0.0.1:${proxy.port}/hooks`, {
+			method: "POST",
+			body: "forged",
+		});
+		expect(denied.status).toBe(401);
+		expect(await denied.text()).toBe("bad signature");
+
+		const allowed = await fetch(`http://127.0.0.1:${proxy.port}/hooks`, {
+			method: "POST",
+			body: "signed",
+		});
+		expect(allowed.status).toBe(200);
+		expect((await allowed.json()).body).toBe("signed");
+	});
+
+	it("answers 500 and reports the error when verifyBody throws", async () => {
+		const errors: unknown[] = [];
+		const guarded = await startReverseProxy({ onError: (err) => errors.push(err) });
+		guarded.setRoute({
+			path: "/hooks",
+			port: upstreamPort,
+			verifyBody: () => {
+				throw new Error("Invalid digest: bogus");
+			},
+		});
+
+		try {
+			const res = await fetch(`http://127.0.0.1:${guarded.port}/hooks`, {
+				method: "POST",
+				body: "{}",
+			});
+			expect(res.status).toBe(500);
+			expect(errors).toEqual([new Error("Invalid digest: bogus")]);
+		} finally {
+			await guarded.close();
+		}
+	});
+
+	it("reports each request with its status, bytes and client", async () => {
+		const seen: ProxyRequestInfo[] = [];
+		const logged = await startReverseProxy({ onRequest: (info) => seen.push(info) });
+		logged.setRoute({ path: "/api", port: upstreamPort });
+
+		await (
+			await fetch(`http://127.0.0.1:${logged.port}/api/items?token=secret`, {
+				method: "POST",
+				body: "hello",
+				headers: { "x-forwarded-for": "198.51.100.7" },
+			})
+		).text();
+		await (await fetch(`http://127.0.0.1:${logged.port}/nowhere`)).text();
+		await logged.close();
+
+		expect(seen).toHaveLength(2);
+		expect(seen[0]).toMatchObject({
+			route: "/api",
+			method: "POST",
+			path: "/api/items",
+			status: 200,
+			bytesIn: 5,
+			client: "198.51.100.7",
+		});
+		expect(seen[0].bytesOut).toBeGreaterThan(0);
+		expect(seen[0].durationMs).toBeGreaterThanOrEqual(0);
+		expect(seen[1]).toMatchObject({
+			route: null,
+			path: "/nowhere",
+			status: 404,
+			bytesOut: "No funnel route for this path".length,
+		});
+	});
+
+	it("captures requests it rejects and forwards, body up to the limit", async () => {
+		const captured: ProxyCapture[] = [];
+		proxy.setRoute({
+			path: "/hooks",
+			port: upstreamPort,
+			gate: (req) => (req.headers["x-ok"] ? null : { status: 401, body: "no" }),
+			capture: { maxBodyBytes: 4, onCapture: (request) => captured.push(request) },
+		});
+
+		await (
+			await fetch(`http://127.0.0.1:${proxy.port}/hooks?a=1`, { method: "POST", body: "rejected" })
+		).text();
+		await (
+			await fetch(`http://127.0.0.1:${proxy.port}/hooks`, {
+				method: "POST",
+				body: "ok",
+				headers: { "x-ok": "1" },
+			})
+		).text();
+		await new Promise((resolve) => setTimeout(resolve, 20));
+
+		expect(captured).toHaveLength(2);
+		expect(captured[0]).toMatchObject({ url: "/hooks?a=1", status: 401, bodyBytes: 8 });
+		expect(captured[0].body.toString()).toBe("reje");
+		expect(captured[1]).toMatchObject({ status: 200, bodyBytes: 2 });
+		expect(captured[1].body.toString()).toBe("ok");
+	});
+
+	it("tunnels WebSocket upgrades to the matched route", async () => {
+		proxy.setRoute({ path: "/ws", port: upstreamPort, stripPrefix: true });
+
+		const reply = await new Promise<string>((resolve, reject) => {
+			const socket = connect(proxy.port, "127.0.0.1", () => {
+				socket.write(
+					"GET /ws/live HTTP/1.1\r\nHost: x\r\nConnection: Upgrade\r\nUpgrade: websocket\r\n\r\n",
+				);
+			});
+			let data = "";
+			socket.on("data", (chunk) => {
+				data += chunk.toString();
+			});
+			socket.on("end", () => resolve(data));
+			socket.on("error", reject);
+		});
+
+		expect(reply).toContain("101 Switching Protocols");
+		expect(reply).toContain("upgraded /live");
+	});
+});
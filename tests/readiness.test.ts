@@ -0,0 +1,63 @@
+import { createServer } from "node:net";
+import { describe, expect, it, vi } from "vitest";
+import { probeLocalPort, waitForReady } from "../src/readiness.js";
+
+describe("probeLocalPort", () => {
+	it("succeeds on a listening port and fails on a closed one", async () => {
+		const server = createServer((socket) => socket.end());
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+		const address = server.address();
+		const port = typeof address === "object" && address ? address.port : 0;
+
+		expect(await probeLocalPort(port)).toBe(true);
+		await new Promise<void>((resolve) => server.close(() => resolve()));
+		expect(await probeLocalPort(port)).toBe(false);
+	});
+});
+
+describe("waitForReady", () => {
+	const url = "https://wopr.tailnet.ts.net/hooks";
+
+	it("resolves once the route is configured and the target answers", async () => {
+		const isConfigured = vi.fn().mockResolvedValueOnce(false).mockResolvedValue(true);
+		const probe = vi.fn().mockResolvedValue(true);
+
+		const result = await waitForReady(url, { isConfigured, probe }, { intervalMs: 1 });
+
+		expect(result).toEqual({ ready: true, url });
+		expect(isConfigured).toHaveBeenCalledTimes(2);
+	});
+
+	it("reports funnel-not-configured when the route never appears", async () => {
+		const result = await waitForReady(
+			url,
+			{ isConfigured: async () => false, probe: async () => true },
+			{ timeoutMs: 20, intervalMs: 5 },
+		);
+
+		expect(result.ready).toBe(false);
+		expect(!result.ready && result.reason).toBe("funnel-not-configured");
+	});
+
+	it("reports target-unreachable when only the probe fails", async () => {
+		const result = await waitForReady(
+			url,
+			{ isConfigured: async () => true, probe: async () => false },
+			{ timeoutMs: 20, intervalMs: 5 },
+		);
+
+		expect(!result.ready && result.reason).toBe("target-unreachable");
+	});
+
+	it("stops early when the funnel has failed", async () => {
+		const probe = vi.fn();
+		const result = await waitForReady(url, {
+			isConfigured: async () => false,
+			probe,
+			hasFailed: () => true,
+		});
+
+		expect(!result.ready && result.reason).toBe("funnel-failed");
+		expect(probe).not.toHaveBeenCalled();
+	});
+});
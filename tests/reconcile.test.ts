@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+import { parseServeStatus, parseTargetPort, reconcileRoutes } from "../src/reconcile.js";
+import type { FunnelInfo } from "../src/types.js";
+
+const serveStatus = JSON.stringify({
+	TCP: { "443": { HTTPS: true } },
+	Web: {
+		"wopr.tailnet.ts.net:443": {
+			Handlers: {
+				"/": { Proxy: "http://127.0.0.1:3000" },
+				"/docs": { Path: "/srv/docs" },
+			},
+		},
+		"wopr.tailnet.ts.net:8443": {
+			Handlers: { "/": { Proxy: "http://127.0.0.1:9000" } },
+		},
+	},
+	AllowFunnel: { "wopr.tailnet.ts.net:443": true },
+	Foreground: {
+		abc123: {
+			Web: {
+				"wopr.tailnet.ts.net:443": {
+					Handlers: { "/github": { Proxy: "http://localhost:4000" } },
+				},
+			},
+			AllowFunnel: { "wopr.tailnet.ts.net:443": true },
+		},
+	},
+});
+
+function route(path: string, port: number, active = true): FunnelInfo {
+	return { port, path, publicUrl: `https://wopr.tailnet.ts.net${path}`, active };
+}
+
+describe("parseTargetPort", () => {
+	it("extracts the port from local proxy targets", () => {
+		expect(parseTargetPort("http://127.0.0.1:3000")).toBe(3000);
+		expect(parseTargetPort("https+insecure://localhost:8443/x")).toBe(8443);
+		expect(parseTargetPort("127.0.0.1:5432")).toBe(5432);
+		expect(parseTargetPort("http://example.com:80")).toBeNull();
+		expect(parseTargetPort("/srv/docs")).toBeNull();
+	});
+});
+
+describe("parseServeStatus", () => {
+	it("flattens web handlers including foreground sessions", () => {
+		const routes = parseServeStatus(serveStatus);
+		expect(routes).toEqual([
+			{
+				host: "wopr.tailnet.ts.net",
+				publicPort: 443,
+				path: "/",
+				target: "http://127.0.0.1:3000",
+				protocol: "http",
+				port: 3000,
+				funnel: true,
+			},
+			{
+				host: "wopr.tailnet.ts.net",
+				publicPort: 443,
+				path: "/docs",
+				target: "/srv/docs",
+				protocol: "http",
+				port: null,
+				funnel: true,
+			},
+			{
+				host: "wopr.tailnet.ts.net",
+				publicPort: 8443,
+				path: "/",
+				target: "http://127.0.0.1:9000",
+				protocol: "http",
+				port: 9000,
+				funnel: false,
+			},
+			{
+				host: "wopr.tailnet.ts.net",
+				publicPort: 443,
+				path: "/github",
+				target: "http://localhost:4000",
+				protocol: "http",
+				port: 4000,
+				funnel: true,
+			},
+		]);
+	});
+
+	it("parses TCP forwarding listeners as routes on the root path", () => {
+		const routes = parseServeStatus(
+			JSON.stringify({
+				TCP: {
+					"443": { HTTPS: true },
+					"8443": { TCPForward: "127.0.0.1:5432" },
+					"10000": { TCPForward: "127.0.0.1:1883", TerminateTLS: "wopr.tailnet.ts.net" },
+				},
+				AllowFunnel: { "wopr.tailnet.ts.net:8443": true },
+			}),
+		);
+		expect(routes).toEqual([
+			{
+				host: "wopr.tailnet.ts.net",
+				publicPort: 8443,
+				path: "/",
+				target: "127.0.0.1:5432",
+				protocol: "tcp",
+				port: 5432,
+				funnel: true,
+			},
+			{
+				host: "wopr.tailnet.ts.net",
+				publicPort: 10000,
+				path: "/",
+				target: "127.0.0.1:1883",
+				protocol: "tls-terminated-tcp",
+				port: 1883,
+				funnel: false,
+			},
+		]);
+	});
+
+	it("treats empty output as no routes and bad output as unknown", () => {
+		expect(parseServeStatus("{}")).toEqual([]);
+		expect(parseServeStatus("")).toEqual([]);
+		expect(parseServeStatus("not json")).toBeNull();
+		expect(parseServeStatus(null)).toBeNull();
+	});
+});
+
+describe("reconcileRoutes", () => {
+	const actual = parseServeStatus(serveStatus) ?? [];
+
+	it("reports tracked routes missing from the serve config", () => {
+		const result = reconcileRoutes([route("/", 3000), route("/gone", 5000)], actual);
+		expect(result.missing.map((r) => r.path)).toEqual(["/gone"]);
+	});
+
+	it("does not judge routes that are still settling", () => {
+		const result = reconcileRoutes([route("/gone", 5000)], actual, () => true);
+		expect(result.missing).toEqual([]);
+	});
+
+	it("reports inactive routes that are back as restored", () => {
+		const result = reconcileRoutes([route("/github", 4000, false)], actual);
+		expect(result.restored.map((r) => r.path)).toEqual(["/github"]);
+	});
+
+	it("reports untracked funnel routes as foreign, ignoring tailnet-only ones", () => {
+		const result = reconcileRoutes([route("/", 3000)], actual);
+		expect(result.foreign.map((r) => r.path)).toEqual(["/docs", "/github"]);
+	});
+});
+
+describe("reconcileRoutes on alternate public ports", () => {
+	const altStatus = JSON.stringify({
+		Web: {
+			"wopr.tailnet.ts.net:443": { Handlers: { "/": { Proxy: "http://127.0.0.1:3000" } } },
+			"wopr.tailnet.ts.net:8443": { Handlers: { "/": { Proxy: "http://127.0.0.1:4000" } } },
+		},
+		AllowFunnel: { "wopr.tailnet.ts.net:443": true, "wopr.tailnet.ts.net:8443": true },
+	});
+	const actual = parseServeStatus(altStatus) ?? [];
+
+	it("matches routes by public port and path", () => {
+		const result = reconcileRoutes(
+			[
+				{ ...route("/", 3000), publicPort: 443 },
+				{ ...route("/", 5000), publicPort: 10000 },
+			],
+			actual,
+		);
+		expect(result.missing.map((r) => r.publicPort)).toEqual([10000]);
+		expect(result.foreign.map((r) => [r.publicPort, r.port])).toEqual([[8443, 4000]]);
+	});
+});
+
+describe("reconcileRoutes with tailnet-only routes", () => {
+	const actual = parseServeStatus(serveStatus) ?? [];
+
+	it("matches tailnet-only routes against plain serve routes", () => {
+		const result = reconcileRoutes(
+			[
+				{ ...route("/", 9000), publicPort: 8443, exposure: "tailnet" },
+				{ ...route("/", 3000), exposure: "tailnet" },
+			],
+			actual,
+		);
+		// 443 has Funnel enabled, so a tailnet-only route there is not the one mounted
+		expect(result.missing.map((r) => r.publicPort)).toEqual([undefined]);
+	});
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { matchesCron, parseCron, windowEnd } from "../src/schedule.js";
+
+// Monday 5 January 2026, local time
+function at(hours: number, minutes = 0, day = 5): number {
+	return new Date(2026, 0, day, hours, minutes, 30).getTime();
+}
+
+describe("parseCron", () => {
+	it("expands wildcards, ranges, lists and steps", () => {
+		const cron = parseCron("*/15 9-17/4 1,15 * 1-5");
+		expect(cron).not.toBeNull();
+		expect([...(cron?.minutes ?? [])]).toEqual([0, 15, 30, 45]);
+		expect([...(cron?.hours ?? [])]).toEqual([9, 13, 17]);
+		expect([...(cron?.daysOfMonth ?? [])]).toEqual([1, 15]);
+		expect(cron?.months.size).toBe(12);
+		expect(cron?.eitherDay).toBe(true);
+	});
+
+	it("treats 7 as Sunday", () => {
+		expect([...(parseCron("0 0 * * 7")?.daysOfWeek ?? [])]).toEqual([0]);
+	});
+
+	it("rejects malformed expressions", () => {
+		for (const expression of ["", "* * * *", "60 * * * *", "* 24 * * *", "5-1 * * * *", "*/0 * * * *", "a * * * *"]) {
+			expect(parseCron(expression)).toBeNull();
+		}
+	});
+});
+
+describe("matchesCron", () => {
+	const businessHours = parseCron("* 9-16 * * 1-5")!;
+
+	it("matches the minutes inside the schedule", () => {
+		expect(matchesCron(businessHours, at(9))).toBe(true);
+		expect(matchesCron(businessHours, at(16, 59))).toBe(true);
+		expect(matchesCron(businessHours, at(8, 59))).toBe(false);
+		expect(matchesCron(businessHours, at(17))).toBe(false);
+		// Saturday
+		expect(matchesCron(businessHours, at(10, 0, 10))).toBe(false);
+	});
+
+	it("matches either day field when both are restricted", () => {
+		const cron = parseCron("* * 10 * 1")!;
+		expect(matchesCron(cron, at(12, 0, 5))).toBe(true);
+		expect(matchesCron(cron, at(12, 0, 10))).toBe(true);
+		expect(matchesCron(cron, at(12, 0, 6))).toBe(false);
+	});
+});
+
+describe("windowEnd", () => {
+	it("returns the start of the first minute outside the window", () => {
+		const businessHours = parseCron("* 9-16 * * 1-5")!;
+		expect(windowEnd(businessHours, at(9, 30))).toBe(new Date(2026, 0, 5, 17, 0).getTime());
+		expect(windowEnd(businessHours, at(8))).toBeNull();
+	});
+
+	it("returns null for a window that does not close within a month", () => {
+		expect(windowEnd(parseCron("* * * * *")!, at(9))).toBeNull();
+	});
+});
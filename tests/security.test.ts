@@ -0,0 +1,106 @@
+import type { IncomingMessage } from "node:http";
+import { describe, expect, it } from "vitest";
+import {
+	clientIp,
+	createRateLimiter,
+	createRouteSecurity,
+	isValidPolicy,
+	parseCidr,
+} from "../src/security.js";
+
+function request(remoteAddress: string, forwardedFor?: string): IncomingMessage {
+	return {
+		headers: forwardedFor ? { "x-forwarded-for": forwardedFor } : {},
+		socket: { remoteAddress },
+	} as unknown as IncomingMessage;
+}
+
+describe("clientIp", () => {
+	it("trusts only the last X-Forwarded-For entry, and only from loopback", () => {
+		expect(clientIp(request("127.0.0.1", "6.6.6.6, 198.51.100.7"))).toBe("198.51.100.7");
+		expect(clientIp(request("::ffff:127.0.0.1", "198.51.100.7"))).toBe("198.51.100.7");
+		expect(clientIp(request("::1", "2001:db8::1"))).toBe("2001:db8::1");
+		expect(clientIp(request("100.64.0.5", "198.51.100.7"))).toBe("100.64.0.5");
+		expect(clientIp(request("127.0.0.1", "not-an-ip"))).toBe("127.0.0.1");
+	});
+});
+
+describe("parseCidr", () => {
+	it("parses addresses and CIDRs and rejects anything else", () => {
+		expect(parseCidr("10.0.0.0/8")).toEqual({ address: "10.0.0.0", prefix: 8, family: 4 });
+		expect(parseCidr("203.0.113.9")).toEqual({ address: "203.0.113.9", prefix: 32, family: 4 });
+		expect(parseCidr("2001:db8::/32")).toEqual({ address: "2001:db8::", prefix: 32, family: 6 });
+		expect(parseCidr("10.0.0.0/33")).toBeNull();
+		expect(parseCidr("10.0.0.0/")).toBeNull();
+		expect(parseCidr("example.com")).toBeNull();
+	});
+
+	it("validates whole policies", () => {
+		expect(isValidPolicy({ ipAllow: ["10.0.0.0/8"], rateLimit: { requestsPerMinute: 30 } })).toBe(
+			true,
+		);
+		expect(isValidPolicy({ ipDeny: ["10.0.0.0/99"] })).toBe(false);
+		expect(isValidPolicy({ rateLimit: { requestsPerMinute: 0 } })).toBe(false);
+	});
+});
+
+describe("createRateLimiter", () => {
+	it("allows a burst, then refills at the configured rate per client", () => {
+		let now = 0;
+		const take = createRateLimiter({ requestsPerMinute: 60, burst: 2 }, () => now);
+
+		expect(take("a")).toBe(0);
+		expect(take("a")).toBe(0);
+		expect(take("a")).toBe(1000);
+		expect(take("b")).toBe(0);
+
+		now = 1000;
+		expect(take("a")).toBe(0);
+		expect(take("a")).toBeGreaterThan(0);
+	});
+});
+
+describe("createRouteSecurity", () => {
+	it("denies by IP rules before rate limiting and reports blocked clients", () => {
+		let now = 1000;
+		const blocked: string[] = [];
+		const security = createRouteSecurity(
+			{
+				ipAllow: ["198.51.100.0/24"],
+				ipDeny: ["198.51.100.66"],
+				rateLimit: { requestsPerMinute: 60, burst: 1 },
+			},
+			(reason, ip) => blocked.push(`${reason} ${ip}`),
+			() => now,
+		);
+		const from = (ip: string) => request("127.0.0.1", ip);
+
+		expect(security.gate(from("198.51.100.7"))).toBeNull();
+		expect(security.gate(from("198.51.100.7"))).toEqual({
+			status: 429,
+			headers: { "retry-after": "1" },
+			body: "Too Many Requests",
+		});
+		expect(security.gate(from("198.51.100.66"))).toMatchObject({ status: 403 });
+		expect(security.gate(from("203.0.113.1"))).toMatchObject({ status: 403 });
+		now = 2000;
+		expect(security.gate(from("203.0.113.1"))).toMatchObject({ status: 403 });
+
+		expect(blocked).toEqual([
+			"rate-limited 198.51.100.7",
+			"denied 198.51.100.66",
+			"denied 203.0.113.1",
+			"denied 203.0.113.1",
+		]);
+		expect(security.report()).toMatchObject({
+			denied: 3,
+			rateLimited: 1,
+			lastBlockedAt: 2000,
+			topClients: [
+				{ ip: "203.0.113.1", blocked: 2 },
+				{ ip: "198.51.100.7", blocked: 1 },
+				{ ip: "198.51.100.66", blocked: 1 },
+			],
+		});
+	});
+});
@@ -1,5 +1,12 @@
 import { describe, it, expect, beforeEach } from "vitest";
-import { getStats, incrementStat, resetStats } from "../src/stats.js";
+import {
+	getStats,
+	incrementStat,
+	recordRequest,
+	recordStatusCheck,
+	resetStats,
+	STATUS_CHECK_BUCKETS_MS,
+} from "../src/stats.js";
 
 describe("stats", () => {
 	beforeEach(() => {
@@ -10,8 +17,14 @@ describe("stats", () => {
 		const stats = getStats();
 		expect(stats.funnelsStarted).toBe(0);
 		expect(stats.funnelsStopped).toBe(0);
+		expect(stats.funnelRestarts).toBe(0);
 		expect(stats.hostnameChanges).toBe(0);
 		expect(stats.statusChecks).toBe(0);
+		expect(stats.webhooksVerified).toBe(0);
+		expect(stats.webhooksRejected).toBe(0);
+		expect(stats.requestsDenied).toBe(0);
+		expect(stats.requestsRateLimited).toBe(0);
+		expect(stats.routes).toEqual({});
 		expect(stats.startedAt).toBeGreaterThan(0);
 	});
 
@@ -43,6 +56,47 @@ describe("stats", () => {
 		expect(stats.startedAt).toBeGreaterThanOrEqual(beforeReset);
 	});
 
+	it("recordRequest keeps per-route counts, status codes, bytes and latency percentiles", () => {
+		for (let ms = 1; ms <= 100; ms++) {
+			recordRequest("443:/api", {
+				status: ms <= 90 ? 200 : 502,
+				bytesIn: 10,
+				bytesOut: 20,
+				durationMs: ms,
+			});
+		}
+		recordRequest("8443:/", { status: 404, bytesIn: 0, bytesOut: 5, durationMs: 3 });
+
+		const { routes } = getStats();
+		expect(routes["443:/api"]).toMatchObject({
+			requests: 100,
+			statusCodes: { "200": 90, "502": 10 },
+			bytesIn: 1000,
+			bytesOut: 2000,
+			latencyMs: { p50: 50, p90: 90, p99: 99 },
+		});
+		expect(routes["443:/api"].lastRequestAt).toBeGreaterThan(0);
+		expect(routes["8443:/"]).toMatchObject({ requests: 1, latencyMs: { p50: 3, p99: 3 } });
+
+		resetStats();
+		expect(getStats().routes).toEqual({});
+	});
+
+	it("recordStatusCheck counts checks in a cumulative latency histogram", () => {
+		recordStatusCheck(3);
+		recordStatusCheck(40);
+		recordStatusCheck(20000);
+
+		const { statusChecks, statusCheckLatency } = getStats();
+		expect(statusChecks).toBe(3);
+		expect(statusCheckLatency.count).toBe(3);
+		expect(statusCheckLatency.sumMs).toBe(20043);
+		const at = (ms: number) => statusCheckLatency.buckets[STATUS_CHECK_BUCKETS_MS.indexOf(ms)];
+		expect(at(5)).toBe(1);
+		expect(at(50)).toBe(2);
+		expect(at(10000)).toBe(2);
+	});
+
 	it("modifying result of getStats does not affect internal state", () => {
 		incrementStat("funnelsStarted", 5);
 		const result = getStats();
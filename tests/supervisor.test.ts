@@ -0,0 +1,124 @@
+import { EventEmitter } from "node:events";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+class FakeChild extends EventEmitter {
+	pid = 1234;
+	stderr = new EventEmitter();
+	kill = vi.fn();
+}
+
+const children: FakeChild[] = [];
+
+vi.mock("node:child_process", () => ({
+	spawn: vi.fn(() => {
+		const child = new FakeChild();
+		children.push(child);
+		return child;
+	}),
+}));
+
+import { backoffDelay, superviseProcess } from "../src/supervisor.js";
+
+describe("backoffDelay", () => {
+	it("doubles from the initial delay up to the cap", () => {
+		expect(backoffDelay(1, 1000, 30000)).toBe(1000);
+		expect(backoffDelay(2, 1000, 30000)).toBe(2000);
+		expect(backoffDelay(4, 1000, 30000)).toBe(8000);
+		expect(backoffDelay(10, 1000, 30000)).toBe(30000);
+	});
+});
+
+describe("superviseProcess", () => {
+	beforeEach(() => {
+		children.length = 0;
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("restarts an unexpected exit with backoff and captured stderr", () => {
+		const onRestart = vi.fn();
+		const supervised = superviseProcess({ command: "tailscale", args: ["funnel"], onRestart });
+
+		children[0].stderr.emit("data", "backend stopped\n");
+		children[0].emit("exit", 1, null);
+
+		expect(onRestart).toHaveBeenCalledWith(
+			expect.objectContaining({ attempt: 1, delayMs: 1000, code: 1, stderr: "backend stopped" }),
+		);
+		expect(children).toHaveLength(1);
+
+		vi.advanceTimersByTime(1000);
+		expect(children).toHaveLength(2);
+		expect(supervised.restarts).toBe(1);
+
+		children[1].emit("exit", 1, null);
+		expect(onRestart).toHaveBeenLastCalledWith(expect.objectContaining({ attempt: 2, delayMs: 2000 }));
+	});
+
+	it("gives up after maxRestarts consecutive failures", () => {
+		const onGiveUp = vi.fn();
+		superviseProcess({ command: "tailscale", args: [], maxRestarts: 2, onGiveUp });
+
+		for (let i = 0; i < 3; i++) {
+			children[i].emit("exit", 1, null);
+			vi.advanceTimersByTime(10000);
+		}
+
+		expect(children).toHaveLength(3);
+		expect(onGiveUp).toHaveBeenCalledOnce();
+	});
+
+	it("handles spawn errors once even if exit also fires", () => {
+		const onRestart = vi.fn();
+		superviseProcess({ command: "tailscale", args: [], onRestart });
+
+		children[0].emit("error", new Error("spawn tailscale ENOENT"));
+		children[0].emit("exit", null, null);
+
+		expect(onRestart).toHaveBeenCalledOnce();
+		expect(onRestart.mock.calls[0][0].error.message).toContain("ENOENT");
+	});
+
+	it("resets the attempt count after a stable run", () => {
+		const onRestart = vi.fn();
+		superviseProcess({ command: "tailscale", args: [], stableAfterMs: 5000, onRestart });
+
+		children[0].emit("exit", 1, null);
+		vi.advanceTimersByTime(1000);
+		vi.advanceTimersByTime(6000);
+		children[1].emit("exit", 1, null);
+
+		expect(onRestart).toHaveBeenLastCalledWith(expect.objectContaining({ attempt: 1 }));
+	});
+
+	it("retries an untilSuccess command only until it exits 0", () => {
+		const onRestart = vi.fn();
+		const onSuccess = vi.fn();
+		superviseProcess({ command: "tailscale", args: [], untilSuccess: true, onRestart, onSuccess });
+
+		children[0].emit("exit", 1, null);
+		vi.advanceTimersByTime(1000);
+		children[1].emit("exit", 0, null);
+		vi.advanceTimersByTime(60000);
+
+		expect(children).toHaveLength(2);
+		expect(onRestart).toHaveBeenCalledOnce();
+		expect(onSuccess).toHaveBeenCalledOnce();
+	});
+
+	it("does not restart after stop()", () => {
+		const onRestart = vi.fn();
+		const supervised = superviseProcess({ command: "tailscale", args: [], onRestart });
+
+		supervised.stop();
+		children[0].emit("exit", null, "SIGTERM");
+		vi.advanceTimersByTime(60000);
+
+		expect(children[0].kill).toHaveBeenCalledWith("SIGTERM");
+		expect(children).toHaveLength(1);
+		expect(onRestart).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const localApi = vi.hoisted(() => ({
+	getStatus: vi.fn<() => Promise<string | null>>(),
+	getServeConfig: vi.fn<() => Promise<string | null>>(),
+}));
+
+vi.mock("../src/localapi.js", () => ({
+	DEFAULT_SOCKET_PATH: "/var/run/tailscale/tailscaled.sock",
+	createLocalApiClient: vi.fn(() => localApi),
+}));
+
+vi.mock("node:child_process", () => ({
+	execFile: vi.fn(
+		(file: string, args: string[], _opts: unknown, cb: (...r: unknown[]) => void) => {
+			if (file === "which") return cb(new Error("not found"), "", "");
+			return cb(null, `cli:${args.join(" ")}\n`, "");
+		},
+	),
+}));
+
+import { execFile } from "node:child_process";
+import { createTailscaleClient } from "../src/tailscale.js";
+
+describe("createTailscaleClient", () => {
+	beforeEach(() => {
+		localApi.getStatus.mockReset();
+		localApi.getServeConfig.mockReset();
+		vi.mocked(execFile).mockClear();
+	});
+
+	it("prefers the LocalAPI when it answers", async () => {
+		localApi.getStatus.mockResolvedValue('{"BackendState":"Running"}');
+		const client = createTailscaleClient();
+
+		expect(await client.getStatusJson()).toBe('{"BackendState":"Running"}');
+		expect(execFile).not.toHaveBeenCalled();
+	});
+
+	it("falls back to the CLI when the LocalAPI is unreachable", async () => {
+		localApi.getStatus.mockResolvedValue(null);
+		localApi.getServeConfig.mockResolvedValue(null);
+		const client = createTailscaleClient();
+
+		expect(await client.getStatusJson()).toBe("cli:status --json");
+		expect(await client.getServeStatusJson()).toBe("cli:funnel status --json");
+	});
+
+	it("skips the LocalAPI entirely when disabled", async () => {
+		const client = createTailscaleClient({ localApi: false });
+
+		expect(await client.getStatusJson()).toBe("cli:status --json");
+		expect(localApi.getStatus).not.toHaveBeenCalled();
+	});
+
+	it("reports a missing CLI", async () => {
+		expect(await createTailscaleClient().hasCli()).toBe(false);
+	});
+});
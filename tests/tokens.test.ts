@@ -0,0 +1,62 @@
+import { mkdtemp, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	createTokenStore,
+	findToken,
+	issueBearerToken,
+	loadTokenStore,
+	pruneExpiredTokens,
+	revokeToken,
+	saveTokenStore,
+	sha256,
+} from "../src/tokens.js";
+
+describe("token store", () => {
+	let dir: string;
+
+	beforeEach(async () => {
+		dir = await mkdtemp(join(tmpdir(), "funnel-tokens-"));
+	});
+
+	afterEach(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	it("stores only the hash of a bearer token's secret", () => {
+		const store = createTokenStore();
+		const { record, token } = issueBearerToken(store, "443:/", { label: "ci" });
+
+		expect(token.startsWith(`${record.id}.`)).toBe(true);
+		expect(record.hash).toBe(sha256(token.slice(record.id.length + 1)));
+		expect(JSON.stringify(store)).not.toContain(token);
+	});
+
+	it("revokes and prunes tokens", () => {
+		const store = createTokenStore();
+		const { record } = issueBearerToken(store, "443:/");
+		issueBearerToken(store, "443:/", { expiresAt: Date.now() - 1 });
+
+		expect(pruneExpiredTokens(store)).toBe(true);
+		expect(findToken(store, record.id)).toBe(record);
+		expect(revokeToken(store, record.id)).toBe(true);
+		expect(revokeToken(store, record.id)).toBe(false);
+		expect(store.tokens).toEqual([]);
+	});
+
+	it("round-trips through a private file and recovers from a bad one", async () => {
+		const file = join(dir, "tokens.json");
+		const store = createTokenStore();
+		issueBearerToken(store, "443:/");
+
+		await saveTokenStore(file, store);
+		expect(await loadTokenStore(file)).toEqual(store);
+		expect((await stat(file)).mode & 0o777).toBe(0o600);
+
+		await writeFile(file, "not json");
+		const fresh = await loadTokenStore(file);
+		expect(fresh.tokens).toEqual([]);
+		expect(fresh.secret).not.toBe(store.secret);
+	});
+});
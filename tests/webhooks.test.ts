@@ -0,0 +1,113 @@
+import { createHmac } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import { describe, expect, it } from "vitest";
+import { createWebhookVerifier, verifyWebhook } from "../src/webhooks.js";
+
+const NOW = 1_700_000_000_000;
+const nowSeconds = String(NOW / 1000);
+
+function hmac(secret: string, payload: string): string {
+	return createHmac("sha256", secret).update(payload).digest("hex");
+}
+
+describe("verifyWebhook", () => {
+	it("checks GitHub's X-Hub-Signature-256", () => {
+		// Example from GitHub's webhook validation docs
+		const verify = { preset: "github" as const, secret: "It's a Secret to Everybody" };
+		const body = Buffer.from("Hello, World!");
+		const signature = "sha256=757107ea0eb2509fc211221cce984b8a37570b6d7586c22c46f4379c8b043e17";
+
+		expect(verifyWebhook(verify, { "x-hub-signature-256": signature }, body)).toEqual({ ok: true });
+		expect(verifyWebhook(verify, { "x-hub-signature-256": signature }, Buffer.from("Hello"))).toEqual(
+			{ ok: false, reason: "bad signature" },
+		);
+		expect(verifyWebhook(verify, {}, body)).toMatchObject({ ok: false });
+	});
+
+	it("checks Slack's v0 signature and request timestamp", () => {
+		// Example from Slack's request verification docs
+		const verify = { preset: "slack" as const, secret: "8f742231b10e8888abcd99yyyzzz85a5" };
+		const body = Buffer.from(
+			"token=xyzz0WbapA4vBCDEFasx0q6G&team_id=T1DC2JH3J&team_domain=testteamnow&channel_id=G8PSS9T3V&channel_name=foobar&user_id=U2CERLKJA&user_name=roadrunner&command=%2Fwebhook-collect&text=&response_url=https%3A%2F%2Fhooks.slack.com%2Fcommands%2FT1DC2JH3J%2F397700885554%2F96rGlfmibIGlgcZRskXaIFfN&trigger_id=398738663015.47445629121.803a0bc887a14d10d2c447fce8b6703c",
+		);
+		const headers = {
+			"x-slack-signature": "v0=a2114d57b48eac39b9ad189dd8316235a7b4a8d21a10bd27519666489c69b503",
+			"x-slack-request-timestamp": "1531420618",
+		};
+
+		expect(verifyWebhook(verify, headers, body, 1531420618_000)).toEqual({ ok: true });
+		expect(verifyWebhook(verify, headers, body, 1531420618_000 + 301_000)).toEqual({
+			ok: false,
+			reason: "timestamp outside tolerance",
+		});
+		expect(
+			verifyWebhook({ ...verify, toleranceSeconds: 600 }, headers, body, 1531420618_000 + 301_000),
+		).toEqual({ ok: true });
+	});
+
+	it("accepts any v1 signature in Stripe-Signature within the tolerance", () => {
+		const verify = { preset: "stripe" as const, secret: "whsec_test" };
+		const body = Buffer.from('{"id":"evt_1"}');
+		const valid = hmac("whsec_test", `${nowSeconds}.${body}`);
+		const header = (t: string, ...sigs: string[]) => ({
+			"stripe-signature": [`t=${t}`, ...sigs.map((sig) => `v1=${sig}`)].join(","),
+		});
+
+		expect(verifyWebhook(verify, header(nowSeconds, "00", valid), body, NOW)).toEqual({ ok: true });
+		expect(verifyWebhook(verify, header(nowSeconds, "00"), body, NOW)).toMatchObject({ ok: false });
+		expect(verifyWebhook(verify, header("1600000000", valid), body, NOW)).toEqual({
+			ok: false,
+			reason: "timestamp outside tolerance",
+		});
+		expect(verifyWebhook(verify, { "stripe-signature": `v1=${valid}` }, body, NOW)).toEqual({
+			ok: false,
+			reason: "missing timestamp",
+		});
+	});
+
+	it("checks a generic HMAC with a custom header, prefix and signed timestamp", () => {
+		const body = Buffer.from("payload");
+		expect(
+			verifyWebhook(
+				{ preset: "generic-hmac", secret: "s" },
+				{ "x-signature": hmac("s", "payload") },
+				body,
+			),
+		).toEqual({ ok: true });
+
+		const verify = {
+			preset: "generic-hmac" as const,
+			secret: "s",
+			header: "X-Webhook-Signature",
+			prefix: "sha256=",
+			timestampHeader: "X-Webhook-Timestamp",
+		};
+		const headers = {
+			"x-webhook-signature": `sha256=${hmac("s", `${nowSeconds}.payload`)}`,
+			"x-webhook-timestamp": nowSeconds,
+		};
+		expect(verifyWebhook(verify, headers, body, NOW)).toEqual({ ok: true });
+		expect(verifyWebhook(verify, headers, body, NOW + 3_600_000)).toMatchObject({ ok: false });
+		expect(verifyWebhook(verify, { "x-webhook-timestamp": nowSeconds }, body, NOW)).toEqual({
+			ok: false,
+			reason: "missing X-Webhook-Signature",
+		});
+	});
+});
+
+describe("createWebhookVerifier", () => {
+	it("answers 401 on a bad signature and reports every outcome", () => {
+		const outcomes: boolean[] = [];
+		const verifier = createWebhookVerifier({ preset: "generic-hmac", secret: "s" }, (result) =>
+			outcomes.push(result.ok),
+		);
+		const req = (signature: string) => ({ headers: { "x-signature": signature } }) as IncomingMessage;
+
+		expect(verifier(req(hmac("s", "body")), Buffer.from("body"))).toBeNull();
+		expect(verifier(req("forged"), Buffer.from("body"))).toEqual({
+			status: 401,
+			body: "Invalid webhook signature",
+		});
+		expect(outcomes).toEqual([true, false]);
+	});
+});
@@ -3,6 +3,7 @@ import {
 	buildFunnelStatusResponse,
 	buildFunnelRoutesResponse,
 	buildNodeStatusResponse,
+	buildSecurityResponse,
 	buildStatsResponse,
 } from "../src/webmcp-tools.js";
 import type { FunnelStatus } from "../src/types.js";
@@ -67,6 +68,33 @@ describe("buildFunnelStatusResponse", () => {
 		expect(result.publicUrl).toBeNull();
 		expect(result.activeFunnel).toBeNull();
 	});
+
+	it("does not report a tailnet-only route as the public URL", () => {
+		const status: FunnelStatus = {
+			available: true,
+			hostname: "wopr.tailnet.ts.net",
+			funnels: [
+				{
+					port: 8080,
+					path: "/",
+					exposure: "tailnet",
+					publicUrl: "https://wopr.tailnet.ts.net",
+					active: true,
+				},
+				{
+					port: 3000,
+					path: "/hooks",
+					publicUrl: "https://wopr.tailnet.ts.net/hooks",
+					active: true,
+				},
+			],
+		};
+
+		const result = buildFunnelStatusResponse(status);
+
+		expect(result.publicUrl).toBe("https://wopr.tailnet.ts.net/hooks");
+		expect(result.routeCount).toBe(2);
+	});
 });
 
 describe("buildFunnelRoutesResponse", () => {
@@ -91,6 +119,9 @@ describe("buildFunnelRoutesResponse", () => {
 			{
 				port: 3000,
 				path: "/api",
+				publicPort: 443,
+				exposure: "public",
+				protocol: "http",
 				publicUrl: "https://wopr.tailnet.ts.net/api",
 				active: true,
 				target: "localhost:3000",
@@ -202,8 +233,15 @@ describe("buildStatsResponse", () => {
 		const stats: FunnelStats = {
 			funnelsStarted: 2,
 			funnelsStopped: 1,
+			funnelRestarts: 0,
 			hostnameChanges: 0,
 			statusChecks: 5,
+			webhooksVerified: 0,
+			webhooksRejected: 0,
+			requestsDenied: 0,
+			requestsRateLimited: 0,
+			statusCheckLatency: { count: 0, sumMs: 0, buckets: [] },
+			routes: {},
 			startedAt,
 		};
 
@@ -220,8 +258,15 @@ describe("buildStatsResponse", () => {
 		const stats: FunnelStats = {
 			funnelsStarted: 0,
 			funnelsStopped: 0,
+			funnelRestarts: 0,
 			hostnameChanges: 0,
 			statusChecks: 0,
+			webhooksVerified: 0,
+			webhooksRejected: 0,
+			requestsDenied: 0,
+			requestsRateLimited: 0,
+			statusCheckLatency: { count: 0, sumMs: 0, buckets: [] },
+			routes: {},
 			startedAt: Date.now(),
 		};
 
@@ -232,5 +277,91 @@ describe("buildStatsResponse", () => {
 		expect(funnels.stopped).toBe(0);
 		expect(result.hostnameChanges).toBe(0);
 		expect(result.statusChecks).toBe(0);
+		expect(result.webhooks).toEqual({ verified: 0, rejected: 0 });
+		expect(result.blocked).toEqual({ denied: 0, rateLimited: 0 });
+		expect(result.traffic).toEqual({ requests: 0, routes: {} });
+	});
+
+	it("totals proxied requests across routes", () => {
+		const traffic = {
+			statusCodes: { "200": 1 },
+			bytesIn: 0,
+			bytesOut: 2,
+			latencyMs: { p50: 1, p90: 1, p99: 1 },
+			lastRequestAt: 0,
+		};
+		const stats: FunnelStats = {
+			funnelsStarted: 2,
+			funnelsStopped: 0,
+			funnelRestarts: 0,
+			hostnameChanges: 0,
+			statusChecks: 0,
+			webhooksVerified: 0,
+			webhooksRejected: 0,
+			requestsDenied: 0,
+			requestsRateLimited: 0,
+			statusCheckLatency: { count: 0, sumMs: 0, buckets: [] },
+			routes: {
+				"443:/": { ...traffic, requests: 3 },
+				"443:/api": { ...traffic, requests: 4 },
+			},
+			startedAt: Date.now(),
+		};
+
+		const result = buildStatsResponse(stats);
+		expect((result.traffic as { requests: number }).requests).toBe(7);
+	});
+});
+
+describe("buildSecurityResponse", () => {
+	it("reports rules and blocked traffic per route", () => {
+		const stats: FunnelStats = {
+			funnelsStarted: 1,
+			funnelsStopped: 0,
+			funnelRestarts: 0,
+			hostnameChanges: 0,
+			statusChecks: 0,
+			webhooksVerified: 0,
+			webhooksRejected: 0,
+			requestsDenied: 3,
+			requestsRateLimited: 1,
+			statusCheckLatency: { count: 0, sumMs: 0, buckets: [] },
+			routes: {},
+			startedAt: Date.now(),
+		};
+		const lastBlockedAt = Date.UTC(2026, 0, 1);
+
+		const result = buildSecurityResponse(
+			[
+				{
+					path: "/api",
+					publicPort: 443,
+					ipDeny: ["203.0.113.0/24"],
+					rateLimit: { requestsPerMinute: 60 },
+					denied: 3,
+					rateLimited: 1,
+					lastBlockedAt,
+					topClients: [{ ip: "203.0.113.9", blocked: 4 }],
+				},
+			],
+			stats,
+		);
+
+		expect(result).toEqual({
+			blocked: { denied: 3, rateLimited: 1 },
+			routes: [
+				{
+					path: "/api",
+					publicPort: 443,
+					ipAllow: [],
+					ipDeny: ["203.0.113.0/24"],
+					rateLimit: { requestsPerMinute: 60 },
+					denied: 3,
+					rateLimited: 1,
+					lastBlockedAt: "2026-01-01T00:00:00.000Z",
+					topClients: [{ ip: "203.0.113.9", blocked: 4 }],
+				},
+			],
+		});
 	});
 });